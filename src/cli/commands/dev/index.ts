@@ -1,5 +1,6 @@
 import chalk from "chalk";
 import { spawn } from "child_process";
+import os from "os";
 import path from "path";
 import fs from "fs-extra";
 
@@ -46,7 +47,7 @@ export async function devCommand(options: any) {
 
       installProcess.on("close", (code) => {
         if (code === 0) {
-          startDevServer(port, host, projectDir);
+          startDevServer(port, host, projectDir).catch(reportStartError);
         } else {
           console.error(chalk.red("❌ Failed to install dependencies"));
           process.exit(1);
@@ -56,30 +57,159 @@ export async function devCommand(options: any) {
       return;
     }
 
-    startDevServer(port, host, projectDir);
+    await startDevServer(port, host, projectDir);
   } catch (error) {
-    console.error(chalk.red("❌ Error starting development server:"), error);
-    process.exit(1);
+    reportStartError(error);
   }
 }
 
-function startDevServer(port: number, host: string, projectDir: string) {
+function reportStartError(error: unknown): void {
+  console.error(chalk.red("❌ Error starting development server:"), error);
+  process.exit(1);
+}
+
+// Vite only reloads for files in its module graph, so a plugin reloads the
+// page when the deck's markdown, its config or a code snippet it imports
+// with `file=` changes. It also serves files as written when asked with
+// ?mostage-raw, as Vite would answer a request for a .ts snippet with the
+// transpiled module. Like the export, it only reads files inside the project.
+const LIVE_RELOAD_PLUGIN = `
+import fs from "fs";
+import path from "path";
+
+const SNIPPET_REFERENCE = /^\\s*(?:\`{3,}|~{3,}).*\\bfile=([^\\s#]+)/gm;
+
+// Same rule as isInsideProject in src/cli/utils/paths.ts
+function isInsideProject(projectDir, file) {
+  const relative = path.relative(path.resolve(projectDir), path.resolve(file));
+  return (
+    relative !== "" &&
+    relative !== ".." &&
+    !relative.startsWith(".." + path.sep) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+function mostageLiveReload() {
+  const snippets = new Set();
+
+  function scanSnippets(root) {
+    snippets.clear();
+    const scan = (dir) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const file = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+            scan(file);
+          }
+        } else if (entry.name.endsWith(".md")) {
+          const markdown = fs.readFileSync(file, "utf-8");
+          for (const [, reference] of markdown.matchAll(SNIPPET_REFERENCE)) {
+            snippets.add(path.resolve(dir, reference));
+          }
+        }
+      }
+    };
+    scan(root);
+  }
+
+  return {
+    name: "mostage-live-reload",
+    configureServer(server) {
+      scanSnippets(server.config.root);
+      server.watcher.add([...snippets]);
+
+      const root = path.resolve(server.config.root);
+      server.middlewares.use((req, res, next) => {
+        const url = new URL(req.url, "http://localhost");
+        if (!url.searchParams.has("mostage-raw")) return next();
+
+        const file = path.join(root, decodeURIComponent(url.pathname));
+        if (
+          !isInsideProject(root, file) ||
+          !fs.existsSync(file) ||
+          !fs.statSync(file).isFile()
+        ) {
+          return next();
+        }
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.end(fs.readFileSync(file));
+      });
+    },
+    handleHotUpdate({ file, server }) {
+      const isDeckFile = file.endsWith(".md") || file.endsWith("config.json");
+      if (!isDeckFile && !snippets.has(path.resolve(file))) return;
+
+      if (file.endsWith(".md")) {
+        scanSnippets(server.config.root);
+        server.watcher.add([...snippets]);
+      }
+      server.ws.send({ type: "full-reload" });
+      return [];
+    },
+  };
+}
+`;
+
+// Config file for Vite with the live reload plugin, added to the project's
+// own Vite config if it has one
+async function writeLiveReloadConfig(projectDir: string): Promise<string> {
+  const files = await fs.readdir(projectDir);
+  const projectConfig = files.find((file: string) =>
+    /^vite\.config\.\w+$/.test(file)
+  );
+
+  const config = projectConfig
+    ? `
+import projectConfig from ${JSON.stringify(path.join(projectDir, projectConfig))};
+
+export default async (env) => {
+  const config = await (typeof projectConfig === "function"
+    ? projectConfig(env)
+    : projectConfig);
+  return {
+    ...config,
+    plugins: [...(config.plugins || []), mostageLiveReload()],
+  };
+};
+`
+    : `
+export default { plugins: [mostageLiveReload()] };
+`;
+
+  const configPath = path.join(
+    os.tmpdir(),
+    `mostage-vite-${process.pid}.config.mjs`
+  );
+  await fs.writeFile(configPath, LIVE_RELOAD_PLUGIN + config);
+  return configPath;
+}
+
+async function startDevServer(port: number, host: string, projectDir: string) {
   console.log(chalk.green(`✅ Development server starting...`));
   console.log(chalk.gray(`   Server: http://${host}:${port}`));
   console.log(chalk.gray(`   Project: ${projectDir}`));
   console.log(chalk.gray(`   Press Ctrl+C to stop\n`));
 
-  const viteProcess = spawn(
-    "npx",
-    ["vite", "--port", port.toString(), "--host", host],
-    {
-      stdio: "inherit",
-      shell: true,
-      cwd: projectDir,
-    }
-  );
+  const configPath = await writeLiveReloadConfig(projectDir);
+  const viteArgs = [
+    "vite",
+    "--port",
+    port.toString(),
+    "--host",
+    host,
+    "--config",
+    JSON.stringify(configPath),
+  ];
+
+  const viteProcess = spawn("npx", viteArgs, {
+    stdio: "inherit",
+    shell: true,
+    cwd: projectDir,
+  });
 
   viteProcess.on("close", (code) => {
+    fs.removeSync(configPath);
     if (code !== 0) {
       console.error(chalk.red("❌ Development server stopped with error"));
       process.exit(1);
@@ -90,6 +220,7 @@ function startDevServer(port: number, host: string, projectDir: string) {
   process.on("SIGINT", () => {
     console.log(chalk.yellow("\n\n🛑 Stopping development server..."));
     viteProcess.kill("SIGINT");
+    fs.removeSync(configPath);
     process.exit(0);
   });
 }
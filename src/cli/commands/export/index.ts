@@ -1,10 +1,22 @@
 import chalk from "chalk";
 import fs from "fs-extra";
 import path from "path";
-import puppeteer from "puppeteer";
+import puppeteer, { Page } from "puppeteer";
 import PptxGenJS from "pptxgenjs";
 import sharp from "sharp";
 import { fileURLToPath } from "url";
+import { ContentService } from "../../../core/services/content-service";
+import { FrontMatterParser } from "../../../core/utils/front-matter";
+import { resolveSlideSize } from "../../../core/utils/slide-size";
+import { isInsideProject } from "../../utils/paths";
+import {
+  addEditableSlides,
+  collectPptxDeck,
+  definePptxLayout,
+  markdownToPlainText,
+  prepareMathCapture,
+  PptxMathImage,
+} from "./pptx";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -12,6 +24,22 @@ interface ExportOptions {
   source?: string;
   output?: string;
   format?: string;
+  fragments?: boolean;
+  size?: string;
+  notes?: boolean;
+  screenshots?: boolean;
+  safe?: boolean;
+}
+
+interface SlideSize {
+  width: number;
+  height: number;
+}
+
+interface PresentationMetadata {
+  title?: string;
+  author?: string;
+  slideSize?: SlideSize; // Fixed logical slide size of the presentation
 }
 
 interface ProjectFiles {
@@ -21,9 +49,33 @@ interface ProjectFiles {
   jsContent: string;
   htmlContent: string;
   assets: Record<string, string>;
+  metadata: PresentationMetadata;
+  diagramScripts: string[];
 }
 
 const DEFAULT_OUTPUT_DIR = "./exports";
+const SLIDE_SIZES: Record<string, SlideSize> = {
+  "16:9": { width: 1920, height: 1080 },
+  "4:3": { width: 1440, height: 1080 },
+};
+const DEFAULT_SLIDE_SIZE = "16:9";
+const READY_TIMEOUT = 30000;
+const NO_ANIMATION_CSS =
+  "*, *::before, *::after { transition: none !important; animation: none !important; }";
+// Browser builds of the optional diagram libraries, which set the page
+// globals the core looks for before importing the packages
+const DIAGRAM_LIBRARIES = [
+  {
+    languages: ["mermaid"],
+    packageName: "mermaid",
+    file: "dist/mermaid.min.js",
+  },
+  {
+    languages: ["dot", "graphviz"],
+    packageName: "@viz-js/viz",
+    file: "dist/viz-global.js",
+  },
+];
 const SUPPORTED_IMAGE_EXTENSIONS = [
   ".png",
   ".jpg",
@@ -62,6 +114,9 @@ export async function exportCommand(options: ExportOptions) {
       );
     }
 
+    // Fail on an invalid size before doing any work
+    const requestedSize = options.size ? parseSlideSize(options.size) : null;
+
     // Create format-specific output directory
     const outputDir = path.join(baseOutputDir, format);
 
@@ -69,33 +124,62 @@ export async function exportCommand(options: ExportOptions) {
       chalk.green(`✅ Exporting presentation as ${format.toUpperCase()}...`)
     );
     console.log(chalk.gray(`   Project directory: ${projectDir}`));
-    console.log(chalk.gray(`   Output directory: ${outputDir}\n`));
+    console.log(chalk.gray(`   Output directory: ${outputDir}`));
+    if (options.safe) {
+      console.log(chalk.gray("   Safe mode: on"));
+    }
+    console.log("");
 
     // Build self-contained HTML first
-    const tempHtmlPath = await buildSelfContained(projectDir, outputDir);
+    const { htmlPath: tempHtmlPath, metadata } = await buildSelfContained(
+      projectDir,
+      outputDir,
+      options.safe
+    );
+
+    // Without --size, exports match the presentation's own slide size
+    const slideSize =
+      requestedSize || metadata.slideSize || SLIDE_SIZES[DEFAULT_SLIDE_SIZE];
 
     // Export based on format
     switch (format) {
       case "html":
-        // HTML export is already done
+        // HTML export is already done; safe mode cleans it when it is opened
         break;
       case "pdf":
-        await exportToPDF(tempHtmlPath, outputDir);
+        await exportToPDF(tempHtmlPath, outputDir, {
+          slideSize,
+          fragments: options.fragments,
+          notes: options.notes,
+        });
         // Remove temporary HTML file
         await fs.remove(tempHtmlPath);
         break;
       case "pptx":
-        await exportToPPTX(tempHtmlPath, outputDir);
+        await exportToPPTX(tempHtmlPath, outputDir, metadata, {
+          slideSize,
+          screenshots: options.screenshots,
+        });
         // Remove temporary HTML file
         await fs.remove(tempHtmlPath);
         break;
       case "png":
-        await exportToPNG(tempHtmlPath, outputDir);
+        await exportToPNG(
+          tempHtmlPath,
+          outputDir,
+          options.fragments,
+          slideSize
+        );
         // Remove temporary HTML file
         await fs.remove(tempHtmlPath);
         break;
       case "jpg":
-        await exportToJPG(tempHtmlPath, outputDir);
+        await exportToJPG(
+          tempHtmlPath,
+          outputDir,
+          options.fragments,
+          slideSize
+        );
         // Remove temporary HTML file
         await fs.remove(tempHtmlPath);
         break;
@@ -110,6 +194,22 @@ export async function exportCommand(options: ExportOptions) {
   }
 }
 
+// Accepts "16:9", "4:3" or a custom "<width>x<height>" in pixels
+function parseSlideSize(size: string): SlideSize {
+  if (SLIDE_SIZES[size]) {
+    return SLIDE_SIZES[size];
+  }
+
+  const match = size.match(/^(\d+)x(\d+)$/);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    throw new Error(
+      `Unsupported slide size: ${size}. Use ${Object.keys(SLIDE_SIZES).join(", ")} or <width>x<height>, e.g. 1280x720`
+    );
+  }
+
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
 async function validateProjectDirectory(projectDir: string): Promise<void> {
   const indexHtmlPath = path.join(projectDir, "index.html");
   if (!(await fs.pathExists(indexHtmlPath))) {
@@ -121,8 +221,9 @@ async function validateProjectDirectory(projectDir: string): Promise<void> {
 
 async function buildSelfContained(
   projectDir: string,
-  outputDir: string
-): Promise<string> {
+  outputDir: string,
+  safe?: boolean
+): Promise<{ htmlPath: string; metadata: PresentationMetadata }> {
   // Create output directory
   await fs.ensureDir(outputDir);
 
@@ -130,13 +231,13 @@ async function buildSelfContained(
   const projectFiles = await readProjectFiles(projectDir);
 
   // Create self-contained HTML
-  const selfContainedHtml = createSelfContainedHtml(projectFiles);
+  const selfContainedHtml = createSelfContainedHtml(projectFiles, safe);
 
   // Write output file
   const outputPath = path.join(outputDir, "index.html");
   await fs.writeFile(outputPath, selfContainedHtml);
 
-  return outputPath;
+  return { htmlPath: outputPath, metadata: projectFiles.metadata };
 }
 
 async function readProjectFiles(projectDir: string): Promise<ProjectFiles> {
@@ -150,14 +251,111 @@ async function readProjectFiles(projectDir: string): Promise<ProjectFiles> {
       processAssets(projectDir),
     ]);
 
-  return { content, config, cssContent, jsContent, htmlContent, assets };
+  return {
+    content,
+    config,
+    cssContent,
+    jsContent,
+    htmlContent,
+    assets,
+    metadata: getPresentationMetadata(content, config),
+    diagramScripts: await readDiagramLibraries(projectDir, content),
+  };
+}
+
+// The inlined core can't import the diagram packages, so the browser builds
+// of those the deck uses are inlined as well
+async function readDiagramLibraries(
+  projectDir: string,
+  content: string
+): Promise<string[]> {
+  const languages = new Set(
+    Array.from(content.matchAll(/^ {0,3}(?:```|~~~)\s*([\w-]+)/gm), (match) =>
+      match[1].toLowerCase()
+    )
+  );
+  const scripts: string[] = [];
+
+  for (const library of DIAGRAM_LIBRARIES) {
+    if (!library.languages.some((language) => languages.has(language))) {
+      continue;
+    }
+
+    const libraryPath = await findPackageFile(
+      [projectDir, __dirname],
+      library.packageName,
+      library.file
+    );
+    if (libraryPath) {
+      scripts.push(await fs.readFile(libraryPath, "utf-8"));
+    } else {
+      console.warn(
+        chalk.yellow(
+          `Diagrams in ${library.languages.join("/")} code blocks need the "${library.packageName}" package. Run "npm install ${library.packageName}" in the project to include them in the export.`
+        )
+      );
+    }
+  }
+
+  return scripts;
+}
+
+// Look for a file of a package in the node_modules above each directory
+async function findPackageFile(
+  directories: string[],
+  packageName: string,
+  file: string
+): Promise<string | null> {
+  for (const start of directories) {
+    let directory = path.resolve(start);
+    while (true) {
+      const candidate = path.join(directory, "node_modules", packageName, file);
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(directory);
+      if (parent === directory) break;
+      directory = parent;
+    }
+  }
+  return null;
+}
+
+// Title, author and slide size from the content's front matter, falling back
+// to config.json
+function getPresentationMetadata(
+  content: string,
+  config: Record<string, any>
+): PresentationMetadata {
+  const frontMatter = new FrontMatterParser().extract(content).data || {};
+  const pick = (key: keyof PresentationMetadata): string | undefined => {
+    const value = frontMatter[key] ?? config[key];
+    return typeof value === "string" && value.trim() ? value : undefined;
+  };
+
+  const slideSize =
+    resolveSlideSize({ ...config, ...frontMatter }) || undefined;
+
+  return { title: pick("title"), author: pick("author"), slideSize };
 }
 
 async function readContentFile(projectDir: string): Promise<string> {
   const contentPath = path.join(projectDir, "content.md");
 
   if (await fs.pathExists(contentPath)) {
-    return await fs.readFile(contentPath, "utf-8");
+    // Inline included files so the export is self-contained. Only files in
+    // the project are read, so a deck can't pull in e.g. ~/.ssh
+    const content = await fs.readFile(contentPath, "utf-8");
+    return new ContentService().resolveIncludes(
+      content,
+      contentPath,
+      async (file) => {
+        if (!isInsideProject(projectDir, file)) {
+          throw new Error("File is outside the project directory");
+        }
+        return fs.readFile(file, "utf-8");
+      }
+    );
   }
 
   throw new Error(
@@ -347,26 +545,43 @@ function getMimeType(ext: string): string {
   return MIME_TYPES[ext] || "application/octet-stream";
 }
 
-function createSelfContainedHtml(projectFiles: ProjectFiles): string {
-  const { content, config, cssContent, jsContent, htmlContent, assets } =
-    projectFiles;
+function createSelfContainedHtml(
+  projectFiles: ProjectFiles,
+  safe?: boolean
+): string {
+  const {
+    content,
+    config,
+    cssContent,
+    jsContent,
+    htmlContent,
+    assets,
+    metadata,
+    diagramScripts,
+  } = projectFiles;
 
   // Process all content with asset path replacement
   const processedContent = replaceAssetPaths(content, assets);
-  const processedConfig = processConfig(config, assets);
+  const processedConfig = processConfig(config, assets, safe);
 
   // Escape content for template literal
   const escapedContent = escapeForTemplateLiteral(processedContent);
 
-  // Create config object string
-  const configString = JSON.stringify(processedConfig, null, 2);
+  // Create config object string; "<" is escaped so that a "</script>" in
+  // header or footer content can't end the inline script
+  const configString = JSON.stringify(processedConfig, null, 2).replace(
+    /</g,
+    "\\u003c"
+  );
 
   return generateHtmlTemplate(
     escapedContent,
     configString,
     cssContent,
     jsContent,
-    htmlContent
+    htmlContent,
+    metadata,
+    diagramScripts
   );
 }
 
@@ -387,13 +602,19 @@ function replaceAssetPaths(
 
 function processConfig(
   config: Record<string, any>,
-  assets: Record<string, string>
+  assets: Record<string, string>,
+  safe?: boolean
 ): Record<string, any> {
   const cleanConfig = { ...config };
 
   // Remove contentPath since content is embedded
   delete cleanConfig.contentPath;
 
+  // --safe turns safe mode on whatever the project configures
+  if (safe) {
+    cleanConfig.security = { ...cleanConfig.security, sanitize: true };
+  }
+
   // Process header
   if (cleanConfig.header?.contentPath) {
     const headerContent = assets["header.html"];
@@ -432,8 +653,20 @@ function processConfig(
   return cleanConfig;
 }
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 function escapeForTemplateLiteral(text: string): string {
-  return text.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$/g, "\\$");
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/`/g, "\\`")
+    .replace(/\$/g, "\\$")
+    .replace(/<\/script/gi, "<\\/script");
 }
 
 function generateHtmlTemplate(
@@ -441,13 +674,23 @@ function generateHtmlTemplate(
   config: string,
   css: string,
   js: string,
-  htmlTemplate: string
+  htmlTemplate: string,
+  metadata: PresentationMetadata,
+  diagramScripts: string[] = []
 ): string {
   let result = htmlTemplate.replace(
     /<link[^>]*rel=["']stylesheet["'][^>]*>/g,
     `<style>${css}</style>`
   );
 
+  if (metadata.title) {
+    const title = escapeHtml(metadata.title);
+    result = result.replace(
+      /<title>[\s\S]*?<\/title>/,
+      () => `<title>${title}</title>`
+    );
+  }
+
   // Build inline script using concatenation to avoid template literal issues
   const inlineScript =
     `const config = ${config};\n` +
@@ -456,21 +699,113 @@ function generateHtmlTemplate(
     js +
     "\n" +
     `const mostage = new Mostage(config);\n` +
+    `window.mostage = mostage;\n` +
+    `mostage.whenReady().then(() => { document.documentElement.dataset.mostageReady = "true"; });\n` +
     `mostage.start();`;
 
   // Use replacement function to avoid issues with special characters in js
+  // Classic scripts run before module scripts, so the diagram libraries'
+  // globals are set when the presentation starts
+  const libraryScripts = diagramScripts
+    .map(
+      (script) =>
+        "<script>" + script.replace(/<\/script/gi, "<\\/script") + "</script>"
+    )
+    .join("");
+
   result = result.replace(
     /<script[^>]*type=["']module["'][^>]*>[\s\S]*?<\/script>/g,
-    () => '<script type="module">' + inlineScript + "</script>"
+    () => libraryScripts + '<script type="module">' + inlineScript + "</script>"
   );
 
   return result;
 }
 
 // PDF Export Function
-async function exportToPDF(htmlPath: string, outputDir: string): Promise<void> {
+// Fragment Helpers
+// Returns the fragment steps to capture for a slide: only the fully revealed
+// slide by default, or every step (0 = no fragment visible) when requested
+async function getFragmentSteps(
+  page: Page,
+  slideIndex: number,
+  exportFragments: boolean
+): Promise<(number | null)[]> {
+  if (!exportFragments) return [null];
+
+  const stepCount = await page.evaluate((index: number) => {
+    const slide = document.querySelectorAll(".mostage-slide")[index];
+    if (!slide) return 0;
+    const indexes = Array.from(slide.querySelectorAll(".fragment")).map(
+      (fragment) => (fragment as HTMLElement).dataset.fragmentIndex
+    );
+    return new Set(indexes).size;
+  }, slideIndex);
+
+  return Array.from({ length: stepCount + 1 }, (_, step) => step);
+}
+
+// Shows a slide with its first `step` fragment steps revealed (all when step
+// is null) and resolves once the slide transition has ended
+async function showSlide(
+  page: Page,
+  slideIndex: number,
+  step: number | null
+): Promise<void> {
+  await page.evaluate(
+    (index: number, visibleSteps: number | null) =>
+      (window as any).mostage.goToSlide(
+        index,
+        visibleSteps ?? Number.MAX_SAFE_INTEGER
+      ),
+    slideIndex,
+    step
+  );
+}
+
+function getSlideFileName(
+  slideIndex: number,
+  step: number | null,
+  exportFragments: boolean,
+  extension: string
+): string {
+  return exportFragments && step !== null
+    ? `slide-${slideIndex + 1}-${step + 1}.${extension}`
+    : `slide-${slideIndex + 1}.${extension}`;
+}
+
+// Waits until the presentation has rendered its slides and loaded its fonts
+// and images, then turns off CSS animations so captures show final states
+async function waitForPresentation(page: Page): Promise<void> {
+  await page.waitForFunction(
+    () => document.documentElement.dataset.mostageReady === "true",
+    { timeout: READY_TIMEOUT }
+  );
+  await page.addStyleTag({ content: NO_ANIMATION_CSS });
+
+  // What safe mode removed, if it is on
+  const report: string[] = await page.evaluate(() =>
+    (window as any).mostage.getSecurityReport()
+  );
+  report.forEach((entry) => console.log(chalk.yellow(`⚠️  ${entry}`)));
+}
+
+// Number of slides of the loaded presentation
+async function getSlideCount(page: Page): Promise<number> {
+  return page.evaluate(() => (window as any).mostage.getTotalSlides());
+}
+
+// PDF Export Function
+async function exportToPDF(
+  htmlPath: string,
+  outputDir: string,
+  options: { slideSize: SlideSize; fragments?: boolean; notes?: boolean }
+): Promise<void> {
   console.log(chalk.blue("📄 Generating PDF..."));
 
+  const { width, height } = options.slideSize;
+  // Speaker notes get a panel below the slide, half the slide's height
+  const notesHeight = options.notes ? Math.round(height / 2) : 0;
+
   const browser = await puppeteer.launch({
     headless: true,
     args: ["--no-sandbox", "--disable-setuid-sandbox"],
@@ -478,23 +813,32 @@ async function exportToPDF(htmlPath: string, outputDir: string): Promise<void> {
 
   try {
     const page = await browser.newPage();
+    await page.setViewport({ width, height });
     await page.goto(`file://${path.resolve(htmlPath)}`, {
       waitUntil: "networkidle0",
     });
 
-    // Wait for presentation to load
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    await waitForPresentation(page);
+
+    const pageCount = await page.evaluate(buildPrintPages, {
+      width,
+      height,
+      notesHeight,
+      exportFragments: !!options.fragments,
+    });
+
+    console.log(chalk.blue(`Rendering ${pageCount} pages`));
+
+    // The print layout is built for screen styles, not the print stylesheet
+    await page.emulateMediaType("screen");
 
     const pdfPath = path.join(outputDir, "presentation.pdf");
     await page.pdf({
       path: pdfPath,
-      format: "A4",
-      margin: {
-        top: "0.5in",
-        right: "0.5in",
-        bottom: "0.5in",
-        left: "0.5in",
-      },
+      width: `${width}px`,
+      height: `${height + notesHeight}px`,
+      printBackground: true,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
     });
 
     console.log(chalk.green(`✅ PDF exported to: ${pdfPath}`));
@@ -503,10 +847,135 @@ async function exportToPDF(htmlPath: string, outputDir: string): Promise<void> {
   }
 }
 
+// Runs in the browser: replaces the presentation with one page per slide
+// (or per fragment step) and returns the number of pages
+function buildPrintPages(options: {
+  width: number;
+  height: number;
+  notesHeight: number;
+  exportFragments: boolean;
+}): number {
+  const { width, height, notesHeight, exportFragments } = options;
+  const mostage = (window as any).mostage;
+  const container = mostage.getContainer() as HTMLElement;
+  const slideElements = Array.from(
+    container.querySelectorAll(".mostage-slide")
+  ) as HTMLElement[];
+  const printRoot = document.createElement("div");
+  printRoot.className = "mostage-print-pages";
+
+  const reset = (element: HTMLElement) => {
+    element.removeAttribute("id");
+    element.style.display = "block";
+    element.style.opacity = "1";
+    element.style.visibility = "visible";
+    element.style.transform = "none";
+    element.style.transition = "none";
+    element.style.animation = "none";
+  };
+
+  mostage.getSlides().forEach((slide: any, index: number) => {
+    mostage.goToSlide(index);
+    const totalFragments = mostage.getTotalFragments();
+    const steps = exportFragments
+      ? Array.from({ length: totalFragments + 1 }, (_, step) => step)
+      : [totalFragments];
+
+    steps.forEach((step) => {
+      mostage.goToSlide(index, step);
+
+      const printPage = document.createElement("div");
+      printPage.className = "mostage-print-page";
+      printPage.style.width = `${width}px`;
+      printPage.style.height = `${height + notesHeight}px`;
+
+      // A bare copy of the container keeps theme classes and variables
+      const frame = container.cloneNode(false) as HTMLElement;
+      frame.removeAttribute("id");
+      frame.style.position = "relative";
+      frame.style.top = "0";
+      frame.style.left = "0";
+      frame.style.width = `${width}px`;
+      frame.style.height = `${height}px`;
+
+      const slidesWrapper = document.createElement("div");
+      slidesWrapper.className = "mostage-slides";
+      const slideClone = slideElements[index].cloneNode(true) as HTMLElement;
+      reset(slideClone);
+      slidesWrapper.appendChild(slideClone);
+      frame.appendChild(slidesWrapper);
+
+      // Header and footer as shown on this slide
+      container
+        .querySelectorAll(":scope > .mostage-header, :scope > .mostage-footer")
+        .forEach((element) => {
+          if ((element as HTMLElement).style.display === "none") return;
+          const clone = element.cloneNode(true) as HTMLElement;
+          reset(clone);
+          frame.appendChild(clone);
+        });
+
+      printPage.appendChild(frame);
+
+      if (notesHeight > 0) {
+        const notes = document.createElement("div");
+        notes.className = "mostage-print-notes";
+        notes.style.height = `${notesHeight}px`;
+        notes.innerHTML = slide.notes?.html ?? "";
+        printPage.appendChild(notes);
+      }
+
+      printRoot.appendChild(printPage);
+    });
+  });
+
+  const style = document.createElement("style");
+  style.textContent = `
+    html, body {
+      margin: 0 !important;
+      padding: 0 !important;
+      width: auto !important;
+      height: auto !important;
+      overflow: visible !important;
+    }
+    .mostage-print-page {
+      position: relative;
+      overflow: hidden;
+      break-after: page;
+      page-break-after: always;
+    }
+    .mostage-print-page .mostage-slide {
+      background-attachment: scroll !important;
+    }
+    .mostage-print-page .fragment {
+      transition: none !important;
+    }
+    .mostage-print-notes {
+      box-sizing: border-box;
+      padding: 40px 80px;
+      overflow: hidden;
+      background: #ffffff;
+      color: #222222;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+      font-size: 24px;
+      line-height: 1.5;
+      border-top: 2px solid #dddddd;
+    }
+  `;
+  document.head.appendChild(style);
+
+  container.style.display = "none";
+  document.body.appendChild(printRoot);
+
+  return printRoot.children.length;
+}
+
 // PPTX Export Function
 async function exportToPPTX(
   htmlPath: string,
-  outputDir: string
+  outputDir: string,
+  metadata: PresentationMetadata,
+  options: { slideSize: SlideSize; screenshots?: boolean }
 ): Promise<void> {
   console.log(chalk.blue("📊 Generating PPTX..."));
 
@@ -517,319 +986,54 @@ async function exportToPPTX(
 
   try {
     const page = await browser.newPage();
+    await page.setViewport(options.slideSize);
     await page.goto(`file://${path.resolve(htmlPath)}`, {
       waitUntil: "networkidle0",
     });
 
-    // Wait for presentation to load
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    await waitForPresentation(page);
+    const deck = await page.evaluate(collectPptxDeck);
 
-    // Get total number of slides
-    const slideCount = await page.evaluate(() => {
-      const slides = document.querySelectorAll(".mostage-slide");
-      console.log("Found slides:", slides.length);
-      return slides.length;
-    });
-
-    console.log(chalk.blue(`Found ${slideCount} slides`));
+    console.log(chalk.blue(`Found ${deck.slides.length} slides`));
 
     const pptx = new PptxGenJS();
 
     // Set presentation properties
-    pptx.author = "Mostage";
+    pptx.author = metadata.author || "Mostage";
     pptx.company = "mo.js.org";
-    pptx.title = "Mostage Presentation";
-
-    // Generate slides
-    for (let i = 0; i < slideCount; i++) {
-      console.log(
-        chalk.blue(`Processing slide ${i + 1}/${slideCount} for PPTX`)
-      );
-
-      // Capture slide content directly without navigation
-      const slideContent = await page.evaluate((slideIndex) => {
-        const slides = document.querySelectorAll(".mostage-slide");
-        const slide = slides[slideIndex];
+    pptx.title = metadata.title || "Mostage Presentation";
 
-        if (!slide) {
-          return {
-            error: `Slide ${slideIndex} not found`,
-            slideCount: slides.length,
-          };
-        }
-
-        // Get all text content from the slide
-        const textContent = slide.innerText || slide.textContent || "";
-
-        // Extract title from various possible selectors
-        const titleSelectors = ["h1", "h2", "h3", ".title", ".slide-title"];
-        let title = `Slide ${slideIndex + 1}`;
-
-        for (const selector of titleSelectors) {
-          const titleElement = slide.querySelector(selector);
-          if (titleElement && titleElement.textContent?.trim()) {
-            title = titleElement.textContent.trim();
-            break;
-          }
-        }
-
-        // Get all direct text nodes
-        const allText = [];
-        const walker = document.createTreeWalker(
-          slide,
-          NodeFilter.SHOW_TEXT,
-          null,
-          false
-        );
-
-        let node;
-        while ((node = walker.nextNode())) {
-          const text = node.textContent?.trim();
-          if (text && text.length > 0) {
-            allText.push(text);
-          }
-        }
-
-        // Extract images
-        const images = Array.from(slide.querySelectorAll("img")).map((img) => ({
-          src: img.src,
-          alt: img.alt,
-          width: img.width,
-          height: img.height,
-        }));
-
-        // Extract background styles
-        const backgroundStyle =
-          slide.style.backgroundImage ||
-          getComputedStyle(slide).backgroundImage;
-
-        // Extract colors and styling
-        const backgroundColor =
-          slide.style.backgroundColor ||
-          getComputedStyle(slide).backgroundColor;
-
-        const textColor = slide.style.color || getComputedStyle(slide).color;
-
-        // Convert RGB colors to hex format for PPTX
-        const rgbToHex = (rgb: string) => {
-          if (!rgb || rgb === "rgba(0, 0, 0, 0)") return null;
-          const match = rgb.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-          if (match) {
-            const r = parseInt(match[1]);
-            const g = parseInt(match[2]);
-            const b = parseInt(match[3]);
-            return ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
-          }
-          return null;
-        };
-
-        // Extract code blocks
-        const codeBlocks = Array.from(slide.querySelectorAll("pre, code")).map(
-          (code) => ({
-            text: code.textContent?.trim(),
-            language: code.className?.match(/language-(\w+)/)?.[1] || "text",
-          })
-        );
+    const layout = definePptxLayout(pptx, options.slideSize);
 
-        // Extract lists with better formatting
-        const lists = Array.from(slide.querySelectorAll("ul, ol")).map(
-          (list) => {
-            const items = Array.from(list.querySelectorAll("li"))
-              .map((li) => li.textContent?.trim())
-              .filter(Boolean);
-            const isOrdered = list.tagName === "OL";
-            return { items, isOrdered };
-          }
-        );
-
-        return {
-          title,
-          textContent,
-          allText,
-          slideHTML: slide.innerHTML,
-          images,
-          backgroundStyle,
-          backgroundColor: rgbToHex(backgroundColor),
-          textColor: rgbToHex(textColor),
-          codeBlocks,
-          lists,
-        };
-      }, i);
-
-      if (slideContent && !slideContent.error) {
-        console.log(
-          chalk.gray(`Slide ${i + 1} - Title: ${slideContent.title}`)
-        );
+    if (options.screenshots) {
+      // One full-slide picture per slide, for pixel fidelity
+      for (let i = 0; i < deck.slides.length; i++) {
         console.log(
-          chalk.gray(
-            `Slide ${i + 1} - Text: ${slideContent.textContent.substring(0, 100)}...`
-          )
+          chalk.blue(`Processing slide ${i + 1}/${deck.slides.length} for PPTX`)
         );
+        await showSlide(page, i, null);
 
+        const image = await page.screenshot({
+          type: "png",
+          encoding: "base64",
+        });
         const slide = pptx.addSlide();
-
-        // Set slide background if available
-        if (slideContent.backgroundColor) {
-          slide.background = { color: slideContent.backgroundColor };
-        }
-
-        // Add title with better styling
-        slide.addText(slideContent.title, {
-          x: 0.5,
-          y: 0.5,
-          w: 9,
-          h: 1,
-          fontSize: 28,
-          bold: true,
-          color: slideContent.textColor || "363636",
-          fontFace: "Arial",
+        slide.addImage({
+          data: `image/png;base64,${image}`,
+          x: 0,
+          y: 0,
+          w: layout.width,
+          h: layout.height,
         });
 
-        // Add main content
-        let yPosition = 1.8;
-
-        // Add images first
-        if (slideContent.images && slideContent.images.length > 0) {
-          slideContent.images.forEach((img, imgIndex) => {
-            if (yPosition < 6 && img.src) {
-              try {
-                // Skip data URLs and SVG images as they cause issues
-                if (img.src.startsWith("data:") || img.src.includes(".svg")) {
-                  slide.addText(`[Image: ${img.alt || "Image"}]`, {
-                    x: 0.5,
-                    y: yPosition,
-                    w: 9,
-                    h: 0.5,
-                    fontSize: 12,
-                    color: "666666",
-                    italic: true,
-                  });
-                  yPosition += 0.6;
-                } else {
-                  slide.addImage({
-                    path: img.src,
-                    x: 0.5,
-                    y: yPosition,
-                    w: 4,
-                    h: 2.5,
-                  });
-                  yPosition += 2.8;
-                }
-              } catch (error) {
-                // If image fails, add as text
-                slide.addText(`[Image: ${img.alt || "Image"}]`, {
-                  x: 0.5,
-                  y: yPosition,
-                  w: 9,
-                  h: 0.5,
-                  fontSize: 12,
-                  color: "666666",
-                  italic: true,
-                });
-                yPosition += 0.6;
-              }
-            }
-          });
+        const notes = deck.slides[i].notes;
+        if (notes) {
+          slide.addNotes(markdownToPlainText(notes));
         }
-
-        // Add code blocks with special formatting
-        if (slideContent.codeBlocks && slideContent.codeBlocks.length > 0) {
-          slideContent.codeBlocks.forEach((codeBlock, codeIndex) => {
-            if (codeBlock.text && yPosition < 6) {
-              slide.addText(codeBlock.text, {
-                x: 0.5,
-                y: yPosition,
-                w: 9,
-                h: 1.5,
-                fontSize: 12,
-                color: "2d3748",
-                fontFace: "Courier New",
-                align: "left",
-              });
-              yPosition += 1.6;
-            }
-          });
-        }
-
-        // Add lists with proper formatting
-        if (slideContent.lists && slideContent.lists.length > 0) {
-          slideContent.lists.forEach((list, listIndex) => {
-            if (yPosition < 6) {
-              list.items.forEach((item, itemIndex) => {
-                if (item && yPosition < 6) {
-                  const bullet = list.isOrdered ? `${itemIndex + 1}.` : "•";
-                  slide.addText(`${bullet} ${item}`, {
-                    x: 0.8,
-                    y: yPosition,
-                    w: 8.5,
-                    h: 0.5,
-                    fontSize: 14,
-                    color: slideContent.textColor || "363636",
-                  });
-                  yPosition += 0.6;
-                }
-              });
-            }
-          });
-        }
-
-        // Add regular text content
-        if (slideContent.allText && slideContent.allText.length > 0) {
-          slideContent.allText.forEach((text, index) => {
-            if (text && yPosition < 6) {
-              // Skip if it's already in a list or code block
-              if (
-                !slideContent.lists?.some((list) =>
-                  list.items.includes(text)
-                ) &&
-                !slideContent.codeBlocks?.some((code) =>
-                  code.text.includes(text)
-                )
-              ) {
-                slide.addText(text, {
-                  x: 0.5,
-                  y: yPosition,
-                  w: 9,
-                  h: 0.6,
-                  fontSize: 14,
-                  color: slideContent.textColor || "363636",
-                });
-                yPosition += 0.6;
-              }
-            }
-          });
-        } else if (slideContent.textContent) {
-          // Fallback to textContent
-          const cleanText = slideContent.textContent
-            .replace(/\s+/g, " ")
-            .trim();
-          if (cleanText && yPosition < 6) {
-            slide.addText(cleanText, {
-              x: 0.5,
-              y: yPosition,
-              w: 9,
-              h: 4,
-              fontSize: 14,
-              color: slideContent.textColor || "363636",
-            });
-          }
-        } else {
-          // If no content found, add a placeholder
-          slide.addText(`Content for slide ${i + 1}`, {
-            x: 0.5,
-            y: yPosition,
-            w: 9,
-            h: 1,
-            fontSize: 16,
-            color: "666666",
-            italic: true,
-          });
-        }
-      } else {
-        console.log(
-          chalk.yellow(`No content found for slide ${i + 1}:`, slideContent)
-        );
       }
+    } else {
+      deck.mathImages = await captureMathImages(page);
+      addEditableSlides(pptx, deck, layout);
     }
 
     const pptxPath = path.join(outputDir, "presentation.pptx");
@@ -841,8 +1045,44 @@ async function exportToPPTX(
   }
 }
 
+// Capture every display formula as a transparent picture for PPTX, which
+// has no MathML support
+async function captureMathImages(
+  page: Page
+): Promise<Record<string, PptxMathImage>> {
+  const sources = await page.evaluate(prepareMathCapture);
+  const images: Record<string, PptxMathImage> = {};
+
+  for (let i = 0; i < sources.length; i++) {
+    const element = await page.$(`[data-math-capture="${i}"]`);
+    const box = await element?.boundingBox();
+    if (!element || !box) continue;
+
+    const data = await element.screenshot({
+      type: "png",
+      encoding: "base64",
+      omitBackground: true,
+    });
+    images[sources[i]] = {
+      data: `data:image/png;base64,${data}`,
+      width: box.width,
+      height: box.height,
+    };
+  }
+
+  await page.evaluate(() =>
+    document.getElementById("mostage-math-capture")?.remove()
+  );
+  return images;
+}
+
 // PNG Export Function
-async function exportToPNG(htmlPath: string, outputDir: string): Promise<void> {
+async function exportToPNG(
+  htmlPath: string,
+  outputDir: string,
+  exportFragments: boolean = false,
+  slideSize: SlideSize = SLIDE_SIZES[DEFAULT_SLIDE_SIZE]
+): Promise<void> {
   console.log(chalk.blue("🖼️  Generating PNG..."));
 
   const browser = await puppeteer.launch({
@@ -852,20 +1092,13 @@ async function exportToPNG(htmlPath: string, outputDir: string): Promise<void> {
 
   try {
     const page = await browser.newPage();
-    await page.setViewport({ width: 1920, height: 1080 });
+    await page.setViewport(slideSize);
     await page.goto(`file://${path.resolve(htmlPath)}`, {
       waitUntil: "networkidle0",
     });
 
-    // Wait for presentation to load
-    await new Promise((resolve) => setTimeout(resolve, 3000));
-
-    // Get total number of slides
-    const slideCount = await page.evaluate(() => {
-      const slides = document.querySelectorAll(".mostage-slide");
-      console.log("Found slides:", slides.length);
-      return slides.length;
-    });
+    await waitForPresentation(page);
+    const slideCount = await getSlideCount(page);
 
     console.log(chalk.blue(`Found ${slideCount} slides`));
 
@@ -873,53 +1106,21 @@ async function exportToPNG(htmlPath: string, outputDir: string): Promise<void> {
     for (let i = 0; i < slideCount; i++) {
       console.log(chalk.blue(`Processing slide ${i + 1}/${slideCount}`));
 
-      // Navigate to specific slide by showing only that slide
-      await page.evaluate((slideIndex) => {
-        const slides = document.querySelectorAll(".mostage-slide");
-
-        // Hide all slides
-        slides.forEach((slide) => {
-          slide.style.display = "none";
-          slide.style.opacity = "0";
-          slide.style.visibility = "hidden";
-        });
+      for (const step of await getFragmentSteps(page, i, exportFragments)) {
+        await showSlide(page, i, step);
 
-        // Show only the target slide
-        if (slides[slideIndex]) {
-          slides[slideIndex].style.display = "block";
-          slides[slideIndex].style.opacity = "1";
-          slides[slideIndex].style.visibility = "visible";
-        }
-
-        // Try to trigger navigation events
-        if (window.mostage) {
-          // Try different methods to navigate
-          if (typeof window.mostage.goToSlide === "function") {
-            window.mostage.goToSlide(slideIndex);
-          } else if (typeof window.mostage.next === "function") {
-            for (let j = 0; j < slideIndex; j++) {
-              window.mostage.next();
-            }
-          }
-        }
-
-        // Try keyboard navigation as fallback
-        for (let j = 0; j < slideIndex; j++) {
-          const event = new CustomEvent("keydown", { key: "ArrowRight" });
-          document.dispatchEvent(event);
-        }
-      }, i);
-
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      const pngPath = path.join(outputDir, `slide-${i + 1}.png`);
-      console.log(chalk.gray(`Saving to: ${pngPath}`));
+        const pngPath = path.join(
+          outputDir,
+          getSlideFileName(i, step, exportFragments, "png")
+        );
+        console.log(chalk.gray(`Saving to: ${pngPath}`));
 
-      await page.screenshot({
-        path: pngPath,
-        fullPage: true,
-        type: "png",
-      });
+        await page.screenshot({
+          path: pngPath,
+          fullPage: true,
+          type: "png",
+        });
+      }
 
       console.log(chalk.green(`✅ Slide ${i + 1} saved`));
     }
@@ -931,7 +1132,12 @@ async function exportToPNG(htmlPath: string, outputDir: string): Promise<void> {
 }
 
 // JPG Export Function
-async function exportToJPG(htmlPath: string, outputDir: string): Promise<void> {
+async function exportToJPG(
+  htmlPath: string,
+  outputDir: string,
+  exportFragments: boolean = false,
+  slideSize: SlideSize = SLIDE_SIZES[DEFAULT_SLIDE_SIZE]
+): Promise<void> {
   console.log(chalk.blue("🖼️  Generating JPG..."));
 
   const browser = await puppeteer.launch({
@@ -941,20 +1147,13 @@ async function exportToJPG(htmlPath: string, outputDir: string): Promise<void> {
 
   try {
     const page = await browser.newPage();
-    await page.setViewport({ width: 1920, height: 1080 });
+    await page.setViewport(slideSize);
     await page.goto(`file://${path.resolve(htmlPath)}`, {
       waitUntil: "networkidle0",
     });
 
-    // Wait for presentation to load
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-
-    // Get total number of slides
-    const slideCount = await page.evaluate(() => {
-      const slides = document.querySelectorAll(".mostage-slide");
-      console.log("Found slides:", slides.length);
-      return slides.length;
-    });
+    await waitForPresentation(page);
+    const slideCount = await getSlideCount(page);
 
     console.log(chalk.blue(`Found ${slideCount} slides`));
 
@@ -962,56 +1161,24 @@ async function exportToJPG(htmlPath: string, outputDir: string): Promise<void> {
     for (let i = 0; i < slideCount; i++) {
       console.log(chalk.blue(`Processing slide ${i + 1}/${slideCount}`));
 
-      // Navigate to specific slide by showing only that slide
-      await page.evaluate((slideIndex) => {
-        const slides = document.querySelectorAll(".mostage-slide");
-
-        // Hide all slides
-        slides.forEach((slide) => {
-          slide.style.display = "none";
-          slide.style.opacity = "0";
-          slide.style.visibility = "hidden";
-        });
+      for (const step of await getFragmentSteps(page, i, exportFragments)) {
+        await showSlide(page, i, step);
 
-        // Show only the target slide
-        if (slides[slideIndex]) {
-          slides[slideIndex].style.display = "block";
-          slides[slideIndex].style.opacity = "1";
-          slides[slideIndex].style.visibility = "visible";
-        }
-
-        // Try to trigger navigation events
-        if (window.mostage) {
-          // Try different methods to navigate
-          if (typeof window.mostage.goToSlide === "function") {
-            window.mostage.goToSlide(slideIndex);
-          } else if (typeof window.mostage.next === "function") {
-            for (let j = 0; j < slideIndex; j++) {
-              window.mostage.next();
-            }
-          }
-        }
-
-        // Try keyboard navigation as fallback
-        for (let j = 0; j < slideIndex; j++) {
-          const event = new CustomEvent("keydown", { key: "ArrowRight" });
-          document.dispatchEvent(event);
-        }
-      }, i);
-
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      const jpgPath = path.join(outputDir, `slide-${i + 1}.jpg`);
-      console.log(chalk.gray(`Saving to: ${jpgPath}`));
+        const jpgPath = path.join(
+          outputDir,
+          getSlideFileName(i, step, exportFragments, "jpg")
+        );
+        console.log(chalk.gray(`Saving to: ${jpgPath}`));
 
-      const screenshot = await page.screenshot({
-        fullPage: true,
-        type: "jpeg",
-        quality: 90,
-      });
+        const screenshot = await page.screenshot({
+          fullPage: true,
+          type: "jpeg",
+          quality: 90,
+        });
 
-      // Use Sharp to optimize the JPG
-      await sharp(screenshot).jpeg({ quality: 90 }).toFile(jpgPath);
+        // Use Sharp to optimize the JPG
+        await sharp(screenshot).jpeg({ quality: 90 }).toFile(jpgPath);
+      }
 
       console.log(chalk.green(`✅ Slide ${i + 1} saved`));
     }
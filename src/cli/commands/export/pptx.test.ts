@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type PptxGenJS from "pptxgenjs";
+import { addEditableSlides, collectPptxDeck } from "./pptx";
+import { ContentService } from "../../../core/services/content-service";
+
+// The test setup mocks marked, but the PPTX builder needs the real lexer
+vi.unmock("marked");
+
+describe("PPTX export", () => {
+  afterEach(() => {
+    delete (window as any).mostage;
+    document.body.innerHTML = "";
+  });
+
+  const createPptx = () => {
+    const slides: { addText: ReturnType<typeof vi.fn>; addNotes: any }[] = [];
+    const pptx = {
+      ShapeType: { rect: "rect", line: "line" },
+      defineSlideMaster: vi.fn(),
+      addSlide: vi.fn(() => {
+        const slide = {
+          addText: vi.fn(),
+          addNotes: vi.fn(),
+          addTable: vi.fn(),
+          addImage: vi.fn(),
+          addShape: vi.fn(),
+        };
+        slides.push(slide);
+        return slide;
+      }),
+    };
+    return { pptx: pptx as unknown as PptxGenJS, slides };
+  };
+
+  it("should keep speaker notes and directives off the slide", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const slides = new ContentService().parseContent(
+      '<!-- .slide: class="dark" -->\n# Agenda\n\nVisible point\n\nNotes:\nSecret reminder'
+    );
+    (window as any).mostage = {
+      getContainer: () => container,
+      getSlides: () => slides,
+    };
+
+    const deck = collectPptxDeck();
+    const { pptx, slides: pptxSlides } = createPptx();
+    addEditableSlides(pptx, deck, {
+      width: 10,
+      height: 5.625,
+      inchesPerPixel: 0.01,
+    });
+
+    const slideText = JSON.stringify(pptxSlides[0].addText.mock.calls);
+    expect(slideText).toContain("Visible point");
+    expect(slideText).not.toContain("Secret reminder");
+    expect(slideText).not.toContain(".slide:");
+    expect(pptxSlides[0].addNotes).toHaveBeenCalledWith("Secret reminder");
+  });
+});
@@ -0,0 +1,1072 @@
+/**
+ * Editable PPTX builder
+ *
+ * Maps the markdown of every slide to native PowerPoint objects: the first
+ * heading fills the title placeholder, lists keep their nesting levels,
+ * tables become PPTX tables, images keep their aspect ratio, code blocks
+ * become monospaced highlighted runs and speaker notes become PPTX notes.
+ * Display formulas become pictures captured from the rendered slides.
+ */
+
+import PptxGenJS from "pptxgenjs";
+import { Marked, Token, Tokens } from "marked";
+import Prism from "prismjs";
+import "prismjs/components/prism-markup";
+import "prismjs/components/prism-css";
+import "prismjs/components/prism-javascript";
+import "prismjs/components/prism-typescript";
+import "prismjs/components/prism-json";
+import "prismjs/components/prism-bash";
+import "prismjs/components/prism-markdown";
+import { createMathExtension } from "../../../core/utils/math";
+import {
+  createAlertExtension,
+  createDefinitionListExtension,
+  createEmojiExtension,
+  createFootnoteExtension,
+  createMarkExtension,
+} from "../../../core/utils/markdown-extensions";
+
+export interface PptxSlideSource {
+  content: string; // Slide markdown
+  notes?: string; // Speaker notes markdown
+  backgroundColor?: string; // Hex color without "#"
+  backgroundImage?: string; // Data URL or URL of the slide background
+}
+
+export interface PptxTheme {
+  backgroundColor: string;
+  textColor: string;
+  accentColor: string;
+  borderColor: string;
+}
+
+export interface PptxImageSize {
+  width: number;
+  height: number;
+}
+
+export interface PptxMathImage extends PptxImageSize {
+  data: string; // PNG data URL
+}
+
+export interface PptxDeck {
+  slides: PptxSlideSource[];
+  theme: PptxTheme;
+  imageSizes: Record<string, PptxImageSize>; // Natural image sizes by src
+  mathImages: Record<string, PptxMathImage>; // Display formulas by LaTeX
+}
+
+export interface PptxLayout {
+  width: number; // Slide width in inches
+  height: number; // Slide height in inches
+  inchesPerPixel: number; // Converts logical slide pixels to inches
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  math?: boolean;
+  mark?: boolean;
+  link?: string;
+}
+
+interface Run {
+  text: string;
+  style: RunStyle;
+  lineBreak?: boolean; // A line break inside the paragraph
+}
+
+interface TextParagraph {
+  runs: Run[];
+  fontSize: number;
+  bullet?: true | { type: "number"; numberStartAt?: number };
+  indentLevel?: number;
+}
+
+type Block =
+  | { type: "text"; paragraphs: TextParagraph[]; quote?: boolean }
+  | { type: "code"; text: string; language?: string }
+  | { type: "table"; table: Tokens.Table }
+  | { type: "image"; src: string; alt: string; size?: PptxImageSize }
+  | { type: "math"; tex: string }
+  | { type: "rule" };
+
+// Math is laid out as a picture or as text
+type SlideBlock = Exclude<Block, { type: "math" }>;
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Space and sizing shared by the blocks of one slide
+interface Frame {
+  layout: PptxLayout;
+  imageSizes: Record<string, PptxImageSize>;
+  width: number; // Content width in inches
+  available: number; // Content height in inches
+  scale: number; // Shrink factor for crowded slides
+}
+
+const LAYOUT_NAME = "MOSTAGE";
+const MASTER_NAME = "MOSTAGE_CONTENT";
+const SLIDE_WIDTH = 13.333; // PowerPoint's widescreen width in inches
+const MARGIN = 0.6;
+const TITLE_TOP = 0.4;
+const TITLE_HEIGHT = 1.1;
+const BLOCK_GAP = 0.15;
+const MIN_FIT_SCALE = 0.5;
+const FONT_FACE = "Arial";
+const CODE_FONT_FACE = "Courier New";
+const MATH_FONT_FACE = "Cambria Math";
+const TITLE_FONT_SIZE = 36;
+const BODY_FONT_SIZE = 20;
+const TABLE_FONT_SIZE = 16;
+const FOOTNOTE_FONT_SIZE = 14;
+const CODE_FONT_SIZE = 14;
+const HEADING_FONT_SIZES = [36, 30, 26, 24, 22, 20];
+const LINE_HEIGHT = 1.25;
+const AVERAGE_CHAR_WIDTH = 0.5; // Of the font size, for line estimates
+const PARAGRAPH_SPACING = 6; // Points after each paragraph
+const LIST_INDENT = 0.5; // Inches per nesting level
+const CODE_BACKGROUND = "2D2D2D";
+const CODE_TEXT_COLOR = "CCCCCC";
+const markdownLexer = new Marked(
+  { breaks: true, gfm: true },
+  createMathExtension(),
+  createAlertExtension(),
+  createDefinitionListExtension(),
+  createFootnoteExtension(),
+  createEmojiExtension(),
+  createMarkExtension()
+);
+
+// Prism token colors, matching the prism-tomorrow theme used on slides
+const CODE_TOKEN_COLORS: Record<string, string> = {
+  comment: "999999",
+  prolog: "999999",
+  doctype: "999999",
+  cdata: "999999",
+  punctuation: "CCCCCC",
+  tag: "E2777A",
+  "attr-name": "E2777A",
+  namespace: "E2777A",
+  deleted: "E2777A",
+  "function-name": "6196CC",
+  boolean: "F08D49",
+  number: "F08D49",
+  function: "F08D49",
+  property: "F8C555",
+  "class-name": "F8C555",
+  constant: "F8C555",
+  symbol: "F8C555",
+  selector: "CC99CD",
+  important: "CC99CD",
+  atrule: "CC99CD",
+  keyword: "CC99CD",
+  builtin: "CC99CD",
+  string: "7EC699",
+  char: "7EC699",
+  "attr-value": "7EC699",
+  regex: "7EC699",
+  variable: "7EC699",
+  operator: "67CDCC",
+  entity: "67CDCC",
+  url: "67CDCC",
+  inserted: "67CDCC",
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  ts: "typescript",
+  sh: "bash",
+  shell: "bash",
+  html: "markup",
+  xml: "markup",
+  svg: "markup",
+  md: "markdown",
+};
+
+/**
+ * Size the PPTX slides like the presentation's slides
+ * @returns The layout in inches
+ */
+export function definePptxLayout(
+  pptx: PptxGenJS,
+  slideSize: { width: number; height: number }
+): PptxLayout {
+  const height =
+    Math.round(((SLIDE_WIDTH * slideSize.height) / slideSize.width) * 1000) /
+    1000;
+
+  pptx.defineLayout({ name: LAYOUT_NAME, width: SLIDE_WIDTH, height });
+  pptx.layout = LAYOUT_NAME;
+
+  return {
+    width: SLIDE_WIDTH,
+    height,
+    inchesPerPixel: SLIDE_WIDTH / slideSize.width,
+  };
+}
+
+/**
+ * Add one editable PPTX slide per presentation slide
+ */
+export function addEditableSlides(
+  pptx: PptxGenJS,
+  deck: PptxDeck,
+  layout: PptxLayout
+): void {
+  const { theme } = deck;
+
+  pptx.defineSlideMaster({
+    title: MASTER_NAME,
+    background: { color: theme.backgroundColor },
+    objects: [
+      {
+        placeholder: {
+          options: {
+            name: "title",
+            type: "title",
+            x: MARGIN,
+            y: TITLE_TOP,
+            w: layout.width - MARGIN * 2,
+            h: TITLE_HEIGHT,
+            fontFace: FONT_FACE,
+            fontSize: TITLE_FONT_SIZE,
+            bold: true,
+            color: theme.textColor,
+            valign: "middle",
+          },
+          text: "",
+        },
+      },
+    ],
+  });
+
+  deck.slides.forEach((source) => {
+    const slide = pptx.addSlide({ masterName: MASTER_NAME });
+
+    if (source.backgroundImage) {
+      slide.background = toImageSource(source.backgroundImage);
+    } else if (source.backgroundColor) {
+      slide.background = { color: source.backgroundColor };
+    }
+
+    const tokens = markdownLexer
+      .lexer(stripRegionSeparators(source.content))
+      .filter((token) => token.type !== "space");
+
+    let top = MARGIN;
+    if (tokens[0]?.type === "heading") {
+      const title = tokens.shift() as Tokens.Heading;
+      slide.addText(
+        toTextProps([{ runs: inlineRuns(title.tokens), fontSize: 0 }], theme),
+        { placeholder: "title" }
+      );
+      top = TITLE_TOP + TITLE_HEIGHT + BLOCK_GAP;
+    }
+
+    const blocks = tokens
+      .flatMap(toBlocks)
+      .map((block) => layoutMath(block, deck.mathImages));
+    const frame: Frame = {
+      layout,
+      imageSizes: deck.imageSizes,
+      width: layout.width - MARGIN * 2,
+      available: layout.height - top - MARGIN,
+      scale: 1,
+    };
+
+    // Shrink crowded slides so their content stays on the slide
+    const needed = getBlocksHeight(blocks, frame);
+    if (needed > frame.available) {
+      frame.scale = Math.max(MIN_FIT_SCALE, frame.available / needed);
+    }
+
+    let y = top;
+    blocks.forEach((block) => {
+      const h = getBlockHeight(block, frame);
+      renderBlock(
+        pptx,
+        slide,
+        block,
+        { x: MARGIN, y, w: frame.width, h },
+        frame,
+        theme
+      );
+      y += h + BLOCK_GAP;
+    });
+
+    if (source.notes) {
+      slide.addNotes(markdownToPlainText(source.notes));
+    }
+  });
+}
+
+// Layout regions (`::left::`, ...) are exported one after another
+function stripRegionSeparators(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .filter((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+      return inFence || !/^\s*::[\w-]+::\s*$/.test(line);
+    })
+    .join("\n");
+}
+
+/**
+ * Convert markdown to plain text, e.g. for speaker notes
+ */
+export function markdownToPlainText(markdown: string): string {
+  return markdownLexer
+    .lexer(markdown)
+    .flatMap(toBlocks)
+    .map((block) => {
+      switch (block.type) {
+        case "text":
+          return block.paragraphs
+            .map((paragraph) => {
+              const indent = "  ".repeat(paragraph.indentLevel ?? 0);
+              const bullet = paragraph.bullet ? "- " : "";
+              return indent + bullet + runsToText(paragraph.runs);
+            })
+            .join("\n");
+        case "code":
+          return block.text;
+        case "table":
+          return [block.table.header, ...block.table.rows]
+            .map((cells) => cells.map((cell) => cell.text).join(" | "))
+            .join("\n");
+        case "image":
+          return block.alt;
+        case "math":
+          return block.tex;
+        default:
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Runs in the browser: reads the slides' visible markdown and notes, the theme
+ * colors and the natural size of every image from the rendered presentation
+ */
+export function collectPptxDeck(): PptxDeck {
+  const mostage = (window as any).mostage;
+  const container = mostage.getContainer() as HTMLElement;
+  const probe = document.createElement("span");
+  container.appendChild(probe);
+
+  const toHex = (color: string): string | undefined => {
+    probe.style.color = "";
+    probe.style.color = color.trim();
+    if (!probe.style.color) return undefined;
+
+    const match = getComputedStyle(probe).color.match(
+      /rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/
+    );
+    if (!match || match[4] === "0") return undefined;
+
+    return match
+      .slice(1, 4)
+      .map((value) => Number(value).toString(16).padStart(2, "0"))
+      .join("")
+      .toUpperCase();
+  };
+
+  const styles = getComputedStyle(container);
+  const cssVar = (name: string) => toHex(styles.getPropertyValue(name));
+  const theme = {
+    backgroundColor:
+      cssVar("--mostage-bg-color") || toHex(styles.backgroundColor) || "FFFFFF",
+    textColor:
+      cssVar("--mostage-text-color") || toHex(styles.color) || "363636",
+    accentColor: cssVar("--mostage-primary-color") || "667EEA",
+    borderColor: cssVar("--mostage-border-color") || "CBD5E0",
+  };
+
+  const slideElements =
+    container.querySelectorAll<HTMLElement>(".mostage-slide");
+  const slides = mostage.getSlides().map((slide: any, index: number) => {
+    const element = slideElements[index];
+    return {
+      content: slide.body ?? slide.content,
+      notes: slide.notes?.content,
+      backgroundColor: element
+        ? toHex(element.style.backgroundColor)
+        : undefined,
+      backgroundImage: element?.style.backgroundImage.match(
+        /url\(["']?(.*?)["']?\)/
+      )?.[1],
+    };
+  });
+
+  const imageSizes: Record<string, PptxImageSize> = {};
+  container.querySelectorAll("img").forEach((image) => {
+    const src = image.getAttribute("src");
+    if (src && image.naturalWidth > 0) {
+      imageSizes[src] = {
+        width: image.naturalWidth,
+        height: image.naturalHeight,
+      };
+    }
+  });
+
+  probe.remove();
+  return { slides, theme, imageSizes, mathImages: {} };
+}
+
+/**
+ * Runs in the browser: lays out one copy of every display formula in a
+ * visible capture area, so each can be captured as a picture
+ * @returns The LaTeX of the formulas, in capture order
+ */
+export function prepareMathCapture(): string[] {
+  const area = document.createElement("div");
+  area.id = "mostage-math-capture";
+  area.style.cssText =
+    "position: fixed; top: 0; left: 0; z-index: 2147483647; display: flex; flex-direction: column; align-items: flex-start;";
+
+  const sources: string[] = [];
+  document
+    .querySelectorAll<HTMLElement>(".mostage-slide .mostage-math-display")
+    .forEach((element) => {
+      const tex = element.dataset.tex;
+      if (!tex || sources.includes(tex)) return;
+
+      const styles = getComputedStyle(element);
+      const copy = element.cloneNode(true) as HTMLElement;
+      copy.style.cssText = `display: inline-block; margin: 0; padding: 4px; font-size: ${styles.fontSize}; color: ${styles.color};`;
+      copy.dataset.mathCapture = String(sources.length);
+      area.appendChild(copy);
+      sources.push(tex);
+    });
+
+  document.body.appendChild(area);
+  return sources;
+}
+
+// Block conversion
+
+function toBlocks(token: Token): Block[] {
+  switch (token.type) {
+    case "heading":
+      return [
+        {
+          type: "text",
+          paragraphs: [
+            {
+              runs: inlineRuns(token.tokens, { bold: true }),
+              fontSize: HEADING_FONT_SIZES[token.depth - 1] || BODY_FONT_SIZE,
+            },
+          ],
+        },
+      ];
+    case "paragraph": {
+      const content = (token.tokens || []).filter(
+        (child: Token) => !(child.type === "text" && !child.raw.trim())
+      );
+      // A paragraph of images or display formulas only becomes pictures
+      if (
+        content.length > 0 &&
+        content.every(
+          (child) =>
+            child.type === "image" ||
+            (child.type === "math" && child.displayMode)
+        )
+      ) {
+        return content.map(
+          (child): Block =>
+            child.type === "math"
+              ? { type: "math", tex: child.text }
+              : {
+                  type: "image",
+                  src: (child as Tokens.Image).href,
+                  alt: (child as Tokens.Image).text,
+                }
+        );
+      }
+      return [
+        {
+          type: "text",
+          paragraphs: [
+            { runs: inlineRuns(token.tokens), fontSize: BODY_FONT_SIZE },
+          ],
+        },
+      ];
+    }
+    case "list":
+      return [
+        { type: "text", paragraphs: listParagraphs(token as Tokens.List, 0) },
+      ];
+    case "blockquote":
+      return [
+        {
+          type: "text",
+          quote: true,
+          paragraphs: (token.tokens || [])
+            .flatMap(toBlocks)
+            .flatMap((block) => (block.type === "text" ? block.paragraphs : []))
+            .map((paragraph) => ({
+              ...paragraph,
+              runs: paragraph.runs.map((run) => ({
+                ...run,
+                style: { ...run.style, italic: true },
+              })),
+            })),
+        },
+      ];
+    case "alert":
+      return [
+        {
+          type: "text",
+          quote: true,
+          paragraphs: [
+            {
+              runs: [{ text: token.title, style: { bold: true } }],
+              fontSize: BODY_FONT_SIZE,
+            },
+            ...(token.tokens || [])
+              .flatMap(toBlocks)
+              .flatMap((block: Block) =>
+                block.type === "text" ? block.paragraphs : []
+              ),
+          ],
+        },
+      ];
+    case "definitionList":
+      return [
+        {
+          type: "text",
+          paragraphs: token.items.flatMap(
+            (item: { term: Token[]; definitions: Token[][] }) => [
+              {
+                runs: inlineRuns(item.term, { bold: true }),
+                fontSize: BODY_FONT_SIZE,
+              },
+              ...item.definitions.map((definition) => ({
+                runs: inlineRuns(definition),
+                fontSize: BODY_FONT_SIZE,
+                indentLevel: 1,
+              })),
+            ]
+          ),
+        },
+      ];
+    case "footnote":
+      return [
+        {
+          type: "text",
+          paragraphs: [
+            {
+              runs: [
+                { text: `[${token.label}] `, style: {} },
+                ...inlineRuns(token.tokens),
+              ],
+              fontSize: FOOTNOTE_FONT_SIZE,
+            },
+          ],
+        },
+      ];
+    case "code":
+      // Fence info after the language (e.g. `{1-3} lines`) is slide-only
+      return [
+        {
+          type: "code",
+          text: token.text,
+          language: token.lang?.split(/\s/)[0],
+        },
+      ];
+    case "math":
+      return [{ type: "math", tex: token.text }];
+    case "table":
+      return [{ type: "table", table: token as Tokens.Table }];
+    case "hr":
+      return [{ type: "rule" }];
+    case "html": {
+      const text = stripHtml(token.text);
+      return text
+        ? [
+            {
+              type: "text",
+              paragraphs: [
+                { runs: [{ text, style: {} }], fontSize: BODY_FONT_SIZE },
+              ],
+            },
+          ]
+        : [];
+    }
+    default:
+      return "text" in token && typeof token.text === "string" && token.text
+        ? [
+            {
+              type: "text",
+              paragraphs: [
+                {
+                  runs: [{ text: decodeEntities(token.text), style: {} }],
+                  fontSize: BODY_FONT_SIZE,
+                },
+              ],
+            },
+          ]
+        : [];
+  }
+}
+
+function listParagraphs(list: Tokens.List, level: number): TextParagraph[] {
+  const start = typeof list.start === "number" ? list.start : 1;
+  const bullet: TextParagraph["bullet"] = list.ordered
+    ? { type: "number", ...(start > 1 ? { numberStartAt: start } : {}) }
+    : true;
+
+  return list.items.flatMap((item) => {
+    const paragraphs: TextParagraph[] = [];
+
+    item.tokens.forEach((child) => {
+      if (child.type === "list") {
+        paragraphs.push(...listParagraphs(child as Tokens.List, level + 1));
+        return;
+      }
+      if (child.type === "checkbox") return;
+
+      const runs =
+        child.type === "text" || child.type === "paragraph"
+          ? inlineRuns(child.tokens ?? [{ ...child, tokens: undefined }])
+          : toBlocks(child).flatMap((block) =>
+              block.type === "text"
+                ? block.paragraphs.flatMap((paragraph) => paragraph.runs)
+                : []
+            );
+      if (runs.length === 0) return;
+
+      // Only the first paragraph of an item carries the bullet
+      const isFirst = !paragraphs.some((p) => p.indentLevel === level);
+      if (isFirst && item.task) {
+        runs.unshift({ text: item.checked ? "☑ " : "☐ ", style: {} });
+      }
+      paragraphs.push({
+        runs,
+        fontSize: BODY_FONT_SIZE,
+        bullet: isFirst ? bullet : undefined,
+        indentLevel: level,
+      });
+    });
+
+    return paragraphs;
+  });
+}
+
+function inlineRuns(tokens: Token[] | undefined, style: RunStyle = {}): Run[] {
+  return (tokens || []).flatMap((token): Run[] => {
+    switch (token.type) {
+      case "strong":
+        return inlineRuns(token.tokens, { ...style, bold: true });
+      case "em":
+        return inlineRuns(token.tokens, { ...style, italic: true });
+      case "del":
+        return inlineRuns(token.tokens, { ...style, strike: true });
+      case "codespan":
+        return [
+          { text: decodeEntities(token.text), style: { ...style, code: true } },
+        ];
+      case "link":
+        return inlineRuns(token.tokens, { ...style, link: token.href });
+      case "math":
+        return [{ text: token.text.trim(), style: { ...style, math: true } }];
+      case "mark":
+        return inlineRuns(token.tokens, { ...style, mark: true });
+      case "footnoteReference":
+        return [{ text: `[${token.label}]`, style }];
+      case "image":
+        return [{ text: token.text, style: { ...style, italic: true } }];
+      case "br":
+        return [{ text: "", style, lineBreak: true }];
+      case "html":
+        return /^<br\s*\/?>$/i.test(token.text.trim())
+          ? [{ text: "", style, lineBreak: true }]
+          : [];
+      case "text":
+        return token.tokens
+          ? inlineRuns(token.tokens, style)
+          : [{ text: decodeEntities(token.text), style }];
+      default:
+        return "text" in token && typeof token.text === "string"
+          ? [{ text: decodeEntities(token.text), style }]
+          : [];
+    }
+  });
+}
+
+// Rendering
+
+function renderBlock(
+  pptx: PptxGenJS,
+  slide: PptxGenJS.Slide,
+  block: SlideBlock,
+  box: Box,
+  frame: Frame,
+  theme: PptxTheme
+): void {
+  switch (block.type) {
+    case "text": {
+      const indent = block.quote ? 0.3 : 0;
+      if (block.quote) {
+        slide.addShape(pptx.ShapeType.rect, {
+          x: box.x,
+          y: box.y,
+          w: 0.06,
+          h: box.h,
+          fill: { color: theme.accentColor },
+          line: { color: theme.accentColor },
+        });
+      }
+      slide.addText(toTextProps(block.paragraphs, theme, frame.scale), {
+        x: box.x + indent,
+        y: box.y,
+        w: box.w - indent,
+        h: box.h,
+        fontFace: FONT_FACE,
+        color: theme.textColor,
+        valign: "top",
+        margin: 0,
+      });
+      break;
+    }
+    case "code":
+      slide.addText(highlightCode(block.text, block.language, frame.scale), {
+        x: box.x,
+        y: box.y,
+        w: box.w,
+        h: box.h,
+        fontFace: CODE_FONT_FACE,
+        color: CODE_TEXT_COLOR,
+        fill: { color: CODE_BACKGROUND },
+        valign: "top",
+        margin: 8,
+      });
+      break;
+    case "table": {
+      const { header, rows, align } = block.table;
+      const tableRows: PptxGenJS.TableRow[] = [header, ...rows].map(
+        (cells, rowIndex) =>
+          cells.map((cell, column) => ({
+            text: toTextProps(
+              [
+                {
+                  runs: inlineRuns(cell.tokens),
+                  fontSize: TABLE_FONT_SIZE,
+                },
+              ],
+              theme,
+              frame.scale
+            ) as PptxGenJS.TableCell[],
+            options: {
+              bold: rowIndex === 0,
+              align: align[column] || "left",
+            },
+          }))
+      );
+      slide.addTable(tableRows, {
+        x: box.x,
+        y: box.y,
+        w: box.w,
+        fontFace: FONT_FACE,
+        color: theme.textColor,
+        border: { type: "solid", pt: 1, color: theme.borderColor },
+        valign: "middle",
+        margin: 4,
+      });
+      break;
+    }
+    case "image": {
+      const size = getImageSize(block, frame);
+      slide.addImage({
+        ...toImageSource(block.src),
+        altText: block.alt,
+        x: box.x + (box.w - size.width) / 2,
+        y: box.y,
+        w: size.width,
+        h: size.height,
+      });
+      break;
+    }
+    case "rule":
+      slide.addShape(pptx.ShapeType.line, {
+        x: box.x,
+        y: box.y + box.h / 2,
+        w: box.w,
+        h: 0,
+        line: { color: theme.borderColor, width: 1 },
+      });
+      break;
+  }
+}
+
+function toTextProps(
+  paragraphs: TextParagraph[],
+  theme: PptxTheme,
+  scale: number = 1
+): PptxGenJS.TextProps[] {
+  const props: PptxGenJS.TextProps[] = [];
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    const runs = paragraph.runs.filter((run) => run.text || run.lineBreak);
+    const paragraphOptions: PptxGenJS.TextPropsOptions = {
+      ...(paragraph.fontSize ? { fontSize: paragraph.fontSize * scale } : {}),
+      bullet: paragraph.bullet ?? false,
+      indentLevel: paragraph.indentLevel,
+      paraSpaceAfter: PARAGRAPH_SPACING * scale,
+    };
+    let softBreak = false;
+
+    runs.forEach((run, runIndex) => {
+      if (run.lineBreak) {
+        softBreak = true;
+        return;
+      }
+      props.push({
+        text: run.text,
+        options: {
+          ...paragraphOptions,
+          ...runOptions(run.style, theme),
+          softBreakBefore: softBreak,
+          breakLine:
+            runIndex === runs.length - 1 &&
+            paragraphIndex < paragraphs.length - 1,
+        },
+      });
+      softBreak = false;
+    });
+  });
+
+  return props;
+}
+
+function runOptions(
+  style: RunStyle,
+  theme: PptxTheme
+): PptxGenJS.TextPropsOptions {
+  return {
+    bold: style.bold,
+    italic: style.italic,
+    strike: style.strike ? "sngStrike" : undefined,
+    ...(style.code
+      ? { fontFace: CODE_FONT_FACE, color: theme.accentColor }
+      : {}),
+    ...(style.math ? { fontFace: MATH_FONT_FACE, italic: true } : {}),
+    ...(style.mark ? { bold: true, color: theme.accentColor } : {}),
+    ...(style.link
+      ? { hyperlink: { url: style.link }, color: theme.accentColor }
+      : {}),
+  };
+}
+
+function highlightCode(
+  code: string,
+  language: string | undefined,
+  scale: number
+): PptxGenJS.TextProps[] {
+  const name = language ? LANGUAGE_ALIASES[language] || language : "";
+  const grammar = Prism.languages[name];
+  const pieces: { text: string; color?: string }[] = [];
+
+  const walk = (
+    stream: string | Prism.Token | Prism.TokenStream,
+    color?: string
+  ): void => {
+    if (typeof stream === "string") {
+      pieces.push({ text: stream, color });
+    } else if (Array.isArray(stream)) {
+      stream.forEach((child) => walk(child, color));
+    } else {
+      const alias = Array.isArray(stream.alias)
+        ? stream.alias[0]
+        : stream.alias;
+      walk(
+        stream.content,
+        CODE_TOKEN_COLORS[stream.type] ||
+          (alias && CODE_TOKEN_COLORS[alias]) ||
+          color
+      );
+    }
+  };
+  walk(grammar ? Prism.tokenize(code, grammar) : code);
+
+  // Every code line becomes its own paragraph
+  const props: PptxGenJS.TextProps[] = [];
+  const fontSize = CODE_FONT_SIZE * scale;
+  pieces.forEach(({ text, color }) => {
+    text.split("\n").forEach((part, index) => {
+      if (index > 0) {
+        props.push({ text: "", options: { fontSize, breakLine: true } });
+      }
+      if (part) {
+        props.push({ text: part, options: { fontSize, color } });
+      }
+    });
+  });
+
+  return props;
+}
+
+// Layout estimates
+
+function getBlocksHeight(blocks: SlideBlock[], frame: Frame): number {
+  return blocks.reduce(
+    (height, block, index) =>
+      height + getBlockHeight(block, frame) + (index > 0 ? BLOCK_GAP : 0),
+    0
+  );
+}
+
+function getBlockHeight(block: SlideBlock, frame: Frame): number {
+  const { width, scale } = frame;
+  switch (block.type) {
+    case "text":
+      return getTextHeight(
+        block.paragraphs,
+        width - (block.quote ? 0.3 : 0),
+        scale
+      );
+    case "code": {
+      const lines = block.text.split("\n").length;
+      return (lines * CODE_FONT_SIZE * scale * LINE_HEIGHT) / 72 + 0.25;
+    }
+    case "table": {
+      const { header, rows } = block.table;
+      const columnWidth = width / Math.max(1, header.length);
+      return [header, ...rows].reduce((height, cells) => {
+        const lines = Math.max(
+          ...cells.map((cell) =>
+            countLines(cell.text, columnWidth - 0.1, TABLE_FONT_SIZE * scale)
+          )
+        );
+        return (
+          height + (lines * TABLE_FONT_SIZE * scale * LINE_HEIGHT) / 72 + 0.12
+        );
+      }, 0);
+    }
+    case "image":
+      return getImageSize(block, frame).height;
+    case "rule":
+      return 0.1;
+  }
+}
+
+function getTextHeight(
+  paragraphs: TextParagraph[],
+  width: number,
+  scale: number
+): number {
+  return paragraphs.reduce((height, paragraph) => {
+    const fontSize = (paragraph.fontSize || BODY_FONT_SIZE) * scale;
+    const indent =
+      (paragraph.indentLevel ?? 0) * LIST_INDENT + (paragraph.bullet ? 0.4 : 0);
+    const lines = runsToText(paragraph.runs)
+      .split("\n")
+      .reduce(
+        (sum, line) => sum + countLines(line, width - indent, fontSize),
+        0
+      );
+
+    return (
+      height +
+      (lines * fontSize * LINE_HEIGHT) / 72 +
+      (PARAGRAPH_SPACING * scale) / 72
+    );
+  }, 0);
+}
+
+function countLines(text: string, width: number, fontSize: number): number {
+  const charsPerLine = Math.max(
+    1,
+    (width * 72) / (fontSize * AVERAGE_CHAR_WIDTH)
+  );
+  return Math.max(1, Math.ceil(text.length / charsPerLine));
+}
+
+function getImageSize(
+  block: { src: string; size?: PptxImageSize },
+  frame: Frame
+): PptxImageSize {
+  // Images keep their natural slide size, shrunk to fit; unknown sizes
+  // fall back to a 4:3 picture
+  const natural = block.size ??
+    frame.imageSizes[block.src] ?? { width: 800, height: 600 };
+  const naturalWidth = natural.width * frame.layout.inchesPerPixel;
+  const naturalHeight = natural.height * frame.layout.inchesPerPixel;
+  const fit = Math.min(
+    1,
+    frame.width / naturalWidth,
+    (frame.available * frame.scale) / naturalHeight
+  );
+
+  return { width: naturalWidth * fit, height: naturalHeight * fit };
+}
+
+// Helpers
+
+// Display formulas become their captured picture, or their LaTeX when
+// there is none
+function layoutMath(
+  block: Block,
+  mathImages: Record<string, PptxMathImage>
+): SlideBlock {
+  if (block.type !== "math") return block;
+
+  const image = mathImages[block.tex.trim()];
+  if (image) {
+    return {
+      type: "image",
+      src: image.data,
+      alt: block.tex,
+      size: { width: image.width, height: image.height },
+    };
+  }
+  return {
+    type: "text",
+    paragraphs: [
+      {
+        runs: [{ text: block.tex.trim(), style: { math: true } }],
+        fontSize: BODY_FONT_SIZE,
+      },
+    ],
+  };
+}
+
+function runsToText(runs: Run[]): string {
+  return runs.map((run) => (run.lineBreak ? "\n" : run.text)).join("");
+}
+
+function toImageSource(src: string): { data: string } | { path: string } {
+  return src.startsWith("data:") ? { data: src.slice(5) } : { path: src };
+}
+
+function stripHtml(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  ).trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
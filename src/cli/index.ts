@@ -76,6 +76,23 @@ program
     "Export format (html, pdf, pptx, png, jpg)",
     "html",
   )
+  .option(
+    "--fragments",
+    "Export every fragment step as its own page or image (pdf, png, jpg)",
+  )
+  .option(
+    "--size <size>",
+    "Slide size for PDF, PPTX, PNG and JPG export (16:9, 4:3 or <width>x<height>, default: the presentation's size or 16:9)",
+  )
+  .option("--notes", "Add speaker notes below each slide (pdf)")
+  .option(
+    "--screenshots",
+    "Export PPTX slides as pictures for pixel fidelity instead of editable shapes",
+  )
+  .option(
+    "--safe",
+    "Sanitize the slides, notes, header and footer HTML for decks that aren't trusted",
+  )
   .action(exportCommand);
 
 // Initialize theme command
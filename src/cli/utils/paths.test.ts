@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from "vitest";
+import { isInsideProject } from "./paths";
+
+// The test setup mocks path, but these tests need real path resolution
+vi.unmock("path");
+
+describe("isInsideProject", () => {
+  it("should accept files in the project directory", () => {
+    expect(isInsideProject("/deck", "/deck/content.md")).toBe(true);
+    expect(isInsideProject("/deck", "/deck/code/../slides/intro.md")).toBe(
+      true
+    );
+  });
+
+  it("should refuse files outside the project directory", () => {
+    expect(isInsideProject("/deck", "/etc/passwd")).toBe(false);
+    expect(isInsideProject("/deck", "/deck/../home/user/.ssh/id_rsa")).toBe(
+      false
+    );
+    expect(isInsideProject("/deck", "/deck-secrets/key.pem")).toBe(false);
+    expect(isInsideProject("/deck", "/deck")).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+import path from "path";
+
+/**
+ * Check that a file a deck reads, e.g. an include or a `file=` code snippet,
+ * lies inside the project directory
+ * @param projectDir - Project directory
+ * @param file - Path of the file, absolute or relative to the working directory
+ */
+export function isInsideProject(projectDir: string, file: string): boolean {
+  const relative = path.relative(path.resolve(projectDir), path.resolve(file));
+  return (
+    relative !== "" &&
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
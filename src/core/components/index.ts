@@ -8,8 +8,11 @@
 // Navigation components
 export { TransitionManager } from "./navigation/transition";
 export { UrlHashManager } from "./navigation/url-hash";
+export { FragmentManager } from "./navigation/fragments";
 
 // UI components
 export { OverviewManager } from "./ui/overview/overview";
 export { HelpManager } from "./ui/help/help";
 export { CenterContentManager } from "./ui/center/center";
+export { PresenterManager } from "./ui/presenter/presenter";
+export { ScaleManager } from "./ui/scale/scale";
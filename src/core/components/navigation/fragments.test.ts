@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { FragmentManager } from "./fragments";
+
+function renderSlide(container: HTMLElement, html: string): HTMLElement {
+  const slideElement = document.createElement("div");
+  slideElement.className = "mostage-slide";
+  const contentWrapper = document.createElement("div");
+  contentWrapper.className = "mostage-slide-content";
+  contentWrapper.innerHTML = html;
+  slideElement.appendChild(contentWrapper);
+  container.appendChild(slideElement);
+  return slideElement;
+}
+
+describe("FragmentManager", () => {
+  let container: HTMLElement;
+  let manager: FragmentManager;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    manager = new FragmentManager(container);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("should turn fragment markers into fragments", () => {
+    const slide = renderSlide(
+      container,
+      "<ul><li>One <!-- .fragment --></li><li>Two <!-- .fragment --></li></ul>" +
+        "<p>Block</p>\n<!-- .fragment -->"
+    );
+    manager.prepareSlide(slide);
+
+    const fragments = slide.querySelectorAll<HTMLElement>(".fragment");
+    expect(fragments).toHaveLength(3);
+    expect(fragments[2].tagName).toBe("P");
+    expect(
+      Array.from(fragments).map((fragment) => fragment.dataset.fragmentIndex)
+    ).toEqual(["0", "1", "2"]);
+    expect(slide.innerHTML).not.toContain(".fragment -->");
+  });
+
+  it("should step through fragments and report the boundaries", () => {
+    const slide = renderSlide(
+      container,
+      '<p class="fragment">One</p><p class="fragment">Two</p>'
+    );
+    manager.prepareSlide(slide);
+    manager.showStep(0, 0);
+
+    expect(manager.getFragmentCount(0)).toBe(2);
+    expect(manager.previous(0)).toBe(false);
+    expect(manager.next(0)).toBe(true);
+    expect(manager.next(0)).toBe(true);
+    expect(manager.next(0)).toBe(false);
+    expect(manager.getCurrentStep()).toBe(2);
+
+    const fragments = slide.querySelectorAll(".fragment");
+    expect(fragments[0].classList.contains("visible")).toBe(true);
+    expect(fragments[1].classList.contains("current-fragment")).toBe(true);
+
+    expect(manager.previous(0)).toBe(true);
+    expect(fragments[1].classList.contains("visible")).toBe(false);
+  });
+
+  it("should reveal fragments sharing an index together", () => {
+    const slide = renderSlide(
+      container,
+      '<p class="fragment" data-fragment-index="1">A</p>' +
+        '<p class="fragment" data-fragment-index="1">B</p>' +
+        '<p class="fragment">C</p>'
+    );
+    manager.prepareSlide(slide);
+
+    expect(manager.getFragmentCount(0)).toBe(2);
+    expect(manager.showStep(0, 1)).toBe(1);
+    expect(slide.querySelectorAll(".fragment.visible")).toHaveLength(2);
+  });
+
+  it("should clamp steps to the available fragments", () => {
+    const slide = renderSlide(container, '<p class="fragment">One</p>');
+    manager.prepareSlide(slide);
+
+    expect(manager.showStep(0, 5)).toBe(1);
+    expect(manager.showStep(0, -1)).toBe(0);
+  });
+
+  it("should show everything when fragments are disabled", () => {
+    manager = new FragmentManager(container, false);
+    const slide = renderSlide(
+      container,
+      '<p class="fragment">One</p><p class="fragment">Two</p>'
+    );
+    manager.prepareSlide(slide);
+
+    expect(manager.getFragmentCount(0)).toBe(0);
+    expect(manager.next(0)).toBe(false);
+    expect(slide.querySelectorAll(".fragment.visible")).toHaveLength(2);
+  });
+
+  it("should walk the highlight steps of code blocks", () => {
+    const slide = renderSlide(
+      container,
+      '<pre data-highlight-steps="1|2|all"><code>' +
+        '<span class="code-line" data-line="1">a</span>\n' +
+        '<span class="code-line" data-line="2">b</span></code>' +
+        '<span class="fragment mostage-code-step"></span>' +
+        '<span class="fragment mostage-code-step"></span></pre>'
+    );
+    manager.prepareSlide(slide);
+    const pre = slide.querySelector("pre")!;
+    const highlighted = () =>
+      Array.from(pre.querySelectorAll<HTMLElement>(".highlighted")).map(
+        (line) => line.dataset.line
+      );
+
+    expect(highlighted()).toEqual(["1"]);
+
+    manager.showStep(0, 1);
+    expect(highlighted()).toEqual(["2"]);
+
+    manager.showStep(0, 2);
+    expect(highlighted()).toEqual([]);
+    expect(pre.classList.contains("mostage-code-dimmed")).toBe(false);
+  });
+});
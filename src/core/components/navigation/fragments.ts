@@ -0,0 +1,168 @@
+import { updateCodeHighlights } from "../../utils/code-blocks";
+
+/**
+ * Fragment Manager
+ *
+ * Reveals the content of a slide step by step. An element becomes a fragment
+ * when it has the `fragment` class or contains a `<!-- .fragment -->` marker
+ * (a marker on its own line applies to the element right before it).
+ * Elements sharing the same `data-fragment-index` are revealed together.
+ * Highlight steps of code blocks are fragments as well.
+ */
+export class FragmentManager {
+  private container: HTMLElement;
+  private enabled: boolean;
+  private currentStep = 0;
+
+  constructor(container: HTMLElement, enabled: boolean = true) {
+    this.container = container;
+    this.enabled = enabled;
+  }
+
+  /**
+   * Turn fragment markers of a rendered slide into fragment classes
+   * and number the fragments in document order
+   */
+  prepareSlide(slideElement: HTMLElement): void {
+    const contentWrapper =
+      (slideElement.querySelector(".mostage-slide-content") as HTMLElement) ||
+      slideElement;
+
+    const walker = document.createTreeWalker(
+      contentWrapper,
+      NodeFilter.SHOW_COMMENT
+    );
+    const markers: Comment[] = [];
+    while (walker.nextNode()) {
+      const comment = walker.currentNode as Comment;
+      if (/^\s*\.fragment\s*$/.test(comment.data)) {
+        markers.push(comment);
+      }
+    }
+
+    markers.forEach((marker) => {
+      const target =
+        marker.parentElement === contentWrapper
+          ? this.getPreviousElement(marker)
+          : marker.parentElement;
+      target?.classList.add("fragment");
+      marker.remove();
+    });
+
+    let nextIndex = 0;
+    contentWrapper
+      .querySelectorAll<HTMLElement>(".fragment")
+      .forEach((fragment) => {
+        const explicitIndex = parseInt(
+          fragment.dataset.fragmentIndex ?? "",
+          10
+        );
+        if (isNaN(explicitIndex)) {
+          fragment.dataset.fragmentIndex = String(nextIndex++);
+        } else {
+          nextIndex = Math.max(nextIndex, explicitIndex + 1);
+        }
+      });
+
+    if (!this.enabled) {
+      contentWrapper
+        .querySelectorAll(".fragment")
+        .forEach((fragment) => fragment.classList.add("visible"));
+    }
+
+    updateCodeHighlights(contentWrapper);
+  }
+
+  /**
+   * Get the number of fragment steps of a slide
+   */
+  getFragmentCount(slideIndex: number): number {
+    return this.getSteps(slideIndex).length;
+  }
+
+  /**
+   * Get the number of fragment steps currently revealed
+   */
+  getCurrentStep(): number {
+    return this.currentStep;
+  }
+
+  /**
+   * Reveal the first `step` fragment steps of a slide and hide the rest
+   * @returns The applied step, clamped to the fragments available
+   */
+  showStep(slideIndex: number, step: number): number {
+    const steps = this.getSteps(slideIndex);
+    this.currentStep = Math.max(0, Math.min(step, steps.length));
+
+    const visibleIndexes = new Set(steps.slice(0, this.currentStep));
+    const currentIndex = steps[this.currentStep - 1];
+
+    this.getFragments(slideIndex).forEach((fragment) => {
+      const index = Number(fragment.dataset.fragmentIndex);
+      fragment.classList.toggle("visible", visibleIndexes.has(index));
+      fragment.classList.toggle("current-fragment", index === currentIndex);
+    });
+
+    const slideElement = this.getSlideElement(slideIndex);
+    if (slideElement && steps.length > 0) {
+      updateCodeHighlights(slideElement);
+    }
+
+    return this.currentStep;
+  }
+
+  /**
+   * Reveal the next fragment step
+   * @returns false when all fragments are already visible
+   */
+  next(slideIndex: number): boolean {
+    if (this.currentStep >= this.getFragmentCount(slideIndex)) {
+      return false;
+    }
+    this.showStep(slideIndex, this.currentStep + 1);
+    return true;
+  }
+
+  /**
+   * Hide the last revealed fragment step
+   * @returns false when no fragment is visible
+   */
+  previous(slideIndex: number): boolean {
+    if (this.currentStep <= 0) {
+      return false;
+    }
+    this.showStep(slideIndex, this.currentStep - 1);
+    return true;
+  }
+
+  private getFragments(slideIndex: number): HTMLElement[] {
+    if (!this.enabled) return [];
+
+    const slideElement = this.getSlideElement(slideIndex);
+    if (!slideElement) return [];
+
+    return Array.from(slideElement.querySelectorAll<HTMLElement>(".fragment"));
+  }
+
+  private getSlideElement(slideIndex: number): HTMLElement | undefined {
+    return this.container.querySelectorAll<HTMLElement>(".mostage-slide")[
+      slideIndex
+    ];
+  }
+
+  private getSteps(slideIndex: number): number[] {
+    const indexes = this.getFragments(slideIndex).map((fragment) =>
+      Number(fragment.dataset.fragmentIndex)
+    );
+    return Array.from(new Set(indexes)).sort((a, b) => a - b);
+  }
+
+  private getPreviousElement(node: Node): Element | null {
+    let previous = node.previousSibling;
+    while (previous && previous.nodeType !== Node.ELEMENT_NODE) {
+      previous = previous.previousSibling;
+    }
+    return previous as Element | null;
+  }
+}
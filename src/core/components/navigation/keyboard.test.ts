@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { KeyboardActions } from "./keyboard";
+
+describe("Keyboard Actions", () => {
+  let actions: KeyboardActions;
+  let next: ReturnType<typeof vi.fn>;
+
+  const press = (key: string, init: KeyboardEventInit = {}) =>
+    actions.find(new KeyboardEvent("keydown", { key, ...init }));
+
+  beforeEach(() => {
+    actions = new KeyboardActions();
+    next = vi.fn();
+    actions.register({
+      name: "next",
+      description: "Next slide",
+      keys: ["ArrowRight", "Space"],
+      group: "Navigation",
+      run: next,
+    });
+    actions.register({
+      name: "help",
+      description: "Help",
+      keys: ["h", "?"],
+      group: "Modes",
+      run: vi.fn(),
+    });
+  });
+
+  it("should find the action for a key", () => {
+    press("ArrowRight")?.run();
+    expect(next).toHaveBeenCalled();
+
+    expect(press(" ")?.name).toBe("next");
+    expect(press("H", { shiftKey: true })?.name).toBe("help");
+    expect(press("?", { shiftKey: true })?.name).toBe("help");
+    expect(press("h", { ctrlKey: true })).toBeUndefined();
+    expect(press("x")).toBeUndefined();
+  });
+
+  it("should remap and turn off actions from the configuration", () => {
+    actions.configure({ next: ["n", "Ctrl+ArrowRight"], help: false });
+
+    expect(press("n")?.name).toBe("next");
+    expect(press("ArrowRight", { ctrlKey: true })?.name).toBe("next");
+    expect(press("ArrowRight")).toBeUndefined();
+    expect(press("h")).toBeUndefined();
+  });
+
+  it("should take configured keys from the defaults of other actions", () => {
+    actions.configure({ help: "Space" });
+
+    expect(press(" ")?.name).toBe("help");
+    expect(actions.getKeys("next")).toEqual(["ArrowRight"]);
+  });
+
+  it("should list the available actions by group for the help overlay", () => {
+    actions.register({
+      name: "confetti",
+      description: "Confetti",
+      keys: ["c"],
+      run: vi.fn(),
+    });
+    actions.register({
+      name: "editor",
+      description: "Live editor",
+      keys: ["e"],
+      run: vi.fn(),
+      isEnabled: () => false,
+    });
+    actions.configure({ next: ["ArrowRight", "Shift+n"] });
+
+    expect(actions.getHelpSections()).toEqual([
+      {
+        title: "Navigation",
+        items: [{ description: "Next slide", keys: ["→", "Shift+N"] }],
+      },
+      { title: "Modes", items: [{ description: "Help", keys: ["H", "?"] }] },
+      { title: "More", items: [{ description: "Confetti", keys: ["C"] }] },
+    ]);
+    expect(press("e")).toBeUndefined();
+  });
+});
@@ -0,0 +1,223 @@
+import { KeyboardAction, KeyboardBindings } from "@/types";
+import type { HelpSection } from "../ui/help/help";
+import type { NavigationDirection } from "../../services/navigation-service";
+
+const DEFAULT_GROUP = "More";
+const NAVIGATION_GROUP = "Navigation";
+
+// How keys are shown in the help overlay
+const KEY_LABELS: Record<string, string> = {
+  arrowright: "→",
+  arrowleft: "←",
+  arrowup: "↑",
+  arrowdown: "↓",
+  " ": "Space",
+  escape: "Esc",
+};
+
+// Names accepted for keys whose KeyboardEvent.key is awkward to write
+const KEY_ALIASES: Record<string, string> = {
+  space: " ",
+  esc: "escape",
+};
+
+// What the navigation actions do where they're registered
+export interface NavigationHandlers {
+  navigate: (direction: NavigationDirection) => void;
+  advance: () => void; // Next slide, through stacks
+  first: () => void;
+  last: () => void;
+}
+
+interface KeyCombination {
+  key: string; // Lower-case KeyboardEvent.key
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+/**
+ * Keyboard Actions
+ *
+ * One registry for everything a key can do: the built-in navigation and
+ * modes as well as actions added by plugins. The `keyboard` configuration
+ * remaps or turns off actions by name, and the help overlay is generated
+ * from the registry, so it always lists the keys that work.
+ */
+export class KeyboardActions {
+  private actions: Map<string, KeyboardAction> = new Map();
+  private bindings: KeyboardBindings = {};
+
+  /**
+   * Add an action, replacing any action with the same name
+   */
+  register(action: KeyboardAction): void {
+    this.actions.set(action.name, action);
+  }
+
+  /**
+   * Apply the keys configured per action name
+   * @param bindings - Keys per action; false turns an action off
+   */
+  configure(bindings: KeyboardBindings): void {
+    this.bindings = bindings;
+  }
+
+  /**
+   * Get the keys that trigger an action
+   *
+   * Configured keys replace the action's defaults. A key configured for one
+   * action is taken from the defaults of all others.
+   */
+  getKeys(name: string): string[] {
+    const action = this.actions.get(name);
+    const configured = this.bindings[name];
+    if (!action || configured === false) return [];
+    if (configured !== undefined) {
+      return Array.isArray(configured) ? configured : [configured];
+    }
+
+    const taken = Object.entries(this.bindings)
+      .filter(([other, keys]) => other !== name && keys !== false)
+      .flatMap(([, keys]) => keys as string | string[])
+      .map((key) => this.formatKey(key));
+    return action.keys.filter((key) => !taken.includes(this.formatKey(key)));
+  }
+
+  /**
+   * Find the available action a key press triggers
+   */
+  find(event: KeyboardEvent): KeyboardAction | undefined {
+    return Array.from(this.actions.values()).find(
+      (action) =>
+        this.isAvailable(action) &&
+        this.getKeys(action.name).some((key) => this.matches(key, event))
+    );
+  }
+
+  /**
+   * List the available actions with keys, by group, for the help overlay
+   */
+  getHelpSections(): HelpSection[] {
+    const sections: HelpSection[] = [];
+    this.actions.forEach((action) => {
+      const keys = this.getKeys(action.name);
+      if (!this.isAvailable(action) || keys.length === 0) return;
+
+      const title = action.group ?? DEFAULT_GROUP;
+      let section = sections.find((section) => section.title === title);
+      if (!section) {
+        section = { title, items: [] };
+        sections.push(section);
+      }
+      section.items.push({
+        description: action.description,
+        keys: keys.map((key) => this.formatKey(key)),
+      });
+    });
+    return sections;
+  }
+
+  private isAvailable(action: KeyboardAction): boolean {
+    return action.isEnabled?.() ?? true;
+  }
+
+  // Keys written without Shift match with or without it, as "?" needs Shift
+  private matches(key: string, event: KeyboardEvent): boolean {
+    const combination = this.parseKey(key);
+    return (
+      combination.key === event.key.toLowerCase() &&
+      combination.ctrl === event.ctrlKey &&
+      combination.alt === event.altKey &&
+      combination.meta === event.metaKey &&
+      (!combination.shift || event.shiftKey)
+    );
+  }
+
+  private parseKey(key: string): KeyCombination {
+    const parts = key.split(/\+(?=.)/);
+    const modifiers = parts.slice(0, -1).map((part) => part.toLowerCase());
+    const name = parts[parts.length - 1].toLowerCase();
+
+    return {
+      key: KEY_ALIASES[name] ?? name,
+      ctrl: modifiers.includes("ctrl"),
+      alt: modifiers.includes("alt"),
+      shift: modifiers.includes("shift"),
+      meta: modifiers.includes("meta"),
+    };
+  }
+
+  private formatKey(key: string): string {
+    const { key: name, ...modifiers } = this.parseKey(key);
+    const label =
+      KEY_LABELS[name] ??
+      (name.length === 1
+        ? name.toUpperCase()
+        : name.charAt(0).toUpperCase() + name.slice(1));
+
+    return [
+      ...(["ctrl", "alt", "shift", "meta"] as const)
+        .filter((modifier) => modifiers[modifier])
+        .map(
+          (modifier) => modifier.charAt(0).toUpperCase() + modifier.slice(1)
+        ),
+      label,
+    ].join("+");
+  }
+}
+
+/**
+ * The built-in navigation actions and their default keys, so every place
+ * that navigates by keyboard answers to the same names in the `keyboard`
+ * configuration
+ */
+export function createNavigationActions(
+  handlers: NavigationHandlers
+): KeyboardAction[] {
+  return [
+    {
+      name: "next",
+      description: "Next slide",
+      keys: ["ArrowRight"],
+      run: () => handlers.navigate("right"),
+    },
+    {
+      name: "prev",
+      description: "Previous slide",
+      keys: ["ArrowLeft"],
+      run: () => handlers.navigate("left"),
+    },
+    {
+      name: "up",
+      description: "Up in stack",
+      keys: ["ArrowUp"],
+      run: () => handlers.navigate("up"),
+    },
+    {
+      name: "down",
+      description: "Down in stack",
+      keys: ["ArrowDown"],
+      run: () => handlers.navigate("down"),
+    },
+    {
+      name: "advance",
+      description: "Next slide, through stacks",
+      keys: ["Space"],
+      run: handlers.advance,
+    },
+    {
+      name: "first",
+      description: "First slide",
+      keys: ["Home"],
+      run: handlers.first,
+    },
+    {
+      name: "last",
+      description: "Last slide",
+      keys: ["End"],
+      run: handlers.last,
+    },
+  ].map((action) => ({ ...action, group: NAVIGATION_GROUP }));
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { TransitionManager } from "./transition";
+
+describe("TransitionManager", () => {
+  let container: HTMLElement;
+  let slides: HTMLElement[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement("div");
+    slides = [0, 1].map(() => {
+      const slide = document.createElement("div");
+      slide.className = "mostage-slide";
+      container.appendChild(slide);
+      return slide;
+    });
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  it("should resolve once the transition has ended", async () => {
+    const manager = new TransitionManager(container, {
+      type: "fade",
+      duration: 300,
+    });
+    const ended = vi.fn();
+
+    manager.animateTransition(0, 1).then(ended);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(ended).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(ended).toHaveBeenCalled();
+    expect(slides[0].style.display).toBe("none");
+    expect(slides[1].style.display).toBe("block");
+  });
+
+  it("should resolve immediately without a transition", async () => {
+    const manager = new TransitionManager(container, { type: "horizontal" });
+
+    await expect(manager.animateTransition(1, 1)).resolves.toBeUndefined();
+    expect(slides[1].style.display).toBe("block");
+  });
+});
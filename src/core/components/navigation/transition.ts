@@ -13,49 +13,66 @@ export class TransitionManager {
     this.transitionConfig = transitionConfig;
   }
 
-  animateTransition(fromIndex: number, toIndex: number): void {
+  /**
+   * Animate from one slide to another
+   * @param fromIndex - Index of the slide being left
+   * @param toIndex - Index of the slide being shown
+   * @param slideTransition - Per-slide overrides of the configured transition
+   * @returns A promise that resolves once the transition has ended
+   */
+  animateTransition(
+    fromIndex: number,
+    toIndex: number,
+    slideTransition?: TransitionConfig
+  ): Promise<void> {
     const slides = this.container.querySelectorAll(".mostage-slide");
     const fromSlide = slides[fromIndex] as HTMLElement;
     const toSlide = slides[toIndex] as HTMLElement;
 
-    if (!fromSlide || !toSlide) return;
+    if (!fromSlide || !toSlide) return Promise.resolve();
 
     if (fromIndex === toIndex) {
       this.showSlide(toIndex);
-      return;
+      return Promise.resolve();
     }
 
-    const duration = this.transitionConfig.duration || 300;
+    const transition = { ...this.transitionConfig, ...slideTransition };
+    const duration = transition.duration || 300;
+    const easing = transition.easing || "ease-in-out";
 
     // Clear any existing transitions first
     fromSlide.style.transition = "";
     toSlide.style.transition = "";
 
     // Apply transition based on config
-    switch (this.transitionConfig.type) {
+    switch (transition.type) {
       case "fade":
-        this.fadeTransition(fromSlide, toSlide, duration);
-        break;
+        return this.fadeTransition(fromSlide, toSlide, duration, easing);
       case "vertical":
-        this.verticalTransition(
+        return this.verticalTransition(
           fromSlide,
           toSlide,
           toIndex > fromIndex,
-          duration
+          duration,
+          easing
         );
-        break;
       case "slide":
-        this.slideTransition(fromSlide, toSlide, toIndex > fromIndex, duration);
-        break;
+        return this.slideTransition(
+          fromSlide,
+          toSlide,
+          toIndex > fromIndex,
+          duration,
+          easing
+        );
       case "horizontal":
       default:
-        this.horizontalTransition(
+        return this.horizontalTransition(
           fromSlide,
           toSlide,
           toIndex > fromIndex,
-          duration
+          duration,
+          easing
         );
-        break;
     }
   }
 
@@ -72,8 +89,9 @@ export class TransitionManager {
   private fadeTransition(
     fromSlide: HTMLElement,
     toSlide: HTMLElement,
-    duration: number
-  ): void {
+    duration: number,
+    easing: string
+  ): Promise<void> {
     // Clear any existing transitions first
     fromSlide.style.transition = "";
     toSlide.style.transition = "";
@@ -87,30 +105,33 @@ export class TransitionManager {
     toSlide.offsetHeight;
 
     // Set transitions for smooth animation
-    fromSlide.style.transition = `opacity ${duration}ms ${this.transitionConfig.easing || "ease-in-out"}`;
-    toSlide.style.transition = `opacity ${duration}ms ${this.transitionConfig.easing || "ease-in-out"}`;
-
-    setTimeout(() => {
-      fromSlide.style.opacity = "0";
-      toSlide.style.opacity = "1";
+    fromSlide.style.transition = `opacity ${duration}ms ${easing}`;
+    toSlide.style.transition = `opacity ${duration}ms ${easing}`;
 
-      setTimeout(() => {
+    return this.afterTransition(
+      duration,
+      () => {
+        fromSlide.style.opacity = "0";
+        toSlide.style.opacity = "1";
+      },
+      () => {
         fromSlide.style.display = "none";
         fromSlide.style.opacity = "1";
         toSlide.style.opacity = "1";
         // Clear transitions after animation
         fromSlide.style.transition = "";
         toSlide.style.transition = "";
-      }, duration);
-    }, 50);
+      }
+    );
   }
 
   private horizontalTransition(
     fromSlide: HTMLElement,
     toSlide: HTMLElement,
     isNext: boolean,
-    duration: number
-  ): void {
+    duration: number,
+    easing: string
+  ): Promise<void> {
     const direction = isNext ? "translateX(-100%)" : "translateX(100%)";
     const enterDirection = isNext ? "translateX(100%)" : "translateX(-100%)";
 
@@ -125,30 +146,33 @@ export class TransitionManager {
     toSlide.offsetHeight;
 
     // Set transitions for smooth animation
-    fromSlide.style.transition = `transform ${duration}ms ${this.transitionConfig.easing || "ease-in-out"}`;
-    toSlide.style.transition = `transform ${duration}ms ${this.transitionConfig.easing || "ease-in-out"}`;
-
-    setTimeout(() => {
-      fromSlide.style.transform = direction;
-      toSlide.style.transform = "translateX(0)";
-
-      setTimeout(() => {
+    fromSlide.style.transition = `transform ${duration}ms ${easing}`;
+    toSlide.style.transition = `transform ${duration}ms ${easing}`;
+
+    return this.afterTransition(
+      duration,
+      () => {
+        fromSlide.style.transform = direction;
+        toSlide.style.transform = "translateX(0)";
+      },
+      () => {
         fromSlide.style.display = "none";
         fromSlide.style.transform = "";
         toSlide.style.transform = "";
         // Clear transitions after animation
         fromSlide.style.transition = "";
         toSlide.style.transition = "";
-      }, duration);
-    }, 50);
+      }
+    );
   }
 
   private verticalTransition(
     fromSlide: HTMLElement,
     toSlide: HTMLElement,
     isNext: boolean,
-    duration: number
-  ): void {
+    duration: number,
+    easing: string
+  ): Promise<void> {
     const direction = isNext ? "translateY(-100%)" : "translateY(100%)";
     const enterDirection = isNext ? "translateY(100%)" : "translateY(-100%)";
 
@@ -163,31 +187,61 @@ export class TransitionManager {
     toSlide.offsetHeight;
 
     // Set transitions for smooth animation
-    fromSlide.style.transition = `transform ${duration}ms ${this.transitionConfig.easing || "ease-in-out"}`;
-    toSlide.style.transition = `transform ${duration}ms ${this.transitionConfig.easing || "ease-in-out"}`;
-
-    setTimeout(() => {
-      fromSlide.style.transform = direction;
-      toSlide.style.transform = "translateY(0)";
-
-      setTimeout(() => {
+    fromSlide.style.transition = `transform ${duration}ms ${easing}`;
+    toSlide.style.transition = `transform ${duration}ms ${easing}`;
+
+    return this.afterTransition(
+      duration,
+      () => {
+        fromSlide.style.transform = direction;
+        toSlide.style.transform = "translateY(0)";
+      },
+      () => {
         fromSlide.style.display = "none";
         fromSlide.style.transform = "";
         toSlide.style.transform = "";
         // Clear transitions after animation
         fromSlide.style.transition = "";
         toSlide.style.transition = "";
-      }, duration);
-    }, 50);
+      }
+    );
   }
 
   private slideTransition(
     fromSlide: HTMLElement,
     toSlide: HTMLElement,
     isNext: boolean,
-    duration: number
-  ): void {
+    duration: number,
+    easing: string
+  ): Promise<void> {
     // Similar to horizontal but with different easing
-    this.horizontalTransition(fromSlide, toSlide, isNext, duration);
+    return this.horizontalTransition(
+      fromSlide,
+      toSlide,
+      isNext,
+      duration,
+      easing
+    );
+  }
+
+  /**
+   * Start a transition on the next tick and finish it after its duration
+   * @returns A promise that resolves once the transition has finished
+   */
+  private afterTransition(
+    duration: number,
+    start: () => void,
+    finish: () => void
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        start();
+
+        setTimeout(() => {
+          finish();
+          resolve();
+        }, duration);
+      }, 50);
+    });
   }
 }
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { UrlHashManager } from "./url-hash";
+
+describe("UrlHashManager", () => {
+  let onSlideChange: ReturnType<typeof vi.fn>;
+  let manager: UrlHashManager;
+
+  beforeEach(() => {
+    onSlideChange = vi.fn();
+    manager = new UrlHashManager(true, onSlideChange);
+    manager.setSlides([
+      { id: "intro", content: "# Intro", html: "" },
+      { id: "setup", content: "# Setup", html: "" },
+      { id: "v1.2", content: "# v1.2", html: "" },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should resolve slide ids, with or without a leading slash", () => {
+    expect(manager.resolveHash("#/setup")).toEqual({
+      slideIndex: 1,
+      fragment: 0,
+    });
+    expect(manager.resolveHash("#setup.2")).toEqual({
+      slideIndex: 1,
+      fragment: 2,
+    });
+    expect(manager.resolveHash("#/v1.2")).toEqual({
+      slideIndex: 2,
+      fragment: 0,
+    });
+    expect(manager.resolveHash("#3")).toEqual({ slideIndex: 2, fragment: 0 });
+    expect(manager.resolveHash("#fn-1")).toBeNull();
+  });
+
+  it("should put the slide id in the URL", () => {
+    const replaceState = vi
+      .spyOn(history, "replaceState")
+      .mockImplementation(() => {});
+
+    manager.updateUrlHash(1, 3, 2);
+
+    expect(replaceState).toHaveBeenCalledWith(null, "", "#/setup.2");
+  });
+
+  it("should follow links to slides inside the deck", () => {
+    const container = document.createElement("div");
+    container.innerHTML =
+      '<a href="#/setup">see setup</a><a href="#setup">heading</a><a href="#fn-1">note</a>';
+    document.body.appendChild(container);
+    manager.setupAnchorLinks(container);
+
+    const [slideLink, headingLink, footnoteLink] =
+      container.querySelectorAll("a");
+    const click = new MouseEvent("click", { bubbles: true, cancelable: true });
+    const headingClick = new MouseEvent("click", {
+      bubbles: true,
+      cancelable: true,
+    });
+    slideLink.dispatchEvent(click);
+    headingLink.dispatchEvent(headingClick);
+    footnoteLink.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+
+    expect(click.defaultPrevented).toBe(true);
+    expect(headingClick.defaultPrevented).toBe(false);
+    expect(onSlideChange).toHaveBeenCalledTimes(1);
+    expect(onSlideChange).toHaveBeenCalledWith(1, 0);
+  });
+
+  it("should stop following links and hash changes once destroyed", () => {
+    const container = document.createElement("div");
+    container.innerHTML = '<a href="#/setup">see setup</a>';
+    document.body.appendChild(container);
+    manager.setupUrlHashNavigation();
+    manager.setupAnchorLinks(container);
+
+    manager.destroy();
+    container.querySelector("a")!.click();
+    history.replaceState(null, "", "#/setup");
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    history.replaceState(null, "", " ");
+
+    expect(onSlideChange).not.toHaveBeenCalled();
+  });
+});
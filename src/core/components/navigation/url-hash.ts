@@ -1,54 +1,168 @@
+import { MoSlide } from "@/types";
+
 export class UrlHashManager {
   private urlHashEnabled: boolean;
-  private onSlideChange: (index: number) => void;
+  private slides: MoSlide[] = [];
+  private onSlideChange: (index: number, fragment: number) => void;
+  private removeListeners: (() => void)[] = [];
 
-  constructor(urlHashEnabled: boolean, onSlideChange: (index: number) => void) {
+  constructor(
+    urlHashEnabled: boolean,
+    onSlideChange: (index: number, fragment: number) => void
+  ) {
     this.urlHashEnabled = urlHashEnabled;
     this.onSlideChange = onSlideChange;
   }
 
+  setSlides(slides: MoSlide[]): void {
+    this.slides = slides;
+  }
+
   setupUrlHashNavigation(): void {
     if (!this.urlHashEnabled) return;
 
     // Listen for hash changes
-    window.addEventListener("hashchange", () => {
-      const slideIndex = this.getSlideIndexFromHash();
-      if (slideIndex !== -1) {
-        this.onSlideChange(slideIndex);
+    const handleHashChange = () => {
+      const location = this.getLocationFromHash();
+      if (location) {
+        this.onSlideChange(location.slideIndex, location.fragment);
       }
-    });
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    this.removeListeners.push(() =>
+      window.removeEventListener("hashchange", handleHashChange)
+    );
+  }
+
+  /**
+   * Navigate inside the deck when a link to a slide is clicked, such as
+   * `[see setup](#/setup)`. Works with or without `urlHash`. Other `#`
+   * links, e.g. to headings or footnotes, are left to the browser.
+   * @param container - Element holding the slides
+   */
+  setupAnchorLinks(container: HTMLElement): void {
+    const handleClick = (event: MouseEvent) => {
+      const link = (event.target as Element | null)?.closest?.("a[href^='#/']");
+      const location = link && this.resolveHash(link.getAttribute("href")!);
+      if (!location) return;
+
+      event.preventDefault();
+      this.onSlideChange(location.slideIndex, location.fragment);
+    };
+    container.addEventListener("click", handleClick);
+    this.removeListeners.push(() =>
+      container.removeEventListener("click", handleClick)
+    );
+  }
+
+  /**
+   * Stop following hash changes and links to slides
+   */
+  destroy(): void {
+    this.removeListeners.forEach((remove) => remove());
+    this.removeListeners = [];
   }
 
   getInitialSlideFromUrl(): number {
     if (!this.urlHashEnabled) return 0;
 
-    const slideIndex = this.getSlideIndexFromHash();
-    return slideIndex !== -1 ? slideIndex : 0;
+    const location = this.getLocationFromHash();
+    return location ? location.slideIndex : 0;
+  }
+
+  getInitialFragmentFromUrl(): number {
+    if (!this.urlHashEnabled) return 0;
+
+    const location = this.getLocationFromHash();
+    return location ? location.fragment : 0;
   }
 
-  private getSlideIndexFromHash(): number {
-    const hash = window.location.hash;
-    if (!hash) return -1;
+  private getLocationFromHash(): {
+    slideIndex: number;
+    fragment: number;
+  } | null {
+    return this.resolveHash(window.location.hash);
+  }
 
-    // Support both #1 and #slide-1 formats
-    const match = hash.match(/^#(?:slide-)?(\d+)$/);
+  /**
+   * Find the slide a hash points to
+   * @param hash - `#/intro` or `#intro` with a slide id, or a slide number
+   * such as `#3`, each with an optional `.N` fragment step
+   * @returns The slide index and fragment step, null for other hashes
+   */
+  resolveHash(hash: string): { slideIndex: number; fragment: number } | null {
+    if (!hash || hash === "#") return null;
+
+    // Support #1 and #slide-1 formats, with an optional /N vertical slide
+    // and an optional .N fragment step, e.g. #3/2.1
+    const match = hash.match(/^#(?:slide-)?(\d+)(?:\/(\d+))?(?:\.(\d+))?$/);
     if (match) {
-      const slideNumber = parseInt(match[1], 10);
-      // Convert 1-based to 0-based index
-      const slideIndex = slideNumber - 1;
-      return slideIndex;
+      // Convert 1-based to 0-based indexes
+      const horizontal = parseInt(match[1], 10) - 1;
+      const vertical = match[2] ? parseInt(match[2], 10) - 1 : 0;
+      const slideIndex = this.getSlideIndex(horizontal, vertical);
+      const fragment = match[3] ? parseInt(match[3], 10) : 0;
+      return { slideIndex, fragment };
+    }
+
+    // Slide ids, which may themselves end in a dot and digits
+    let anchor: string;
+    try {
+      anchor = decodeURIComponent(hash.slice(1)).replace(/^\//, "");
+    } catch {
+      return null;
+    }
+    const slideIndex = this.findSlideById(anchor);
+    if (slideIndex >= 0) {
+      return { slideIndex, fragment: 0 };
+    }
+
+    const step = anchor.match(/^(.+)\.(\d+)$/);
+    const steppedIndex = step ? this.findSlideById(step[1]) : -1;
+    return steppedIndex >= 0
+      ? { slideIndex: steppedIndex, fragment: parseInt(step![2], 10) }
+      : null;
+  }
+
+  private findSlideById(id: string): number {
+    return this.slides.findIndex((slide) => slide.id === id);
+  }
+
+  private getSlideIndex(horizontal: number, vertical: number): number {
+    // Without positions, the hash counts slides linearly
+    if (!this.slides.some((slide) => slide.position)) {
+      return horizontal;
     }
 
-    return -1;
+    const findSlide = (v: number) =>
+      this.slides.findIndex(
+        (slide) =>
+          slide.position?.horizontal === horizontal &&
+          slide.position?.vertical === v
+      );
+
+    // Fall back to the top of the stack for unknown vertical slides
+    const index = findSlide(vertical);
+    return index >= 0 ? index : Math.max(findSlide(0), 0);
   }
 
-  updateUrlHash(slideIndex: number, totalSlides: number): void {
+  updateUrlHash(
+    slideIndex: number,
+    totalSlides: number,
+    fragment: number = 0
+  ): void {
     if (!this.urlHashEnabled) return;
 
     if (slideIndex < 0 || slideIndex >= totalSlides) return;
 
-    const slideNumber = slideIndex + 1; // Convert to 1-based
-    const newHash = `#${slideNumber}`;
+    // Slide ids keep shared links working when slides are added before them
+    const slide = this.slides[slideIndex];
+    let newHash = slide?.id
+      ? `#/${encodeURIComponent(slide.id)}`
+      : `#${slideIndex + 1}`;
+    if (fragment > 0) {
+      newHash += `.${fragment}`;
+    }
 
     // Update URL without triggering hashchange event
     if (window.location.hash !== newHash) {
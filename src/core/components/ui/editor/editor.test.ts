@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EditorManager } from "./editor";
+
+describe("Live Editor", () => {
+  let container: HTMLElement;
+  let onChange: ReturnType<typeof vi.fn>;
+  let onCursorMove: ReturnType<typeof vi.fn>;
+  let editor: EditorManager;
+
+  const getInput = () =>
+    document.querySelector(".mostage-editor-input") as HTMLTextAreaElement;
+  const getError = () =>
+    document.querySelector(".mostage-editor-error") as HTMLElement;
+
+  const type = (markdown: string) => {
+    getInput().value = markdown;
+    getInput().dispatchEvent(new Event("input"));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    onChange = vi.fn(() => Promise.resolve());
+    onCursorMove = vi.fn();
+    editor = new EditorManager(container, {
+      getMarkdown: () => "# One\n---\n# Two",
+      getCursorOffset: () => 10,
+      onChange,
+      onCursorMove,
+    });
+  });
+
+  afterEach(() => {
+    editor.destroy();
+    vi.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  it("should open next to the slides with the current markdown", () => {
+    editor.initialize({ open: true });
+
+    expect(getInput().value).toBe("# One\n---\n# Two");
+    expect(container.classList.contains("mostage-editor-open")).toBe(true);
+
+    editor.toggle();
+
+    expect(document.querySelector(".mostage-editor")).toBeNull();
+    expect(container.classList.contains("mostage-editor-open")).toBe(false);
+  });
+
+  it("should start with the cursor on the current slide", () => {
+    editor.initialize({ open: true });
+
+    expect(getInput().selectionStart).toBe(10);
+    expect(getInput().selectionEnd).toBe(10);
+  });
+
+  it("should only enable the shortcut when configured", () => {
+    editor.initialize(null);
+    expect(editor.isEnabled()).toBe(false);
+
+    editor.initialize({ enabled: true });
+    expect(editor.isEnabled()).toBe(true);
+  });
+
+  it("should update the slides once typing pauses", async () => {
+    editor.initialize({ open: true, delay: 200 });
+
+    type("# One!");
+    type("# One!!");
+    await vi.advanceTimersByTimeAsync(199);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith("# One!!");
+    expect(onCursorMove).toHaveBeenCalledWith("# One!!", expect.any(Number));
+  });
+
+  it("should show parse errors until the markdown is fixed", async () => {
+    editor.initialize({ open: true });
+    onChange.mockRejectedValueOnce(new Error("Layout has no place for ::x::"));
+
+    type("::x::");
+    await vi.advanceTimersByTimeAsync(300);
+    expect(getError().hidden).toBe(false);
+    expect(getError().textContent).toBe("Layout has no place for ::x::");
+
+    type("# Fixed");
+    await vi.advanceTimersByTimeAsync(300);
+    expect(getError().hidden).toBe(true);
+  });
+
+  it("should follow the cursor to its slide", () => {
+    editor.initialize({ open: true });
+
+    getInput().setSelectionRange(12, 12);
+    getInput().dispatchEvent(new MouseEvent("click"));
+
+    expect(onCursorMove).toHaveBeenCalledWith("# One\n---\n# Two", 12);
+  });
+
+  it("should apply pending edits when closed", async () => {
+    editor.initialize({ open: true });
+
+    type("# Last words");
+    editor.toggle();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onChange).toHaveBeenCalledWith("# Last words");
+  });
+});
@@ -0,0 +1,192 @@
+// Live Editor - markdown source next to the running presentation
+// Typing re-renders the slides after a short pause and the slide under the
+// cursor is shown, so decks can be tweaked in the browser without a build tool.
+
+import { EditorConfig } from "@/types";
+
+export interface EditorCallbacks {
+  getMarkdown: () => string; // Markdown of the presentation as written, before includes are resolved
+  getCursorOffset: (markdown: string) => number; // Where the cursor starts: the current slide
+  onChange: (markdown: string) => Promise<void>; // Re-render the slides; rejects when the markdown, its includes or front matter are invalid
+  onCursorMove: (markdown: string, offset: number) => void; // Show the slide at the cursor
+}
+
+const DEFAULT_DELAY = 300;
+const DOWNLOAD_FILE_NAME = "content.md";
+
+export class EditorManager {
+  private container: HTMLElement;
+  private callbacks: EditorCallbacks;
+  private enabled = false;
+  private delay = DEFAULT_DELAY;
+  private element: HTMLElement | null = null;
+  private textarea: HTMLTextAreaElement | null = null;
+  private errorElement: HTMLElement | null = null;
+  private updateTimer: number | null = null;
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(container: HTMLElement, callbacks: EditorCallbacks) {
+    this.container = container;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Apply the editor configuration, opening the editor if requested
+   * @param config - Editor configuration, null when not configured
+   */
+  initialize(config: EditorConfig | null): void {
+    this.enabled = !!(config?.enabled || config?.open);
+    this.delay = config?.delay ?? DEFAULT_DELAY;
+
+    if (config?.open) {
+      this.open();
+    }
+  }
+
+  // Whether the keyboard shortcut may open the editor
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  isOpen(): boolean {
+    return !!this.element;
+  }
+
+  toggle(): void {
+    if (this.isOpen()) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open(): void {
+    if (this.element) {
+      this.textarea?.focus();
+      return;
+    }
+
+    this.element = document.createElement("div");
+    this.element.className = "mostage-editor";
+    this.element.innerHTML = `
+      <div class="mostage-editor-toolbar">
+        <span class="mostage-editor-title">Markdown</span>
+        <button class="mostage-editor-download" title="Download the markdown">Download</button>
+        <button class="mostage-editor-close" title="Close editor (Esc)">×</button>
+      </div>
+      <textarea class="mostage-editor-input" spellcheck="false" aria-label="Presentation markdown"></textarea>
+      <div class="mostage-editor-error" role="alert" hidden></div>
+    `;
+
+    this.textarea = this.element.querySelector(".mostage-editor-input");
+    this.errorElement = this.element.querySelector(".mostage-editor-error");
+    this.textarea!.value = this.callbacks.getMarkdown();
+
+    this.textarea!.addEventListener("input", () => this.scheduleUpdate());
+    this.textarea!.addEventListener("click", () => this.followCursor());
+    this.textarea!.addEventListener("keyup", (event) => {
+      if (event.key.startsWith("Arrow") || /^(Home|End|Page)/.test(event.key)) {
+        this.followCursor();
+      }
+    });
+    this.textarea!.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        this.close();
+      }
+    });
+    this.element
+      .querySelector(".mostage-editor-download")
+      ?.addEventListener("click", () => this.download());
+    this.element
+      .querySelector(".mostage-editor-close")
+      ?.addEventListener("click", () => this.close());
+
+    document.body.appendChild(this.element);
+    this.container.classList.add("mostage-editor-open");
+
+    // Focusing first lets the browser scroll the cursor into view
+    const offset = this.callbacks.getCursorOffset(this.textarea!.value);
+    this.textarea!.focus();
+    this.textarea!.setSelectionRange(offset, offset);
+  }
+
+  close(): void {
+    if (!this.element) return;
+
+    // Edits still waiting for the pause are applied, not lost
+    if (this.updateTimer !== null) {
+      this.flush();
+    }
+
+    this.element.remove();
+    this.element = null;
+    this.textarea = null;
+    this.errorElement = null;
+    this.container.classList.remove("mostage-editor-open");
+  }
+
+  destroy(): void {
+    if (this.updateTimer !== null) {
+      window.clearTimeout(this.updateTimer);
+      this.updateTimer = null;
+    }
+    this.close();
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimer !== null) {
+      window.clearTimeout(this.updateTimer);
+    }
+    this.updateTimer = window.setTimeout(() => this.flush(), this.delay);
+  }
+
+  // Updates run one after another, so a slow render never overlaps the next
+  private flush(): void {
+    if (this.updateTimer !== null) {
+      window.clearTimeout(this.updateTimer);
+      this.updateTimer = null;
+    }
+    if (!this.textarea) return;
+
+    const markdown = this.textarea.value;
+    this.updates = this.updates.then(() => this.update(markdown));
+  }
+
+  private async update(markdown: string): Promise<void> {
+    try {
+      await this.callbacks.onChange(markdown);
+      this.showError(null);
+      this.followCursor();
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private followCursor(): void {
+    if (!this.textarea) return;
+    this.callbacks.onCursorMove(
+      this.textarea.value,
+      this.textarea.selectionStart
+    );
+  }
+
+  private showError(message: string | null): void {
+    if (!this.errorElement) return;
+    this.errorElement.textContent = message ?? "";
+    this.errorElement.hidden = message === null;
+  }
+
+  private download(): void {
+    if (!this.textarea) return;
+
+    const url = URL.createObjectURL(
+      new Blob([this.textarea.value], { type: "text/markdown" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = DOWNLOAD_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -13,53 +13,33 @@ export interface HelpSection {
 
 export type HelpMode = "normal" | "overview";
 
-// Help data
-const HELP_DATA = {
-  overview: [
-    {
-      title: "Keyboard Shortcuts",
-      items: [
-        { description: "Navigate", keys: ["←", "→", "Enter"] },
-        { description: "First slide", keys: ["Home"] },
-        { description: "Last slide", keys: ["End"] },
-        { description: "Exit", keys: ["Esc", "O"] },
-      ],
-    },
-  ],
-  normal: [
-    {
-      title: "Navigation",
-      items: [
-        { description: "Next slide", keys: ["→", "Space"] },
-        { description: "Previous slide", keys: ["←"] },
-        { description: "First slide", keys: ["Home"] },
-        { description: "Last slide", keys: ["End"] },
-      ],
-    },
-    {
-      title: "Modes",
-      items: [
-        { description: "Overview mode", keys: ["O", "Esc"] },
-        { description: "Help", keys: ["H", "?"] },
-      ],
-    },
-  ],
-} as const;
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 
 // HelpComponent - Help rendering component
 export class HelpComponent {
   private mode: HelpMode;
   private sections: HelpSection[];
   private prefix: string;
+  private getSections: (() => HelpSection[]) | null;
 
-  constructor(mode: HelpMode) {
+  // Lists the sections it is given, read each time help is shown
+  constructor(mode: HelpMode, getSections?: () => HelpSection[]) {
     this.mode = mode;
     this.prefix =
       mode === "overview" ? "mostage-overview-help" : "mostage-help";
-    this.sections = JSON.parse(JSON.stringify(HELP_DATA[mode]));
+    this.sections = [];
+    this.getSections = getSections ?? null;
   }
 
   createHelpElement(): HTMLElement {
+    if (this.getSections) {
+      this.sections = this.getSections();
+    }
     const container = document.createElement("div");
     container.className = this.prefix;
     container.innerHTML = this.generateHTML();
@@ -68,15 +48,16 @@ export class HelpComponent {
 
   private generateHTML(): string {
     if (this.mode === "overview") {
-      const section = this.sections[0];
+      // The compact overview help lists the items without section titles
+      const items = this.sections.flatMap((section) => section.items);
       return `
         <div class="${this.prefix}-content">
           <div class="${this.prefix}-header">
-            <h3>${section.title}</h3>
+            <h3>Keyboard Shortcuts</h3>
             <button class="${this.prefix}-close">×</button>
           </div>
           <div class="${this.prefix}-body">
-            ${this.renderItems(section.items)}
+            ${this.renderItems(items)}
           </div>
         </div>
       `;
@@ -98,7 +79,7 @@ export class HelpComponent {
   private renderSection(section: HelpSection): string {
     return `
       <div class="${this.prefix}-section">
-        <h4>${section.title}</h4>
+        <h4>${escapeHtml(section.title)}</h4>
         ${this.renderItems(section.items)}
       </div>
     `;
@@ -111,7 +92,7 @@ export class HelpComponent {
   private renderItem(item: HelpItem): string {
     return `
       <div class="${this.prefix}-item">
-        <span class="${this.prefix}-description">${item.description}</span>
+        <span class="${this.prefix}-description">${escapeHtml(item.description)}</span>
         ${this.renderKeys(item.keys)}
       </div>
     `;
@@ -119,11 +100,11 @@ export class HelpComponent {
 
   private renderKeys(keys: string[]): string {
     if (keys.length === 1) {
-      return `<span class="${this.prefix}-key">${keys[0]}</span>`;
+      return `<span class="${this.prefix}-key">${escapeHtml(keys[0])}</span>`;
     }
     return `
       <div class="${this.prefix}-keys">
-        ${keys.map((key) => `<span class="${this.prefix}-key">${key}</span>`).join("")}
+        ${keys.map((key) => `<span class="${this.prefix}-key">${escapeHtml(key)}</span>`).join("")}
       </div>
     `;
   }
@@ -146,9 +127,9 @@ export class HelpManager {
   private autoHideTimeout: number | null = null;
   private container: HTMLElement;
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, getSections: () => HelpSection[]) {
     this.container = container;
-    this.helpComponent = new HelpComponent("normal");
+    this.helpComponent = new HelpComponent("normal", getSections);
   }
 
   toggleHelp(): void {
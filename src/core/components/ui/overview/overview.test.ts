@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { OverviewManager } from "./overview";
+import { MoSlide } from "@/types";
+
+const slides: MoSlide[] = [
+  { id: "one", content: "# One", html: "<h1>One</h1>" },
+  { id: "two", content: "# Two", html: "<h1>Two</h1>" },
+  { id: "three", content: "# Three", html: "<h1>Three</h1>" },
+];
+
+describe("OverviewManager", () => {
+  let container: HTMLElement;
+  let onSlideChange: ReturnType<typeof vi.fn>;
+  let onExit: ReturnType<typeof vi.fn>;
+  let manager: OverviewManager;
+
+  const press = (key: string) => {
+    const event = new KeyboardEvent("keydown", { key, cancelable: true });
+    manager.handleOverviewKeyboard(event);
+    return event.defaultPrevented;
+  };
+
+  const selectedIndex = () =>
+    Array.from(container.querySelectorAll(".mostage-overview-slide")).findIndex(
+      (thumbnail) => thumbnail.classList.contains("selected")
+    );
+
+  beforeEach(() => {
+    // jsdom does not implement scrolling
+    Element.prototype.scrollIntoView = vi.fn();
+
+    container = document.createElement("div");
+    container.innerHTML = slides
+      .map((slide) => `<div class="mostage-slide">${slide.html}</div>`)
+      .join("");
+    document.body.appendChild(container);
+
+    onSlideChange = vi.fn();
+    onExit = vi.fn();
+    manager = new OverviewManager(container, onSlideChange, onExit);
+    manager.setSlides(slides);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("should move the selection and open a slide with the default keys", () => {
+    manager.toggleOverview();
+
+    expect(press("ArrowRight")).toBe(true);
+    expect(press("ArrowRight")).toBe(true);
+    expect(selectedIndex()).toBe(2);
+
+    expect(press("Enter")).toBe(true);
+    expect(onSlideChange).toHaveBeenCalledWith(2);
+  });
+
+  it("should use the configured keys instead of the defaults", () => {
+    manager.setKeyboardBindings({ next: "n", overview: "q" });
+    manager.toggleOverview();
+
+    expect(press("ArrowRight")).toBe(false);
+    expect(press("n")).toBe(true);
+    expect(selectedIndex()).toBe(1);
+
+    expect(press("o")).toBe(false);
+    expect(press("q")).toBe(true);
+    expect(onExit).toHaveBeenCalled();
+    expect(manager.isInOverviewMode()).toBe(false);
+  });
+
+  it("should list the configured keys in the overview help", () => {
+    manager.setKeyboardBindings({ next: "n", overview: "q" });
+    manager.toggleOverview();
+
+    const keys = Array.from(
+      container.querySelectorAll(".mostage-overview-help-key")
+    ).map((key) => key.textContent);
+    expect(keys).toContain("N");
+    expect(keys).toContain("Q");
+    expect(keys).not.toContain("O");
+    expect(keys).not.toContain("→");
+  });
+});
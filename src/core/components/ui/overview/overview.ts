@@ -1,9 +1,24 @@
+import {
+  KeyboardAction,
+  KeyboardBindings,
+  MoSlide,
+  MoSlidePosition,
+  MoSlideSize,
+} from "@/types";
 import { HelpComponent } from "../help/help";
+import {
+  KeyboardActions,
+  createNavigationActions,
+} from "../../navigation/keyboard";
 import pkg from "../../../../../package.json";
 
+const THUMBNAIL_WIDTH = 280;
+
 export class OverviewManager {
   private container: HTMLElement;
   private currentSlideIndex = 0;
+  private slides: MoSlide[] = [];
+  private slideSize: MoSlideSize | null = null;
   private isOverviewMode = false;
   private overviewContainer: HTMLElement | null = null;
   private overviewSelectedIndex = 0;
@@ -11,6 +26,7 @@ export class OverviewManager {
   private onExitOverview: () => void;
   private onEnterOverview: () => void;
   private helpComponent: HelpComponent;
+  private keyboardActions = new KeyboardActions();
 
   constructor(
     container: HTMLElement,
@@ -22,13 +38,35 @@ export class OverviewManager {
     this.onSlideChange = onSlideChange;
     this.onExitOverview = onExitOverview;
     this.onEnterOverview = onEnterOverview || (() => {});
-    this.helpComponent = new HelpComponent("overview");
+    this.helpComponent = new HelpComponent("overview", () =>
+      this.keyboardActions.getHelpSections()
+    );
+    this.registerKeyboardActions();
+  }
+
+  /**
+   * Apply the keyboard configuration; the navigation actions and the
+   * overview action answer to the same names as outside the overview
+   */
+  setKeyboardBindings(keyboard: KeyboardBindings): void {
+    this.keyboardActions.configure(keyboard);
   }
 
   setCurrentSlideIndex(index: number): void {
     this.currentSlideIndex = index;
   }
 
+  setSlides(slides: MoSlide[]): void {
+    this.slides = slides;
+  }
+
+  /**
+   * Render thumbnails at the fixed logical slide size, or fluid when null
+   */
+  setSlideSize(size: MoSlideSize | null): void {
+    this.slideSize = size;
+  }
+
   toggleOverview(): void {
     if (this.isOverviewMode) {
       this.exitOverview();
@@ -43,56 +81,55 @@ export class OverviewManager {
 
   /**
    * Handles keyboard events in overview mode
-   * Supports navigation (arrows, home, end) and actions (enter, escape, o)
+   * The navigation keys move the selection, Enter opens the selected slide
+   * and the overview keys leave the overview
    */
   handleOverviewKeyboard(event: KeyboardEvent): void {
     if (!this.isOverviewMode) return;
 
-    const key = event.key;
-    const keyLower = key.toLowerCase();
-
-    // Handle navigation keys
-    if (key === "ArrowRight") {
+    const action = this.keyboardActions.find(event);
+    if (action) {
       event.preventDefault();
       event.stopPropagation();
-      this.nextOverviewSlide();
-      return;
-    }
-
-    if (key === "ArrowLeft") {
-      event.preventDefault();
-      event.stopPropagation();
-      this.previousOverviewSlide();
-      return;
-    }
-
-    if (key === "Home") {
-      event.preventDefault();
-      event.stopPropagation();
-      this.goToFirstSlide();
-      return;
-    }
-
-    if (key === "End") {
-      event.preventDefault();
-      event.stopPropagation();
-      this.goToLastSlide();
-      return;
-    }
-
-    if (key === "Enter") {
-      event.preventDefault();
-      event.stopPropagation();
-      this.selectOverviewSlide();
-      return;
+      action.run();
     }
+  }
 
-    if (key === "Escape" || keyLower === "o") {
-      event.preventDefault();
-      event.stopPropagation();
-      this.exitOverview();
-      return;
-    }
+  // Up and down only move the selection in decks with vertical stacks
+  private registerKeyboardActions(): void {
+    createNavigationActions({
+      navigate: (direction) => {
+        if (direction === "right") this.nextOverviewSlide();
+        else if (direction === "left") this.previousOverviewSlide();
+        else this.moveWithinStack(direction === "down" ? 1 : -1);
+      },
+      advance: () => this.advanceOverviewSlide(),
+      first: () => this.goToFirstSlide(),
+      last: () => this.goToLastSlide(),
+    })
+      .map(
+        (action): KeyboardAction =>
+          action.name === "up" || action.name === "down"
+            ? { ...action, isEnabled: () => this.hasVerticalSlides() }
+            : action
+      )
+      .concat([
+        {
+          name: "select",
+          description: "Open slide",
+          keys: ["Enter"],
+          run: () => this.selectOverviewSlide(),
+          group: "Overview",
+        },
+        {
+          name: "overview",
+          description: "Exit overview",
+          keys: ["o", "Escape"],
+          run: () => this.exitOverview(),
+          group: "Overview",
+        },
+      ])
+      .forEach((action) => this.keyboardActions.register(action));
   }
 
   private getThumbnails(): NodeListOf<Element> | null {
@@ -140,6 +177,11 @@ export class OverviewManager {
   }
 
   private nextOverviewSlide(): void {
+    if (this.hasVerticalSlides()) {
+      this.moveToStack(1);
+      return;
+    }
+
     const thumbnails = this.getThumbnails();
     const actualSlidesCount = thumbnails?.length || 0;
 
@@ -150,12 +192,69 @@ export class OverviewManager {
   }
 
   private previousOverviewSlide(): void {
+    if (this.hasVerticalSlides()) {
+      this.moveToStack(-1);
+      return;
+    }
+
     if (this.overviewSelectedIndex > 0) {
       this.overviewSelectedIndex--;
       this.updateOverviewSelection();
     }
   }
 
+  private advanceOverviewSlide(): void {
+    if (this.overviewSelectedIndex < (this.getThumbnails()?.length || 0) - 1) {
+      this.overviewSelectedIndex++;
+      this.updateOverviewSelection();
+    }
+  }
+
+  private hasVerticalSlides(): boolean {
+    return this.slides.some((slide) => (slide.position?.vertical ?? 0) > 0);
+  }
+
+  private getSlidePosition(index: number): MoSlidePosition {
+    return this.slides[index]?.position ?? { horizontal: index, vertical: 0 };
+  }
+
+  private findSlideIndex(horizontal: number, vertical: number): number {
+    return this.slides.findIndex(
+      (slide) =>
+        slide.position?.horizontal === horizontal &&
+        slide.position?.vertical === vertical
+    );
+  }
+
+  // Move to the neighbouring stack, keeping the row when that stack is deep enough
+  private moveToStack(offset: number): void {
+    const { horizontal, vertical } = this.getSlidePosition(
+      this.overviewSelectedIndex
+    );
+    const targetStack = horizontal + offset;
+
+    for (let row = vertical; row >= 0; row--) {
+      const index = this.findSlideIndex(targetStack, row);
+      if (index >= 0) {
+        this.overviewSelectedIndex = index;
+        this.updateOverviewSelection();
+        return;
+      }
+    }
+  }
+
+  private moveWithinStack(offset: number): void {
+    const { horizontal, vertical } = this.getSlidePosition(
+      this.overviewSelectedIndex
+    );
+    const index = this.findSlideIndex(horizontal, vertical + offset);
+
+    if (index >= 0) {
+      this.overviewSelectedIndex = index;
+      this.updateOverviewSelection();
+    }
+  }
+
   private selectOverviewSlide(): void {
     this.onSlideChange(this.overviewSelectedIndex);
     this.exitOverview();
@@ -186,6 +285,8 @@ export class OverviewManager {
       ".mostage-slide"
     ) as NodeListOf<HTMLElement>;
     const currentSlideIndex = this.currentSlideIndex;
+    const hasVerticalSlides = this.hasVerticalSlides();
+    const stacks: HTMLElement[] = [];
 
     slideElements.forEach((slideElement: HTMLElement, index: number) => {
       const thumbnail = this.createThumbnail(
@@ -193,7 +294,20 @@ export class OverviewManager {
         index,
         currentSlideIndex
       );
-      this.overviewContainer!.appendChild(thumbnail);
+
+      if (!hasVerticalSlides) {
+        this.overviewContainer!.appendChild(thumbnail);
+        return;
+      }
+
+      // Stacks become grid columns with their sub-slides listed below the top slide
+      const { horizontal } = this.getSlidePosition(index);
+      if (!stacks[horizontal]) {
+        stacks[horizontal] = document.createElement("div");
+        stacks[horizontal].className = "mostage-overview-stack";
+        this.overviewContainer!.appendChild(stacks[horizontal]);
+      }
+      stacks[horizontal].appendChild(thumbnail);
     });
 
     const helpComponent = this.createHelpComponent();
@@ -209,6 +323,7 @@ export class OverviewManager {
     });
 
     this.container.appendChild(this.overviewContainer);
+    this.scaleThumbnails();
 
     // Add close button and footer to the overview container
     this.overviewContainer.appendChild(this.createCloseButton());
@@ -244,7 +359,9 @@ export class OverviewManager {
     // Create slide number element
     const slideNumber = document.createElement("div");
     slideNumber.className = "mostage-overview-slide-number";
-    slideNumber.textContent = (index + 1).toString();
+    const { horizontal, vertical } = this.getSlidePosition(index);
+    slideNumber.textContent =
+      vertical > 0 ? `${horizontal + 1}/${vertical + 1}` : `${horizontal + 1}`;
 
     // Create content wrapper
     const contentWrapper = document.createElement("div");
@@ -263,6 +380,15 @@ export class OverviewManager {
     // Apply theme styles to the content wrapper to ensure proper theming
     this.applyThemeToOverviewContent(contentWrapper, slideElement);
 
+    // Fixed-size slides keep their logical layout, scaled down to the thumbnail
+    if (this.slideSize) {
+      const { width, height } = this.slideSize;
+      thumbnail.classList.add("mostage-overview-slide-fixed");
+      thumbnail.style.aspectRatio = `${width} / ${height}`;
+      contentWrapper.style.width = `${width}px`;
+      contentWrapper.style.height = `${height}px`;
+    }
+
     // Assemble the thumbnail
     thumbnail.appendChild(slideNumber);
     thumbnail.appendChild(contentWrapper);
@@ -276,6 +402,26 @@ export class OverviewManager {
     return thumbnail;
   }
 
+  /**
+   * Scale the content of fixed-size thumbnails to their rendered width
+   */
+  private scaleThumbnails(): void {
+    if (!this.slideSize || !this.overviewContainer) return;
+
+    const thumbnails = this.overviewContainer.querySelectorAll<HTMLElement>(
+      ".mostage-overview-slide-fixed"
+    );
+    thumbnails.forEach((thumbnail) => {
+      const content = thumbnail.querySelector<HTMLElement>(
+        ".mostage-overview-slide-content"
+      );
+      if (!content) return;
+
+      const thumbnailWidth = thumbnail.clientWidth || THUMBNAIL_WIDTH;
+      content.style.transform = `scale(${thumbnailWidth / this.slideSize!.width})`;
+    });
+  }
+
   /**
    * Apply theme styles to overview content to ensure it matches the main slides
    */
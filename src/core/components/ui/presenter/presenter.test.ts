@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { PresenterManager, PresenterView } from "./presenter";
+import { MoSlide } from "@/types";
+
+const slides: MoSlide[] = [
+  {
+    id: "slide-0",
+    content: "# One",
+    html: "<h1>One</h1>",
+    notes: {
+      content: "First **note**",
+      html: "<p>First <strong>note</strong></p>",
+    },
+  },
+  { id: "slide-1", content: "# Two", html: "<h1>Two</h1>" },
+];
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("Presenter View", () => {
+  let container: HTMLElement;
+  let onNavigate: ReturnType<typeof vi.fn>;
+  let manager: PresenterManager;
+  let view: PresenterView;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    onNavigate = vi.fn();
+    manager = new PresenterManager(container, onNavigate);
+    manager.setSlides(slides);
+
+    view = new PresenterView(document, manager.getChannelName());
+    view.mount();
+  });
+
+  afterEach(() => {
+    view.destroy();
+    manager.destroy();
+    document.body.innerHTML = "";
+  });
+
+  it("should render current slide, next slide and notes", async () => {
+    manager.setCurrentSlideIndex(0);
+    await flush();
+
+    const frames = document.querySelectorAll(".mostage-presenter-frame");
+    expect(frames[0].innerHTML).toContain("<h1>One</h1>");
+    expect(frames[1].innerHTML).toContain("<h1>Two</h1>");
+    expect(
+      document.querySelector(".mostage-presenter-notes-content")?.innerHTML
+    ).toContain("<strong>note</strong>");
+    expect(
+      document.querySelector(".mostage-presenter-progress")?.textContent
+    ).toBe("1 / 2");
+  });
+
+  it("should show end of presentation on the last slide", async () => {
+    manager.setCurrentSlideIndex(1);
+    await flush();
+
+    const frames = document.querySelectorAll(".mostage-presenter-frame");
+    expect(frames[1].textContent).toContain("End of presentation");
+    expect(
+      document.querySelector(".mostage-presenter-notes-content")?.textContent
+    ).toContain("No notes");
+  });
+
+  it("should forward navigation keys from the presenter window", async () => {
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Home" }));
+    await flush();
+
+    expect(onNavigate).toHaveBeenCalledWith("next");
+    expect(onNavigate).toHaveBeenCalledWith("first");
+  });
+
+  it("should use the configured keys instead of the defaults", async () => {
+    view.destroy();
+    view = new PresenterView(document, manager.getChannelName(), {
+      next: "n",
+    });
+    view.mount();
+
+    const arrow = new KeyboardEvent("keydown", {
+      key: "ArrowRight",
+      cancelable: true,
+    });
+    document.dispatchEvent(arrow);
+    await flush();
+    expect(arrow.defaultPrevented).toBe(false);
+    expect(onNavigate).not.toHaveBeenCalled();
+
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "n" }));
+    await flush();
+    expect(onNavigate).toHaveBeenCalledWith("next");
+  });
+
+  it("should only talk to its own presentation", async () => {
+    const otherNavigate = vi.fn();
+    const other = new PresenterManager(container, otherNavigate, "/deck.md");
+
+    expect(other.getChannelName()).not.toBe(manager.getChannelName());
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+    await flush();
+
+    expect(onNavigate).toHaveBeenCalledWith("next");
+    expect(otherNavigate).not.toHaveBeenCalled();
+    other.destroy();
+  });
+
+  it("should display elapsed time", () => {
+    expect(
+      document.querySelector(".mostage-presenter-elapsed")?.textContent
+    ).toBe("00:00:00");
+  });
+});
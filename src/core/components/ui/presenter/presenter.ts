@@ -0,0 +1,436 @@
+// Presenter View - speaker window with notes, next slide preview and timers
+// The audience window and the presenter window only talk through messages
+// on a channel of their own, so other decks and tabs on the same origin
+// never drive each other's presenter views.
+
+import { KeyboardBindings, MoSlide } from "@/types";
+import { KeyboardActions } from "../../navigation/keyboard";
+
+export type PresenterNavigationAction = "next" | "previous" | "first" | "last";
+
+export type PresenterMessage =
+  | {
+      type: "state";
+      currentSlide: number;
+      totalSlides: number;
+      currentHtml: string;
+      nextHtml: string | null;
+      notesHtml: string | null;
+    }
+  | { type: "navigate"; action: PresenterNavigationAction }
+  | { type: "request-state" };
+
+const PRESENTER_CHANNEL = "mostage-presenter";
+const PRESENTER_WINDOW_NAME = "mostage-presenter";
+const PRESENTER_WINDOW_FEATURES = "width=1100,height=700";
+
+/**
+ * Name a channel for one presentation instance
+ * @param deck - Where the deck comes from, such as its content or config path
+ */
+export function createPresenterChannelName(deck: string): string {
+  const instance = Math.random().toString(36).slice(2, 10);
+  return `${PRESENTER_CHANNEL}:${deck}:${instance}`;
+}
+
+// PresenterChannel - BroadcastChannel with a same-window fallback
+export class PresenterChannel {
+  private static localChannels: Set<PresenterChannel> = new Set();
+  private name: string;
+  private channel: BroadcastChannel | null = null;
+  private onMessage: (message: PresenterMessage) => void;
+
+  constructor(name: string, onMessage: (message: PresenterMessage) => void) {
+    this.name = name;
+    this.onMessage = onMessage;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event: MessageEvent) => {
+        this.onMessage(event.data as PresenterMessage);
+      };
+    } else {
+      PresenterChannel.localChannels.add(this);
+    }
+  }
+
+  post(message: PresenterMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    // Without BroadcastChannel only windows sharing this script can be reached
+    PresenterChannel.localChannels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onMessage(message);
+      }
+    });
+  }
+
+  close(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    PresenterChannel.localChannels.delete(this);
+  }
+}
+
+// PresenterView - renders the presenter layout into a (popup) document
+export class PresenterView {
+  private doc: Document;
+  private root: HTMLElement | null = null;
+  private channel: PresenterChannel;
+  private startTime = Date.now();
+  private timerInterval: number | null = null;
+  private keyboardActions = new KeyboardActions();
+  private keydownHandler = (event: KeyboardEvent) => this.handleKeyboard(event);
+
+  /**
+   * @param channelName - From the PresenterManager that opened the window
+   * @param keyboard - Keys per action name, as in the `keyboard` configuration
+   */
+  constructor(
+    doc: Document,
+    channelName: string,
+    keyboard: KeyboardBindings = {}
+  ) {
+    this.doc = doc;
+    this.channel = new PresenterChannel(channelName, (message) =>
+      this.handleMessage(message)
+    );
+    this.registerKeyboardActions(keyboard);
+  }
+
+  mount(): void {
+    this.copyStyles();
+    this.doc.title = "Mostage - Presenter View";
+    this.doc.body.innerHTML = "";
+
+    this.root = this.doc.createElement("div");
+    this.root.className = "mostage-presenter";
+    this.root.innerHTML = `
+      <div class="mostage-presenter-current">
+        <div class="mostage-presenter-label">Current</div>
+        <div class="mostage-container mostage-presenter-frame"></div>
+      </div>
+      <div class="mostage-presenter-next">
+        <div class="mostage-presenter-label">Next</div>
+        <div class="mostage-container mostage-presenter-frame"></div>
+      </div>
+      <div class="mostage-presenter-notes">
+        <div class="mostage-presenter-label">Notes</div>
+        <div class="mostage-presenter-notes-content"></div>
+      </div>
+      <div class="mostage-presenter-status">
+        <span class="mostage-presenter-progress"></span>
+        <span class="mostage-presenter-elapsed" title="Elapsed time">00:00:00</span>
+        <button class="mostage-presenter-reset" title="Reset timer (R)">Reset</button>
+        <span class="mostage-presenter-clock" title="Current time"></span>
+      </div>
+    `;
+    this.doc.body.appendChild(this.root);
+
+    this.root
+      .querySelector(".mostage-presenter-reset")
+      ?.addEventListener("click", () => this.resetTimer());
+    this.doc.addEventListener("keydown", this.keydownHandler);
+
+    this.startTimer();
+    this.channel.post({ type: "request-state" });
+  }
+
+  resetTimer(): void {
+    this.startTime = Date.now();
+    this.updateTimers();
+  }
+
+  destroy(): void {
+    this.stopTimer();
+    this.doc.removeEventListener("keydown", this.keydownHandler);
+    this.channel.close();
+    this.root?.remove();
+    this.root = null;
+  }
+
+  private handleMessage(message: PresenterMessage): void {
+    if (message.type === "state") {
+      this.render(message);
+    }
+  }
+
+  // The presenter steps through slides in order, so every direction
+  // forwards to the audience window as next or previous
+  private registerKeyboardActions(keyboard: KeyboardBindings): void {
+    const navigate = (action: PresenterNavigationAction) => () =>
+      this.channel.post({ type: "navigate", action });
+
+    [
+      {
+        name: "next",
+        description: "Next slide",
+        keys: ["ArrowRight", "ArrowDown", "PageDown", "Space"],
+        run: navigate("next"),
+      },
+      {
+        name: "prev",
+        description: "Previous slide",
+        keys: ["ArrowLeft", "ArrowUp", "PageUp"],
+        run: navigate("previous"),
+      },
+      {
+        name: "first",
+        description: "First slide",
+        keys: ["Home"],
+        run: navigate("first"),
+      },
+      {
+        name: "last",
+        description: "Last slide",
+        keys: ["End"],
+        run: navigate("last"),
+      },
+      {
+        name: "reset-timer",
+        description: "Reset timer",
+        keys: ["r"],
+        run: () => this.resetTimer(),
+      },
+    ].forEach((action) => this.keyboardActions.register(action));
+    this.keyboardActions.configure(keyboard);
+  }
+
+  private handleKeyboard(event: KeyboardEvent): void {
+    const action = this.keyboardActions.find(event);
+    if (action) {
+      event.preventDefault();
+      action.run();
+    }
+  }
+
+  private render(state: Extract<PresenterMessage, { type: "state" }>): void {
+    if (!this.root) return;
+
+    const [currentFrame, nextFrame] = Array.from(
+      this.root.querySelectorAll<HTMLElement>(".mostage-presenter-frame")
+    );
+    currentFrame.innerHTML = state.currentHtml;
+    nextFrame.innerHTML =
+      state.nextHtml ??
+      '<div class="mostage-presenter-end">End of presentation</div>';
+
+    const notes = this.root.querySelector(
+      ".mostage-presenter-notes-content"
+    ) as HTMLElement;
+    notes.innerHTML =
+      state.notesHtml ??
+      '<p class="mostage-presenter-empty">No notes for this slide</p>';
+
+    const progress = this.root.querySelector(
+      ".mostage-presenter-progress"
+    ) as HTMLElement;
+    progress.textContent = `${state.currentSlide + 1} / ${state.totalSlides}`;
+  }
+
+  // Bring theme and base styles from the audience window into the popup
+  private copyStyles(): void {
+    const opener = this.doc.defaultView?.opener as Window | null;
+    if (!opener || opener.document === this.doc) return;
+
+    opener.document
+      .querySelectorAll('style, link[rel="stylesheet"]')
+      .forEach((node) => {
+        this.doc.head.appendChild(this.doc.importNode(node, true));
+      });
+  }
+
+  private startTimer(): void {
+    this.stopTimer();
+    const view = this.doc.defaultView || window;
+    this.timerInterval = view.setInterval(() => this.updateTimers(), 1000);
+    this.updateTimers();
+  }
+
+  private stopTimer(): void {
+    if (this.timerInterval) {
+      (this.doc.defaultView || window).clearInterval(this.timerInterval);
+      this.timerInterval = null;
+    }
+  }
+
+  private updateTimers(): void {
+    if (!this.root) return;
+
+    const elapsed = Math.floor((Date.now() - this.startTime) / 1000);
+    const hours = Math.floor(elapsed / 3600);
+    const minutes = Math.floor((elapsed % 3600) / 60);
+    const seconds = elapsed % 60;
+    const pad = (value: number) => value.toString().padStart(2, "0");
+
+    const elapsedElement = this.root.querySelector(
+      ".mostage-presenter-elapsed"
+    ) as HTMLElement;
+    elapsedElement.textContent = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+
+    const clockElement = this.root.querySelector(
+      ".mostage-presenter-clock"
+    ) as HTMLElement;
+    clockElement.textContent = new Date().toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+}
+
+// PresenterManager - audience side of the presenter view
+export class PresenterManager {
+  private container: HTMLElement;
+  private slides: MoSlide[] = [];
+  private currentSlideIndex = 0;
+  private channelName: string;
+  private channel: PresenterChannel;
+  private presenterWindow: Window | null = null;
+  private presenterView: PresenterView | null = null;
+  private keyboard: KeyboardBindings = {};
+  private onNavigate: (action: PresenterNavigationAction) => void;
+
+  /**
+   * @param deck - Where the deck comes from; with a random id it names the
+   * channel, so each presentation instance talks only to its own window
+   */
+  constructor(
+    container: HTMLElement,
+    onNavigate: (action: PresenterNavigationAction) => void,
+    deck: string = window.location.pathname
+  ) {
+    this.container = container;
+    this.onNavigate = onNavigate;
+    this.channelName = createPresenterChannelName(deck);
+    this.channel = new PresenterChannel(this.channelName, (message) =>
+      this.handleMessage(message)
+    );
+  }
+
+  setSlides(slides: MoSlide[]): void {
+    this.slides = slides;
+    this.broadcastState();
+  }
+
+  // Keys per action name for presenter windows opened from now on
+  setKeyboardBindings(keyboard: KeyboardBindings): void {
+    this.keyboard = keyboard;
+  }
+
+  setCurrentSlideIndex(index: number): void {
+    this.currentSlideIndex = index;
+    this.broadcastState();
+  }
+
+  togglePresenter(): void {
+    if (this.isPresenterOpen()) {
+      this.closePresenter();
+    } else {
+      this.openPresenter();
+    }
+  }
+
+  isPresenterOpen(): boolean {
+    return !!this.presenterWindow && !this.presenterWindow.closed;
+  }
+
+  openPresenter(): void {
+    if (this.isPresenterOpen()) {
+      this.presenterWindow!.focus();
+      return;
+    }
+
+    // A window per channel, so two decks don't share one popup
+    const popup = window.open(
+      "",
+      `${PRESENTER_WINDOW_NAME}:${this.channelName}`,
+      PRESENTER_WINDOW_FEATURES
+    );
+    if (!popup) {
+      console.warn(
+        "Presenter view could not be opened. Please allow pop-ups for this page."
+      );
+      return;
+    }
+
+    this.presenterWindow = popup;
+    this.presenterView = new PresenterView(
+      popup.document,
+      this.channelName,
+      this.keyboard
+    );
+    this.presenterView.mount();
+    popup.addEventListener("pagehide", () => this.onPresenterClosed());
+  }
+
+  closePresenter(): void {
+    if (this.presenterWindow && !this.presenterWindow.closed) {
+      this.presenterWindow.close();
+    }
+    this.onPresenterClosed();
+  }
+
+  destroy(): void {
+    this.closePresenter();
+    this.channel.close();
+  }
+
+  getChannelName(): string {
+    return this.channelName;
+  }
+
+  private onPresenterClosed(): void {
+    this.presenterView?.destroy();
+    this.presenterView = null;
+    this.presenterWindow = null;
+  }
+
+  private handleMessage(message: PresenterMessage): void {
+    switch (message.type) {
+      case "navigate":
+        this.onNavigate(message.action);
+        break;
+      case "request-state":
+        this.broadcastState();
+        break;
+    }
+  }
+
+  private broadcastState(): void {
+    const slide = this.slides[this.currentSlideIndex];
+    if (!slide) return;
+
+    this.channel.post({
+      type: "state",
+      currentSlide: this.currentSlideIndex,
+      totalSlides: this.slides.length,
+      currentHtml: this.getSlideHtml(this.currentSlideIndex) ?? "",
+      nextHtml: this.getSlideHtml(this.currentSlideIndex + 1),
+      notesHtml: slide.notes?.html ?? null,
+    });
+  }
+
+  // Use the rendered slide so highlighting and backgrounds are preserved
+  private getSlideHtml(index: number): string | null {
+    if (index < 0 || index >= this.slides.length) return null;
+
+    const slideElement =
+      this.container.querySelectorAll<HTMLElement>(".mostage-slide")[index];
+    if (!slideElement) {
+      return `<div class="mostage-slide"><div class="mostage-slide-content">${this.slides[index].html}</div></div>`;
+    }
+
+    const clone = slideElement.cloneNode(true) as HTMLElement;
+    clone.removeAttribute("id");
+    clone.style.display = "block";
+    clone.style.opacity = "1";
+    clone.style.transform = "";
+    clone.style.transition = "";
+    return clone.outerHTML;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ScaleManager } from "./scale";
+
+function setContainerSize(
+  container: HTMLElement,
+  width: number,
+  height: number
+): void {
+  Object.defineProperty(container, "clientWidth", {
+    configurable: true,
+    value: width,
+  });
+  Object.defineProperty(container, "clientHeight", {
+    configurable: true,
+    value: height,
+  });
+}
+
+describe("ScaleManager", () => {
+  let container: HTMLElement;
+  let manager: ScaleManager;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    manager = new ScaleManager(container);
+  });
+
+  afterEach(() => {
+    manager.cleanup();
+    document.body.innerHTML = "";
+  });
+
+  it("should keep slides fluid without a slide size", () => {
+    manager.initialize(null);
+
+    expect(container.classList.contains("mostage-fixed-size")).toBe(false);
+    expect(manager.getScale()).toBe(1);
+  });
+
+  it("should scale the logical size to fit the container", () => {
+    setContainerSize(container, 960, 1080);
+    manager.initialize({ width: 1920, height: 1080 });
+
+    expect(container.classList.contains("mostage-fixed-size")).toBe(true);
+    expect(container.style.getPropertyValue("--mostage-slide-width")).toBe(
+      "1920px"
+    );
+    expect(manager.getScale()).toBe(0.5);
+    expect(container.style.getPropertyValue("--mostage-slide-scale")).toBe(
+      "0.5"
+    );
+  });
+
+  it("should rescale when the window is resized", () => {
+    setContainerSize(container, 1920, 1080);
+    manager.initialize({ width: 1920, height: 1080 });
+    expect(manager.getScale()).toBe(1);
+
+    setContainerSize(container, 1920, 540);
+    window.dispatchEvent(new Event("resize"));
+
+    expect(manager.getScale()).toBe(0.5);
+  });
+
+  it("should give a collapsed embedded container the slide aspect ratio", () => {
+    setContainerSize(container, 800, 0);
+    manager.initialize({ width: 1600, height: 900 }, true);
+
+    expect(container.style.aspectRatio).toBe("1600 / 900");
+    expect(manager.getScale()).toBe(0.5);
+
+    manager.cleanup();
+    expect(container.style.aspectRatio).toBe("");
+    expect(container.classList.contains("mostage-fixed-size")).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { MoSlideSize } from "@/types";
+
+/**
+ * Scale Manager
+ *
+ * Lays slides out at a fixed logical size and scales them to fit the
+ * container, letterboxing whatever space is left. The size and scale are
+ * exposed as CSS custom properties on the container, so re-rendering the
+ * slides keeps the layout.
+ */
+export class ScaleManager {
+  private container: HTMLElement;
+  private slideSize: MoSlideSize | null = null;
+  private scale = 1;
+  private embedded = false;
+  private autoHeight = false;
+  private resizeObserver: ResizeObserver | null = null;
+  private resizeHandler = () => this.update();
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  /**
+   * Apply a fixed slide size, or restore fluid slides when size is null
+   * @param size - Logical slide size in pixels
+   * @param embedded - Whether the container is embedded in a page, in which
+   * case a container without its own height takes the slides' aspect ratio
+   */
+  initialize(size: MoSlideSize | null, embedded: boolean = false): void {
+    this.cleanup();
+    this.slideSize = size;
+    this.embedded = embedded;
+
+    if (!size) return;
+
+    this.container.classList.add("mostage-fixed-size");
+    this.container.style.setProperty(
+      "--mostage-slide-width",
+      `${size.width}px`
+    );
+    this.container.style.setProperty(
+      "--mostage-slide-height",
+      `${size.height}px`
+    );
+
+    if (typeof ResizeObserver !== "undefined") {
+      this.resizeObserver = new ResizeObserver(this.resizeHandler);
+      this.resizeObserver.observe(this.container);
+    } else {
+      window.addEventListener("resize", this.resizeHandler);
+    }
+
+    this.update();
+  }
+
+  getSlideSize(): MoSlideSize | null {
+    return this.slideSize;
+  }
+
+  getScale(): number {
+    return this.scale;
+  }
+
+  /**
+   * Recalculate the scale from the current container size
+   */
+  update(): void {
+    if (!this.slideSize) return;
+
+    const { width, height } = this.slideSize;
+
+    // An embedded container whose parent has no height would collapse,
+    // so let it grow to the slides' aspect ratio instead
+    if (this.embedded && this.container.clientHeight === 0) {
+      this.autoHeight = true;
+      this.container.style.height = "auto";
+      this.container.style.aspectRatio = `${width} / ${height}`;
+    }
+
+    const containerWidth = this.container.clientWidth;
+    const containerHeight = this.container.clientHeight;
+    if (containerWidth === 0) return;
+
+    this.scale =
+      containerHeight > 0
+        ? Math.min(containerWidth / width, containerHeight / height)
+        : containerWidth / width;
+    this.container.style.setProperty(
+      "--mostage-slide-scale",
+      String(this.scale)
+    );
+  }
+
+  cleanup(): void {
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect();
+      this.resizeObserver = null;
+    }
+    window.removeEventListener("resize", this.resizeHandler);
+
+    this.container.classList.remove("mostage-fixed-size");
+    ["width", "height", "scale"].forEach((property) =>
+      this.container.style.removeProperty(`--mostage-slide-${property}`)
+    );
+    this.scale = 1;
+
+    if (this.autoHeight) {
+      this.autoHeight = false;
+      this.container.style.height = "100%";
+      this.container.style.aspectRatio = "";
+    }
+  }
+}
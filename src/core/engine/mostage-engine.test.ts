@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Mostage } from "./mostage-engine";
 import { MoConfig, MostageTestAccess } from "../types";
+import { DiagramRenderer } from "../utils/diagram";
+import { TransitionManager } from "../components/navigation/transition";
+import { ScaleManager } from "../components/ui/scale/scale";
 
 // Mock dependencies
 vi.mock("../services/content-service", () => ({
@@ -14,7 +17,15 @@ vi.mock("../services/content-service", () => ({
     loadContentFromSource: vi.fn(() =>
       Promise.resolve("# Test Slide\n\nThis is a test slide.")
     ),
+    loadSource: vi.fn(() =>
+      Promise.resolve("# Test Slide\n\nThis is a test slide.")
+    ),
+    resolveIncludes: vi.fn((content) => Promise.resolve(content)),
     parseMarkdownToHtml: vi.fn((content) => `<h1>${content}</h1>`),
+    extractFrontMatter: vi.fn((content) => ({ data: null, body: content })),
+    registerLayout: vi.fn(),
+    registerMarkdownExtension: vi.fn(),
+    addSlideHooks: vi.fn(),
     clearCache: vi.fn(),
   })),
 }));
@@ -41,10 +52,12 @@ vi.mock("../services/navigation-service", () => ({
     getTotalSlides: vi.fn(() => 1),
     setSlides: vi.fn(),
     setCurrentSlideIndex: vi.fn(),
+    getNeighbourIndex: vi.fn(() => -1),
     enableTouch: vi.fn(),
     disableTouch: vi.fn(),
     enableKeyboard: vi.fn(),
     disableKeyboard: vi.fn(),
+    configureKeyboard: vi.fn(),
     destroy: vi.fn(),
   })),
 }));
@@ -53,12 +66,17 @@ vi.mock("../components/navigation/transition");
 vi.mock("../components/ui/overview/overview");
 vi.mock("../components/ui/help/help");
 vi.mock("../components/ui/center/center");
+vi.mock("../components/ui/presenter/presenter");
+vi.mock("../components/ui/scale/scale");
 vi.mock("../components/navigation/url-hash");
+vi.mock("../components/navigation/fragments");
+vi.mock("../utils/diagram");
 vi.mock("../utils/syntax-highlighter", () => ({
   SyntaxHighlighter: {
     getInstance: vi.fn(() => ({
       highlightAll: vi.fn(),
       highlightCode: vi.fn((code) => code),
+      updateConfig: vi.fn(),
     })),
   },
 }));
@@ -191,6 +209,43 @@ describe("Mostage Engine", () => {
     });
   });
 
+  describe("whenReady()", () => {
+    it("should resolve after the presentation has started", async () => {
+      const mostage = new Mostage(config);
+      const readySpy = vi.fn();
+      mostage.whenReady().then(readySpy);
+
+      await mostage.start();
+      await mostage.whenReady();
+      expect(readySpy).toHaveBeenCalled();
+    });
+
+    it("should resolve when an asset fails to load", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.mocked(DiagramRenderer.prototype.render).mockRejectedValueOnce(
+        new Error("Diagram library failed")
+      );
+      const mostage = new Mostage(config);
+
+      await mostage.start();
+      await expect(mostage.whenReady()).resolves.toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Some assets failed to load or render:",
+        expect.any(Error)
+      );
+      warnSpy.mockRestore();
+      mostage.destroy();
+    });
+
+    it("should reject when the presentation fails to start", async () => {
+      const noContentConfig = { ...config, content: undefined };
+      const mostage = new Mostage(noContentConfig);
+
+      await expect(mostage.start()).rejects.toThrow();
+      await expect(mostage.whenReady()).rejects.toThrow("No content provided");
+    });
+  });
+
   describe("Navigation", () => {
     let mostage: Mostage;
 
@@ -219,6 +274,11 @@ describe("Mostage Engine", () => {
       expect(mostage.getCurrentSlide()).toBe(0);
     });
 
+    it("should return a promise from goToSlide", async () => {
+      const current = mostage.getCurrentSlide();
+      await expect(mostage.goToSlide(current)).resolves.toBeUndefined();
+    });
+
     it("should not navigate beyond slide bounds", () => {
       const totalSlides = mostage.getTotalSlides();
       mostage.goToSlide(totalSlides + 1);
@@ -326,6 +386,252 @@ describe("Mostage Engine", () => {
     });
   });
 
+  describe("Keyboard Shortcuts", () => {
+    const press = (mostage: Mostage, key: string) =>
+      (mostage as unknown as MostageTestAccess).handleKeyboard(
+        new KeyboardEvent("keydown", { key })
+      );
+
+    it("should run registered actions with their configured keys", async () => {
+      const mostage = new Mostage({ ...config, keyboard: { confetti: "x" } });
+      const run = vi.fn();
+      mostage.registerKeyboardAction({
+        name: "confetti",
+        description: "Confetti",
+        keys: ["c"],
+        run,
+      });
+      await mostage.start();
+
+      press(mostage, "c");
+      expect(run).not.toHaveBeenCalled();
+      press(mostage, "x");
+      expect(run).toHaveBeenCalledTimes(1);
+      mostage.destroy();
+    });
+
+    it("should leave turned off shortcuts to the browser", async () => {
+      const mostage = new Mostage({ ...config, keyboard: { overview: false } });
+      await mostage.start();
+      const toggleSpy = vi.spyOn(mostage, "toggleOverview");
+
+      press(mostage, "o");
+      expect(toggleSpy).not.toHaveBeenCalled();
+      mostage.destroy();
+    });
+  });
+
+  describe("Live Editor", () => {
+    it("should open the editor with the presentation's markdown", async () => {
+      const mostage = new Mostage(config);
+      await mostage.start();
+      mostage.toggleEditor();
+
+      expect(
+        (document.querySelector(".mostage-editor-input") as HTMLTextAreaElement)
+          .value
+      ).toBe(config.content);
+      mostage.destroy();
+      expect(document.querySelector(".mostage-editor")).toBeNull();
+    });
+
+    it("should edit the markdown as written, with its includes", async () => {
+      const mostage = new Mostage({
+        ...config,
+        content: undefined,
+        contentPath: "talk/content.md",
+      });
+      const { loadSource, resolveIncludes, parseContent } = (mostage as any)
+        .contentService;
+      loadSource.mockResolvedValue("# Intro\n<!-- include: ./part.md -->");
+      resolveIncludes.mockImplementation(async (markdown: string) =>
+        markdown.replace("<!-- include: ./part.md -->", "# Part")
+      );
+      await mostage.start();
+      mostage.toggleEditor();
+
+      expect(
+        (document.querySelector(".mostage-editor-input") as HTMLTextAreaElement)
+          .value
+      ).toBe("# Intro\n<!-- include: ./part.md -->");
+
+      await mostage.updateContent("# Edited\n<!-- include: ./part.md -->");
+      expect(resolveIncludes).toHaveBeenLastCalledWith(
+        "# Edited\n<!-- include: ./part.md -->",
+        "talk/content.md"
+      );
+      expect(parseContent).toHaveBeenLastCalledWith("# Edited\n# Part");
+      mostage.destroy();
+    });
+
+    it("should apply the front matter of edited markdown", async () => {
+      const mostage = new Mostage(config);
+      await mostage.start();
+      (mostage as any).contentService.extractFrontMatter.mockReturnValueOnce({
+        data: { title: "Edited Deck" },
+        body: "# Slide",
+      });
+
+      await mostage.updateContent("---\ntitle: Edited Deck\n---\n# Slide");
+
+      expect(document.title).toBe("Edited Deck");
+      mostage.destroy();
+    });
+
+    it("should rebuild what edited front matter settings change", async () => {
+      const mostage = new Mostage({ ...config, footer: { content: "Old" } });
+      await mostage.start();
+      const slideElement = container.querySelector(".mostage-slide");
+      vi.mocked(TransitionManager).mockClear();
+      const scaleManager = vi.mocked(ScaleManager).mock.instances.at(-1)!;
+      vi.mocked(scaleManager.initialize).mockClear();
+      (mostage as any).contentService.extractFrontMatter.mockReturnValueOnce({
+        data: {
+          transition: { type: "fade" },
+          aspectRatio: "4:3",
+          footer: { content: "New" },
+        },
+        body: "# Slide",
+      });
+
+      await mostage.updateContent("---\ntransition: fade\n---\n# Slide");
+
+      expect(TransitionManager).toHaveBeenCalledWith(
+        container,
+        expect.objectContaining({ type: "fade" })
+      );
+      expect(scaleManager.initialize).toHaveBeenCalledWith(
+        { width: 1920, height: 1440 },
+        true
+      );
+      const footers = container.querySelectorAll(".mostage-footer");
+      expect(footers.length).toBe(1);
+      expect(footers[0].innerHTML).toBe("New");
+      expect(footers[0].nextElementSibling?.className).toBe("mostage-slides");
+      expect(container.querySelector(".mostage-slide")).toBe(slideElement);
+      mostage.destroy();
+    });
+
+    it("should reject edits whose includes can't be loaded", async () => {
+      const mostage = new Mostage({
+        ...config,
+        content: undefined,
+        contentPath: "content.md",
+      });
+      await mostage.start();
+      const { resolveIncludes } = (mostage as any).contentService;
+      resolveIncludes.mockRejectedValueOnce(new Error("Missing part.md"));
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        mostage.updateContent("<!-- include: ./part.md -->")
+      ).rejects.toThrow("Missing part.md");
+      expect(container.querySelectorAll(".mostage-slide").length).toBe(1);
+      errorSpy.mockRestore();
+      mostage.destroy();
+    });
+
+    it("should open the editor on start when configured", async () => {
+      const mostage = new Mostage({ ...config, editor: { open: true } });
+      await mostage.start();
+
+      expect(container.classList.contains("mostage-editor-open")).toBe(true);
+      mostage.destroy();
+    });
+  });
+
+  describe("Content Updates", () => {
+    const slide = (id: string, html: string) => ({ id, content: html, html });
+
+    it("should only rebuild the slides that changed", async () => {
+      const mostage = new Mostage(config);
+      const { parseContent } = (mostage as any).contentService;
+      parseContent.mockReturnValue([
+        slide("slide-0", "<h1>A</h1>"),
+        slide("slide-1", "<h1>B</h1>"),
+        slide("slide-2", "<h1>C</h1>"),
+      ]);
+      await mostage.start();
+      const [first, , third] = container.querySelectorAll(".mostage-slide");
+
+      parseContent.mockReturnValue([
+        slide("slide-0", "<h1>A</h1>"),
+        slide("slide-1", "<h1>New</h1>"),
+        slide("slide-2", "<h1>B</h1>"),
+        slide("slide-3", "<h1>C</h1>"),
+      ]);
+      const onUpdate = vi.fn();
+      mostage.on("contentupdate", onUpdate);
+      await mostage.updateContent("# A\n---\n# New\n---\n# B\n---\n# C");
+
+      const elements = container.querySelectorAll(".mostage-slide");
+      expect(elements.length).toBe(4);
+      expect(elements[0]).toBe(first);
+      expect(elements[1].textContent).toBe("New");
+      expect(elements[3]).toBe(third);
+      expect(elements[3].id).toBe("mostage-slide-slide-3");
+      expect(onUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ totalSlides: 4 })
+      );
+      mostage.destroy();
+    });
+
+    it("should keep plugins running through content updates", async () => {
+      const mostage = new Mostage(config);
+      await mostage.start();
+      const plugin = { name: "Test", init: vi.fn(), destroy: vi.fn() };
+      (mostage as any).plugins.push(plugin);
+
+      await mostage.updateContent("# Updated");
+
+      expect(plugin.destroy).not.toHaveBeenCalled();
+      expect(plugin.init).not.toHaveBeenCalled();
+      mostage.destroy();
+    });
+  });
+
+  describe("Source Lines", () => {
+    const slides = [
+      {
+        id: "slide-0",
+        content: "# A",
+        html: "",
+        source: { file: "talk.md", startLine: 1, endLine: 3 },
+      },
+      {
+        id: "slide-1",
+        content: "# B",
+        html: "",
+        source: { file: "part.md", startLine: 1, endLine: 9 },
+      },
+      {
+        id: "slide-2",
+        content: "# C",
+        html: "",
+        source: { file: "talk.md", startLine: 7, endLine: 12 },
+      },
+    ];
+
+    it("should go to the slide written at a line", async () => {
+      const mostage = new Mostage({ ...config, contentPath: "talk.md" });
+      (mostage as any).contentService.parseContent.mockReturnValue(slides);
+      await mostage.start();
+      const goToSlide = vi.spyOn(mostage, "goToSlide");
+
+      await mostage.goToLine(5);
+      expect(goToSlide).toHaveBeenLastCalledWith(2);
+
+      await mostage.goToLine(2, "part.md");
+      expect(goToSlide).toHaveBeenLastCalledWith(1);
+
+      await mostage.goToLine(40);
+      expect(goToSlide).toHaveBeenLastCalledWith(2);
+
+      expect(mostage.getSlideSource(1)).toEqual(slides[1].source);
+      mostage.destroy();
+    });
+  });
+
   describe("Cleanup", () => {
     let mostage: Mostage;
 
@@ -385,6 +691,19 @@ describe("Mostage Engine", () => {
       );
     });
 
+    it("should keep dollar amounts in the footer as text", async () => {
+      const mostage = new Mostage({
+        ...config,
+        footer: { content: "Tickets: $5" },
+      });
+      await mostage.start();
+
+      expect(container.querySelector(".mostage-footer")?.innerHTML).toBe(
+        "Tickets: $5"
+      );
+      mostage.destroy();
+    });
+
     it("should load header from file when contentPath is provided", async () => {
       const headerConfig = { ...config, header: { contentPath: "header.md" } };
       const mostage = new Mostage(headerConfig);
@@ -393,6 +712,56 @@ describe("Mostage Engine", () => {
     });
   });
 
+  describe("Safe Mode", () => {
+    it("should sanitize the header and report what was removed", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const mostage = new Mostage({
+        ...config,
+        header: { content: '<img src="logo.png" onerror="alert(1)">' },
+        security: { sanitize: true },
+      });
+      await mostage.start();
+
+      expect(container.querySelector(".mostage-header")!.innerHTML).toBe(
+        '<img src="logo.png">'
+      );
+      expect(mostage.getSecurityReport()).toEqual([
+        "Safe mode removed from the header: onerror on <img>",
+      ]);
+      warnSpy.mockRestore();
+    });
+
+    it("should sanitize diagram SVG and report what was removed", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const mostage = new Mostage({ ...config, security: { sanitize: true } });
+      await mostage.start();
+
+      const renderer = vi.mocked(DiagramRenderer).mock.instances.at(-1)!;
+      const sanitize = vi.mocked(renderer.setSanitizer).mock.calls[0][0]!;
+
+      expect(
+        sanitize('<svg><a href="javascript:alert(1)"><text>x</text></a></svg>')
+      ).toBe("<svg><a><text>x</text></a></svg>");
+      expect(mostage.getSecurityReport()).toEqual([
+        "Safe mode removed from a diagram: javascript: URL in <a href>",
+      ]);
+      warnSpy.mockRestore();
+    });
+
+    it("should leave HTML untouched when safe mode is off", async () => {
+      const mostage = new Mostage({
+        ...config,
+        header: { content: '<img src="logo.png" onerror="alert(1)">' },
+      });
+      await mostage.start();
+
+      expect(container.querySelector(".mostage-header")!.innerHTML).toContain(
+        "onerror"
+      );
+      expect(mostage.getSecurityReport()).toEqual([]);
+    });
+  });
+
   describe("Scaling", () => {
     it("should apply scale transformation when scale is not 1.0", async () => {
       const scaleConfig = { ...config, scale: 0.8 };
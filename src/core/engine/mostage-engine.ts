@@ -1,20 +1,44 @@
 // Import types from centralized type definitions
 import { SyntaxHighlighter } from "../utils/syntax-highlighter";
+import { DiagramRenderer } from "../utils/diagram";
+import { resolveSlideSize } from "../utils/slide-size";
+import { HtmlSanitizer } from "../utils/sanitizer";
+import { hasMath } from "../utils/math";
+import { getSlideElementId } from "../utils/slide-ids";
 import { plugins } from "../services/plugin-service";
 import { loadTheme } from "../services/theme-service";
 import { ContentService } from "../services/content-service";
-import { NavigationService } from "../services/navigation-service";
+import { ConfigService } from "../services/config-service";
+import {
+  NavigationService,
+  NavigationDirection,
+} from "../services/navigation-service";
 import { TransitionManager } from "../components/navigation/transition";
+import { FragmentManager } from "../components/navigation/fragments";
 import { OverviewManager } from "../components/ui/overview/overview";
 import { HelpManager } from "../components/ui/help/help";
 import { CenterContentManager } from "../components/ui/center/center";
+import {
+  PresenterManager,
+  PresenterNavigationAction,
+} from "../components/ui/presenter/presenter";
+import { ScaleManager } from "../components/ui/scale/scale";
+import { EditorManager } from "../components/ui/editor/editor";
 import { UrlHashManager } from "../components/navigation/url-hash";
+import {
+  KeyboardActions,
+  createNavigationActions,
+} from "../components/navigation/keyboard";
+import type { MarkedExtension } from "marked";
 import {
   MoConfig,
   MoSlide,
   MoPlugin,
   MoSlideEvent,
+  MoSlideSource,
   MostageInstance,
+  KeyboardAction,
+  SlideParseHooks,
   TransitionConfig,
 } from "@/types";
 
@@ -44,19 +68,35 @@ export class Mostage implements MostageInstance {
   private config: MoConfig;
   private container: HTMLElement;
   private slides: MoSlide[] = [];
+  private source = ""; // Markdown the slides were parsed from, as written
+  private sourcePath: string | null = null; // File the markdown was loaded from, includes resolve against it
   private currentSlideIndex = 0;
   private plugins: MoPlugin[] = [];
+  private pluginConfigs = new Map<MoPlugin, unknown>();
   private syntaxHighlighter: SyntaxHighlighter;
+  private diagramRenderer: DiagramRenderer;
+  private diagramsRendered: Promise<void> = Promise.resolve();
+  private sanitizer: HtmlSanitizer | null = null;
+  private securityReport: string[] = [];
 
   // Enhanced Services
   private contentService: ContentService;
+  private configService: ConfigService;
   private navigationService: NavigationService;
   private transitionManager!: TransitionManager;
+  private fragmentManager!: FragmentManager;
   private overviewManager: OverviewManager;
   private helpManager: HelpManager;
   private centerContentManager: CenterContentManager;
+  private presenterManager: PresenterManager;
+  private scaleManager: ScaleManager;
+  private editorManager: EditorManager;
   private urlHashManager!: UrlHashManager;
+  private keyboardActions: KeyboardActions = new KeyboardActions();
   private eventListeners: Map<string, Function[]> = new Map();
+  private readyPromise: Promise<void>;
+  private resolveReady!: () => void;
+  private rejectReady!: (error: unknown) => void;
 
   /**
    * Creates a new Mostage presentation instance
@@ -66,6 +106,14 @@ export class Mostage implements MostageInstance {
    * @throws {ConfigValidationError} When configuration is invalid
    */
   constructor(config: MoConfig | string) {
+    // Settles once start() has rendered the slides and loaded their assets
+    this.readyPromise = new Promise<void>((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+    // start() reports its own errors, so an unobserved rejection is expected
+    this.readyPromise.catch(() => {});
+
     // Handle string input (JSON file path)
     if (typeof config === "string") {
       this.config = {
@@ -120,6 +168,7 @@ export class Mostage implements MostageInstance {
     }
 
     this.syntaxHighlighter = SyntaxHighlighter.getInstance();
+    this.diagramRenderer = new DiagramRenderer();
     this.container = this.resolveElement(this.config.element || document.body);
     this.container.classList.add("mostage-container");
 
@@ -128,11 +177,16 @@ export class Mostage implements MostageInstance {
 
     // Initialize services
     this.contentService = new ContentService();
+    this.configService = new ConfigService();
     this.navigationService = new NavigationService(
       this.container,
-      this.config.keyboard || false,
+      !!this.config.keyboard,
       this.config.touch || false,
-      (index: number) => this.goToSlide(index)
+      (index: number) => this.goToSlide(index),
+      {
+        next: () => this.nextSlide(),
+        navigate: (direction: NavigationDirection) => this.navigate(direction),
+      }
     );
 
     // Initialize managers
@@ -142,11 +196,73 @@ export class Mostage implements MostageInstance {
       () => this.onExitOverview(),
       () => this.onEnterOverview()
     );
-    this.helpManager = new HelpManager(this.container);
+    this.helpManager = new HelpManager(this.container, () =>
+      this.keyboardActions.getHelpSections()
+    );
     this.centerContentManager = new CenterContentManager(this.container);
+    this.presenterManager = new PresenterManager(
+      this.container,
+      (action: PresenterNavigationAction) => this.onPresenterNavigate(action),
+      this.config.contentPath ||
+        this.config.configPath ||
+        window.location.pathname
+    );
+    this.scaleManager = new ScaleManager(this.container);
+    this.editorManager = new EditorManager(this.container, {
+      getMarkdown: () => this.source,
+      getCursorOffset: (markdown: string) => this.getSlideOffset(markdown),
+      onChange: (markdown: string) => this.updateContent(markdown),
+      onCursorMove: (markdown: string, offset: number) =>
+        this.showSlideAt(markdown, offset),
+    });
 
     // Initialize config-dependent managers
     this.initializeConfigDependentManagers();
+    this.registerBuiltInKeyboardActions();
+  }
+
+  /**
+   * Register the built-in shortcuts; the keyboard config can remap them
+   */
+  private registerBuiltInKeyboardActions(): void {
+    const actions: KeyboardAction[] = createNavigationActions({
+      navigate: (direction) => this.navigate(direction),
+      advance: () => this.nextSlide(),
+      first: () => this.goToSlide(0),
+      last: () => this.goToSlide(this.slides.length - 1),
+    });
+
+    actions.push(
+      ...[
+        {
+          name: "overview",
+          description: "Overview mode",
+          keys: ["o", "Escape"],
+          run: () => this.toggleOverview(),
+        },
+        {
+          name: "presenter",
+          description: "Presenter view",
+          keys: ["p"],
+          run: () => this.togglePresenter(),
+        },
+        {
+          name: "help",
+          description: "Help",
+          keys: ["h", "?"],
+          run: () => this.helpManager.toggleHelp(),
+        },
+        {
+          name: "editor",
+          description: "Live editor",
+          keys: ["e"],
+          run: () => this.toggleEditor(),
+          isEnabled: () => this.editorManager.isEnabled(),
+        },
+      ].map((action) => ({ ...action, group: "Modes" }))
+    );
+
+    actions.forEach((action) => this.keyboardActions.register(action));
   }
 
   /**
@@ -172,6 +288,31 @@ export class Mostage implements MostageInstance {
     }
   }
 
+  /**
+   * Lay slides out at the fixed logical size from width, height or
+   * aspectRatio and scale them to fit the container
+   */
+  private applySlideSize(): void {
+    const slideSize = resolveSlideSize(this.config);
+    const isEmbedded = this.container !== document.body;
+
+    this.scaleManager.initialize(slideSize, isEmbedded);
+    this.overviewManager.setSlideSize(slideSize);
+  }
+
+  // The settings managers, the slide size and the header and footer are
+  // built from, to tell which of them a front matter edit changed
+  private getRenderSettings(): Record<string, string> {
+    const { transition, fragments, urlHash, width, height, aspectRatio } =
+      this.config;
+    return {
+      managers: JSON.stringify([transition, fragments, urlHash]),
+      fragments: JSON.stringify(fragments),
+      slideSize: JSON.stringify([width, height, aspectRatio]),
+      headerFooter: JSON.stringify([this.config.header, this.config.footer]),
+    };
+  }
+
   /**
    * Initialize managers that depend on configuration values
    */
@@ -180,9 +321,13 @@ export class Mostage implements MostageInstance {
       this.container,
       this.config.transition as TransitionConfig
     );
+    this.fragmentManager = new FragmentManager(
+      this.container,
+      this.config.fragments !== false
+    );
     this.urlHashManager = new UrlHashManager(
       this.config.urlHash || false,
-      (index: number) => this.goToSlide(index)
+      (index: number, fragment: number) => this.goToSlide(index, fragment)
     );
   }
 
@@ -223,6 +368,19 @@ export class Mostage implements MostageInstance {
     }
   }
 
+  /**
+   * Deep-merges front-matter settings over the current configuration
+   * @param frontMatter - Settings from the YAML block at the top of the content
+   * @throws {ConfigValidationError} When the merged configuration is invalid
+   */
+  private applyFrontMatter(frontMatter: Record<string, unknown>): void {
+    this.config = this.configService.validateAndMerge(this.config, frontMatter);
+
+    if (this.config.title) {
+      document.title = this.config.title;
+    }
+  }
+
   /**
    * Initializes and starts the presentation
    *
@@ -246,27 +404,55 @@ export class Mostage implements MostageInstance {
         await this.loadConfigFromFile(this.config.configPath);
       }
 
-      // Load theme
-      if (this.config.theme) {
-        await loadTheme(this.config.theme);
-      }
-
-      // Load content using enhanced service
-      let content: string;
+      // Load the markdown as written; its includes are resolved below
+      let source: string;
 
       if (this.config.content) {
-        content = this.config.content;
+        source = this.config.content;
       } else if (this.config.contentPath) {
-        content = await this.contentService.loadContentFromSource(
-          this.config.contentPath
-        );
+        source = await this.contentService.loadSource(this.config.contentPath);
+        this.sourcePath = this.config.contentPath;
       } else {
         throw new Error(
           "No content provided. Please specify content or contentPath."
         );
       }
 
-      this.slides = this.contentService.parseContent(content);
+      // Settings in the content's front matter override the configuration
+      const content = await this.resolveSource(source);
+      const { data: frontMatter } =
+        this.contentService.extractFrontMatter(content);
+      if (frontMatter) {
+        this.applyFrontMatter(frontMatter);
+        this.initializeConfigDependentManagers();
+      }
+
+      // Load theme
+      if (this.config.theme) {
+        await loadTheme(this.config.theme);
+      }
+
+      // Custom layouts must be known before the slides are parsed
+      this.registerLayouts();
+
+      // Plugins add their markdown syntax and slide hooks before parsing
+      this.loadPlugins();
+
+      // Safe mode cleans all HTML that comes from the content
+      if (this.config.security?.sanitize) {
+        this.sanitizer = new HtmlSanitizer(this.config.security);
+        this.diagramRenderer.setSanitizer((svg) =>
+          this.sanitizeHtml(svg, "a diagram", "svg")
+        );
+      }
+
+      this.slides = this.sanitizeSlides(
+        this.contentService.parseContent(content)
+      );
+      this.source = source;
+
+      // Apply the fixed slide size, if configured
+      this.applySlideSize();
 
       // Initialize center content if configured
       this.centerContentManager.initialize(this.config.centerContent || null);
@@ -279,16 +465,26 @@ export class Mostage implements MostageInstance {
       }
 
       // Setup keyboard event listener for overview and help
+      if (typeof this.config.keyboard === "object") {
+        this.keyboardActions.configure(this.config.keyboard);
+        this.navigationService.configureKeyboard(this.config.keyboard);
+        this.overviewManager.setKeyboardBindings(this.config.keyboard);
+        this.presenterManager.setKeyboardBindings(this.config.keyboard);
+      }
       if (this.config.keyboard) {
         document.addEventListener("keydown", this.handleKeyboard.bind(this));
       }
 
       // Setup URL hash navigation if enabled
+      this.urlHashManager.setSlides(this.slides);
       this.urlHashManager.setupUrlHashNavigation();
+      // Links such as [setup](#setup) go to slides inside the deck
+      this.urlHashManager.setupAnchorLinks(this.container);
 
       // Determine target slide before rendering
       const urlSlide = this.urlHashManager.getInitialSlideFromUrl();
       const targetSlide = urlSlide !== 0 ? urlSlide : globalCurrentSlideIndex;
+      const targetFragment = this.urlHashManager.getInitialFragmentFromUrl();
 
       // Set current slide index before rendering
       this.currentSlideIndex = targetSlide;
@@ -298,10 +494,19 @@ export class Mostage implements MostageInstance {
 
       // Show the target slide without transition
       this.transitionManager.showSlide(targetSlide);
+      this.fragmentManager.showStep(targetSlide, targetFragment);
+
+      this.overviewManager.setSlides(this.slides);
+
+      // Sync presenter view with the rendered slides
+      this.presenterManager.setSlides(this.slides);
+      this.presenterManager.setCurrentSlideIndex(targetSlide);
 
       // Initialize plugins AFTER DOM is ready
       this.initializePlugins();
 
+      this.editorManager.initialize(this.config.editor || null);
+
       this.emit("ready", {
         type: "ready",
         currentSlide: this.currentSlideIndex,
@@ -310,12 +515,83 @@ export class Mostage implements MostageInstance {
 
       // Show initial help with auto-hide after 5 seconds
       this.helpManager.showInitialHelp();
+
+      // An asset that fails to load leaves a gap, not a presentation that
+      // never becomes ready
+      this.waitForAssets()
+        .catch((error) =>
+          console.warn("Some assets failed to load or render:", error)
+        )
+        .then(() => this.resolveReady());
     } catch (error) {
       console.error("Failed to start Mostage:", error);
+      this.rejectReady(error);
       throw error;
     }
   }
 
+  /**
+   * Resolves once the presentation is fully rendered
+   *
+   * Unlike the `ready` event, which fires as soon as the slides are in the
+   * DOM, this waits for diagrams, web fonts, images and slide backgrounds.
+   * Headless consumers such as exports use it instead of timing delays.
+   *
+   * @returns A promise that resolves when the presentation can be captured,
+   * also when some of its assets failed to load, or rejects when start()
+   * fails
+   *
+   * @example
+   * ```typescript
+   * presentation.start();
+   * await presentation.whenReady();
+   * ```
+   */
+  whenReady(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  /**
+   * Waits for diagrams to render, for fonts, images and slide background
+   * images to load and for the browser to paint the result
+   */
+  private async waitForAssets(): Promise<void> {
+    await this.diagramsRendered;
+
+    const loadImage = (image: HTMLImageElement) =>
+      new Promise<void>((resolve) => {
+        image.addEventListener("load", () => resolve(), { once: true });
+        image.addEventListener("error", () => resolve(), { once: true });
+      });
+
+    const images = Array.from(this.container.querySelectorAll("img")).filter(
+      (image) => !image.complete
+    );
+    const backgroundUrls = Array.from(
+      this.container.querySelectorAll<HTMLElement>(".mostage-slide")
+    )
+      .map(
+        (slide) =>
+          slide.style.backgroundImage.match(/url\(["']?(.*?)["']?\)/)?.[1]
+      )
+      .filter((url): url is string => !!url);
+
+    await Promise.all([
+      document.fonts?.ready,
+      ...images.map(loadImage),
+      ...backgroundUrls.map((url) => {
+        const image = new Image();
+        const loaded = loadImage(image);
+        image.src = url;
+        return loaded;
+      }),
+    ]);
+
+    await new Promise<void>((resolve) =>
+      requestAnimationFrame(() => resolve())
+    );
+  }
+
   private resolveElement(element: string | HTMLElement): HTMLElement {
     if (typeof element === "string") {
       const found = document.querySelector(element) as HTMLElement;
@@ -327,7 +603,7 @@ export class Mostage implements MostageInstance {
     return element;
   }
 
-  private initializePlugins(): void {
+  private loadPlugins(): void {
     if (!this.config.plugins) return;
 
     Object.entries(this.config.plugins).forEach(
@@ -351,19 +627,30 @@ export class Mostage implements MostageInstance {
             return;
           }
 
-          // Set enabled state and initialize
+          // Set enabled state and let the plugin extend the markdown
           if (pluginInstance.setEnabled) {
             pluginInstance.setEnabled(true);
           }
-          pluginInstance.init(this, finalConfig);
+          pluginInstance.extendMarkdown?.(this, finalConfig);
           this.plugins.push(pluginInstance);
+          this.pluginConfigs.set(pluginInstance, finalConfig);
         } catch (error) {
-          console.error(`Failed to initialize plugin "${pluginName}":`, error);
+          console.error(`Failed to load plugin "${pluginName}":`, error);
         }
       }
     );
   }
 
+  private initializePlugins(): void {
+    this.plugins.forEach((plugin) => {
+      try {
+        plugin.init(this, this.pluginConfigs.get(plugin));
+      } catch (error) {
+        console.error(`Failed to initialize plugin "${plugin.name}":`, error);
+      }
+    });
+  }
+
   private handleKeyboard(event: KeyboardEvent): void {
     // Check if focus is on an input element (textarea, input, contenteditable)
     const activeElement = document.activeElement as HTMLElement;
@@ -385,79 +672,10 @@ export class Mostage implements MostageInstance {
       return;
     }
 
-    const key = event.key;
-    const keyLower = key.toLowerCase();
-
-    // Navigation keys
-    if (this.isNavigationKey(key, keyLower)) {
+    const action = this.keyboardActions.find(event);
+    if (action) {
       event.preventDefault();
-      this.handleNavigationKey(key, keyLower);
-      return;
-    }
-
-    // Mode switching keys
-    if (this.isModeKey(keyLower)) {
-      event.preventDefault();
-      this.handleModeKey(keyLower);
-      return;
-    }
-  }
-
-  private isNavigationKey(key: string, keyLower: string): boolean {
-    return (
-      key === "ArrowRight" ||
-      key === "ArrowLeft" ||
-      key === "ArrowUp" ||
-      key === "ArrowDown" ||
-      key === "Home" ||
-      key === "End" ||
-      keyLower === " "
-    );
-  }
-
-  private isModeKey(keyLower: string): boolean {
-    return (
-      keyLower === "escape" ||
-      keyLower === "o" ||
-      keyLower === "h" ||
-      keyLower === "?"
-    );
-  }
-
-  private handleNavigationKey(key: string, keyLower: string): void {
-    switch (key) {
-      case "ArrowRight":
-      case "ArrowDown":
-        this.nextSlide();
-        break;
-      case "ArrowLeft":
-      case "ArrowUp":
-        this.previousSlide();
-        break;
-      case "Home":
-        this.goToSlide(0);
-        break;
-      case "End":
-        this.goToSlide(this.slides.length - 1);
-        break;
-    }
-
-    // Handle space key
-    if (keyLower === " ") {
-      this.nextSlide();
-    }
-  }
-
-  private handleModeKey(keyLower: string): void {
-    switch (keyLower) {
-      case "escape":
-      case "o":
-        this.overviewManager.toggleOverview();
-        break;
-      case "h":
-      case "?":
-        this.helpManager.toggleHelp();
-        break;
+      action.run();
     }
   }
 
@@ -476,44 +694,147 @@ export class Mostage implements MostageInstance {
 
     const slidesContainer = document.createElement("div");
     slidesContainer.className = "mostage-slides";
-
     this.slides.forEach((slide, index) => {
-      const slideElement = document.createElement("div");
-      slideElement.className = "mostage-slide";
-      slideElement.id = slide.id;
-
-      // Apply background if configured
-      this.applyBackgroundToSlide(slideElement, index);
-
-      // Create content wrapper for scaling
-      const contentWrapper = document.createElement("div");
-      contentWrapper.className = "mostage-slide-content";
-      contentWrapper.innerHTML = slide.html;
-
-      // Apply scale to content if specified
-      if (this.config.scale !== 1.0) {
-        contentWrapper.style.transform = `scale(${this.config.scale})`;
-        contentWrapper.style.transformOrigin = "center center";
-
-        // If scaling up, ensure content fits within slide boundaries
-        if (this.config.scale && this.config.scale > 1.0) {
-          // Calculate the inverse scale to fit the content
-          const inverseScale = 1 / this.config.scale;
-          contentWrapper.style.width = `${100 * inverseScale}%`;
-          contentWrapper.style.height = `${100 * inverseScale}%`;
-        }
-      }
-
-      slideElement.appendChild(contentWrapper);
-      // Initially hide all slides, will be shown by goToSlide
-      slideElement.style.display = "none";
-      slidesContainer.appendChild(slideElement);
+      slidesContainer.appendChild(this.createSlideElement(slide, index));
     });
 
     this.container.appendChild(slidesContainer);
+    this.prepareSlides(slidesContainer, this.container);
+  }
+
+  /**
+   * Re-renders only the slides whose output changed
+   *
+   * Elements of unchanged slides are kept with their highlighted code,
+   * diagrams and fragments, and only move when slides were added or removed
+   * before them.
+   *
+   * @param previousSlides - Slides the current elements were rendered from
+   * @returns false when there are no rendered slides to update
+   */
+  private updateSlideElements(previousSlides: MoSlide[]): boolean {
+    const slidesContainer =
+      this.container.querySelector<HTMLElement>(".mostage-slides");
+    const elements = Array.from(
+      slidesContainer?.querySelectorAll<HTMLElement>(".mostage-slide") ?? []
+    );
+    if (!slidesContainer || elements.length !== previousSlides.length) {
+      return false;
+    }
+
+    const reusable = new Map<string, HTMLElement[]>();
+    previousSlides.forEach((slide, index) => {
+      const key = this.getSlideRenderKey(slide, index);
+      reusable.set(key, [...(reusable.get(key) ?? []), elements[index]]);
+    });
+
+    // New elements are prepared before they are placed
+    const created = document.createElement("div");
+    const updated = this.slides.map((slide, index) => {
+      const element = reusable
+        .get(this.getSlideRenderKey(slide, index))
+        ?.shift();
+      if (element) {
+        element.id = getSlideElementId(slide.id);
+        return element;
+      }
+      return created.appendChild(this.createSlideElement(slide, index));
+    });
+
+    if (created.childElementCount > 0) {
+      this.prepareSlides(created, created);
+    }
+    slidesContainer.replaceChildren(...updated);
+    return true;
+  }
+
+  // Everything a slide's element is built from: equal keys, equal elements
+  private getSlideRenderKey(slide: MoSlide, index: number): string {
+    const backgrounds = this.config.background
+      ? Array.isArray(this.config.background)
+        ? this.config.background
+        : [this.config.background]
+      : [];
+
+    return JSON.stringify([
+      slide.html,
+      slide.className,
+      slide.layout,
+      slide.background,
+      backgrounds.map((bg) => this.shouldApplyBackground(bg, index + 1)),
+    ]);
+  }
+
+  private createSlideElement(slide: MoSlide, index: number): HTMLElement {
+    const slideElement = document.createElement("div");
+    slideElement.className = "mostage-slide";
+    slideElement.id = getSlideElementId(slide.id);
+
+    // Apply background if configured
+    this.applyBackgroundToSlide(slideElement, index);
+
+    // Apply per-slide directives (they win over global configuration)
+    this.applySlideDirectives(slideElement, slide);
+
+    // Create content wrapper for scaling
+    const contentWrapper = document.createElement("div");
+    contentWrapper.className = "mostage-slide-content";
+    contentWrapper.innerHTML = slide.html;
+
+    slideElement.appendChild(contentWrapper);
+
+    // Apply scale to content if specified
+    if (this.config.scale !== 1.0) {
+      contentWrapper.style.transform = `scale(${this.config.scale})`;
+      contentWrapper.style.transformOrigin = "center center";
+
+      // If scaling up, ensure content fits within slide boundaries
+      if (this.config.scale && this.config.scale > 1.0) {
+        // Calculate the inverse scale to fit the content
+        const inverseScale = 1 / this.config.scale;
+        contentWrapper.style.width = `${100 * inverseScale}%`;
+        contentWrapper.style.height = `${100 * inverseScale}%`;
+      }
+    }
+
+    // Initially hide all slides, will be shown by goToSlide
+    slideElement.style.display = "none";
+    return slideElement;
+  }
+
+  /**
+   * Renders diagrams, highlights code and numbers fragments of new slides
+   * @param slidesRoot - Element holding the new slide elements
+   * @param codeRoot - Element whose code is highlighted
+   */
+  private prepareSlides(slidesRoot: HTMLElement, codeRoot: HTMLElement): void {
+    // Diagram blocks become SVG before the remaining code is highlighted
+    this.diagramsRendered = this.diagramRenderer.render(
+      slidesRoot,
+      this.container
+    );
 
     // Apply syntax highlighting to all slides after rendering
-    this.syntaxHighlighter.highlightAll(this.container);
+    const {
+      lineNumbers = false,
+      copyButton = true,
+      languages = "auto",
+      theme = "tomorrow",
+    } = this.config.syntaxHighlight ?? {};
+    this.syntaxHighlighter.updateConfig({
+      lineNumbers,
+      copyButton,
+      languages,
+      theme,
+    });
+    this.syntaxHighlighter.highlightAll(codeRoot);
+
+    // Code highlight steps are fragments too, so fragments are numbered last
+    slidesRoot
+      .querySelectorAll<HTMLElement>(".mostage-slide")
+      .forEach((slideElement) =>
+        this.fragmentManager.prepareSlide(slideElement)
+      );
   }
 
   private applyBackgroundToSlide(
@@ -537,6 +858,145 @@ export class Mostage implements MostageInstance {
     });
   }
 
+  private applySlideDirectives(
+    slideElement: HTMLElement,
+    slide: MoSlide
+  ): void {
+    if (slide.className) {
+      slideElement.classList.add(
+        ...slide.className.split(/\s+/).filter(Boolean)
+      );
+    }
+
+    if (slide.layout) {
+      slideElement.classList.add(`mostage-layout-${slide.layout}`);
+      slideElement.dataset.layout = slide.layout;
+    }
+
+    if (slide.background) {
+      const { color, image, size, position, repeat } = slide.background;
+      this.applyBackgroundStyles(slideElement, {
+        bgColor: color,
+        imagePath: image,
+        size,
+        position,
+        repeat,
+      });
+    }
+  }
+
+  /**
+   * Cleans the HTML of parsed slides in safe mode, starting a new report
+   * @param slides - Freshly parsed slides
+   * @returns The same slides, cleaned in place
+   */
+  private sanitizeSlides(slides: MoSlide[]): MoSlide[] {
+    if (!this.sanitizer) return slides;
+
+    this.securityReport = [];
+    slides.forEach((slide, index) => {
+      const label = `slide ${index + 1}`;
+      slide.html = this.sanitizeHtml(slide.html, label);
+      if (slide.notes) {
+        slide.notes.html = this.sanitizeHtml(
+          slide.notes.html,
+          `the notes of ${label}`
+        );
+      }
+      Object.entries(slide.regions ?? {}).forEach(([slot, html]) => {
+        slide.regions![slot] = this.sanitizeHtml(
+          html,
+          `the ::${slot}:: region of ${label}`
+        );
+      });
+    });
+    return slides;
+  }
+
+  private sanitizeHtml(
+    html: string,
+    source: string,
+    markup: "html" | "svg" = "html"
+  ): string {
+    if (!this.sanitizer) return html;
+
+    const { html: cleaned, removed } =
+      markup === "svg"
+        ? this.sanitizer.sanitizeSvg(html)
+        : this.sanitizer.sanitize(html);
+    if (removed.length > 0) {
+      const entry = `Safe mode removed from ${source}: ${removed.join(", ")}`;
+      console.warn(entry);
+      this.securityReport.push(entry);
+    }
+    return cleaned;
+  }
+
+  // Resolve the includes of markdown loaded from a file
+  private resolveSource(source: string): Promise<string> {
+    return this.sourcePath
+      ? this.contentService.resolveIncludes(source, this.sourcePath)
+      : Promise.resolve(source);
+  }
+
+  private registerLayouts(): void {
+    Object.entries(this.config.layouts ?? {}).forEach(([name, template]) =>
+      this.contentService.registerLayout(name, template)
+    );
+  }
+
+  // Whether a slide is written in the markdown itself, not an included file
+  private isWrittenInSource(source?: MoSlideSource): boolean {
+    return !source?.file || source.file === this.config.contentPath;
+  }
+
+  // Index of the slide written at a line, -1 when no slide comes from the file
+  private findSlideAtLine(line: number, file?: string): number {
+    const candidates = this.slides
+      .map((slide, index) => ({ source: slide.source, index }))
+      .filter(({ source }) =>
+        file === undefined
+          ? this.isWrittenInSource(source)
+          : source?.file === file
+      );
+    if (candidates.length === 0) return -1;
+
+    const target =
+      candidates.find(({ source }) => source!.endLine >= line) ??
+      candidates[candidates.length - 1];
+    return target.index;
+  }
+
+  // Show the slide the editor's cursor is in
+  private showSlideAt(markdown: string, offset: number): void {
+    const line = markdown.slice(0, offset).split("\n").length;
+    const index = this.findSlideAtLine(line);
+    if (index !== -1 && index !== this.currentSlideIndex) {
+      this.goToSlide(index);
+    }
+  }
+
+  // Where the editor's cursor starts: the current slide, or for a slide from
+  // an included file, the line after the slide written before it
+  private getSlideOffset(markdown: string): number {
+    const current = this.slides[this.currentSlideIndex]?.source;
+    const previous = this.slides
+      .slice(0, this.currentSlideIndex)
+      .map((slide) => slide.source)
+      .filter((source) => source && this.isWrittenInSource(source))
+      .pop();
+    const line =
+      current && this.isWrittenInSource(current)
+        ? current.startLine
+        : (previous?.endLine ?? 0) + 1;
+
+    const offset = markdown
+      .split("\n")
+      .slice(0, line - 1)
+      .reduce((total, text) => total + text.length + 1, 0);
+    return Math.min(offset, markdown.length);
+  }
+
   private shouldApplyBackground(bg: any, slideNumber: number): boolean {
     // Check global
     if (bg.global === true) {
@@ -568,7 +1028,9 @@ export class Mostage implements MostageInstance {
 
     // Apply background image if specified
     if (bg.imagePath) {
-      slideElement.style.backgroundImage = `url("${bg.imagePath}")`;
+      slideElement.style.backgroundImage = /^url\(/i.test(bg.imagePath)
+        ? bg.imagePath
+        : `url("${bg.imagePath}")`;
       slideElement.style.backgroundSize = bg.size || "cover";
       slideElement.style.backgroundPosition = bg.position || "center";
       slideElement.style.backgroundRepeat = bg.repeat || "no-repeat";
@@ -604,12 +1066,16 @@ export class Mostage implements MostageInstance {
       if (
         content.includes("#") ||
         content.includes("*") ||
-        content.includes("`")
+        content.includes("`") ||
+        hasMath(content)
       ) {
         const parsedContent = this.contentService.parseMarkdownToHtml(content);
-        headerElement.innerHTML = parsedContent;
+        headerElement.innerHTML = this.sanitizeHtml(
+          parsedContent,
+          "the header"
+        );
       } else {
-        headerElement.innerHTML = content;
+        headerElement.innerHTML = this.sanitizeHtml(content, "the header");
       }
     }
 
@@ -653,12 +1119,16 @@ export class Mostage implements MostageInstance {
       if (
         content.includes("#") ||
         content.includes("*") ||
-        content.includes("`")
+        content.includes("`") ||
+        hasMath(content)
       ) {
         const parsedContent = this.contentService.parseMarkdownToHtml(content);
-        footerElement.innerHTML = parsedContent;
+        footerElement.innerHTML = this.sanitizeHtml(
+          parsedContent,
+          "the footer"
+        );
       } else {
-        footerElement.innerHTML = content;
+        footerElement.innerHTML = this.sanitizeHtml(content, "the footer");
       }
     }
 
@@ -673,6 +1143,27 @@ export class Mostage implements MostageInstance {
     }
   }
 
+  // Render the header and footer again, in front of the slides as a full
+  // render places them
+  private async updateHeaderFooter(): Promise<void> {
+    const selector = ":scope > .mostage-header, :scope > .mostage-footer";
+    this.container
+      .querySelectorAll(selector)
+      .forEach((element) => element.remove());
+
+    await this.renderHeader();
+    await this.renderFooter();
+
+    const slidesContainer = this.container.querySelector(
+      ":scope > .mostage-slides"
+    );
+    this.container
+      .querySelectorAll(selector)
+      .forEach((element) =>
+        this.container.insertBefore(element, slidesContainer)
+      );
+  }
+
   private updateHeaderFooterVisibility(): void {
     // Update header visibility
     if (this.config.header) {
@@ -710,6 +1201,12 @@ export class Mostage implements MostageInstance {
   }
 
   nextSlide(): void {
+    // Reveal the next fragment before leaving the slide
+    if (this.fragmentManager.next(this.currentSlideIndex)) {
+      this.onFragmentChange("fragmentshown");
+      return;
+    }
+
     if (this.currentSlideIndex < this.slides.length - 1) {
       this.goToSlide(this.currentSlideIndex + 1);
     } else if (this.config.loop) {
@@ -718,14 +1215,64 @@ export class Mostage implements MostageInstance {
   }
 
   previousSlide(): void {
-    if (this.currentSlideIndex > 0) {
-      this.goToSlide(this.currentSlideIndex - 1);
-    } else if (this.config.loop) {
-      this.goToSlide(this.slides.length - 1);
+    // Hide the last revealed fragment before leaving the slide
+    if (this.fragmentManager.previous(this.currentSlideIndex)) {
+      this.onFragmentChange("fragmenthidden");
+      return;
+    }
+
+    // Going back lands on the previous slide with all fragments revealed
+    const targetIndex =
+      this.currentSlideIndex > 0
+        ? this.currentSlideIndex - 1
+        : this.config.loop
+          ? this.slides.length - 1
+          : -1;
+
+    if (targetIndex >= 0) {
+      this.goToSlide(
+        targetIndex,
+        this.fragmentManager.getFragmentCount(targetIndex)
+      );
+    }
+  }
+
+  /**
+   * Moves across the grid of stacks: left/right between stacks,
+   * up/down within the current stack. Fragments are stepped through first.
+   */
+  private navigate(direction: NavigationDirection): void {
+    const forward = direction === "right" || direction === "down";
+    const steppedFragment = forward
+      ? this.fragmentManager.next(this.currentSlideIndex)
+      : this.fragmentManager.previous(this.currentSlideIndex);
+
+    if (steppedFragment) {
+      this.onFragmentChange(forward ? "fragmentshown" : "fragmenthidden");
+      return;
+    }
+
+    const targetIndex = this.navigationService.getNeighbourIndex(
+      this.currentSlideIndex,
+      direction,
+      this.config.loop
+    );
+
+    if (targetIndex >= 0) {
+      this.goToSlide(
+        targetIndex,
+        forward ? 0 : this.fragmentManager.getFragmentCount(targetIndex)
+      );
     }
   }
 
-  goToSlide(index: number): void {
+  /**
+   * Goes to a specific slide
+   * @param index - Slide index (0-based)
+   * @param fragment - Number of fragment steps to reveal (default: none)
+   * @returns A promise that resolves once the slide transition has ended
+   */
+  goToSlide(index: number, fragment: number = 0): Promise<void> {
     // Validate slide index and adjust if necessary
     if (index < 0) {
       index = 0;
@@ -735,7 +1282,7 @@ export class Mostage implements MostageInstance {
 
     // If no slides exist, return early
     if (this.slides.length === 0) {
-      return;
+      return Promise.resolve();
     }
 
     const previousIndex = this.currentSlideIndex;
@@ -744,15 +1291,26 @@ export class Mostage implements MostageInstance {
     // Update global slide index to preserve position across instances
     globalCurrentSlideIndex = index;
 
-    // Update URL hash if enabled
-    this.urlHashManager.updateUrlHash(index, this.slides.length);
-
+    let transitionEnd = Promise.resolve();
     if (previousIndex === index) {
       this.transitionManager.showSlide(index);
     } else {
-      this.transitionManager.animateTransition(previousIndex, index);
+      transitionEnd = this.transitionManager.animateTransition(
+        previousIndex,
+        index,
+        this.slides[index].transition
+      );
     }
 
+    const currentFragment = this.fragmentManager.showStep(index, fragment);
+
+    // Update URL hash if enabled
+    this.urlHashManager.updateUrlHash(
+      index,
+      this.slides.length,
+      currentFragment
+    );
+
     // Update center content
     this.centerContentManager.onSlideChange();
 
@@ -762,15 +1320,59 @@ export class Mostage implements MostageInstance {
     // Update navigation service
     this.navigationService.setCurrentSlideIndex(index);
     this.overviewManager.setCurrentSlideIndex(index);
+    this.presenterManager.setCurrentSlideIndex(index);
 
     this.emit("slidechange", {
       type: "slidechange",
       currentSlide: index,
       totalSlides: this.slides.length,
       slide: this.slides[index],
+      fragment: currentFragment,
+      totalFragments: this.fragmentManager.getFragmentCount(index),
+    });
+
+    return transitionEnd;
+  }
+
+  private onFragmentChange(type: "fragmentshown" | "fragmenthidden"): void {
+    const fragment = this.fragmentManager.getCurrentStep();
+
+    this.urlHashManager.updateUrlHash(
+      this.currentSlideIndex,
+      this.slides.length,
+      fragment
+    );
+    this.presenterManager.setCurrentSlideIndex(this.currentSlideIndex);
+
+    this.emit(type, {
+      type,
+      currentSlide: this.currentSlideIndex,
+      totalSlides: this.slides.length,
+      slide: this.slides[this.currentSlideIndex],
+      fragment,
+      totalFragments: this.fragmentManager.getFragmentCount(
+        this.currentSlideIndex
+      ),
     });
   }
 
+  private onPresenterNavigate(action: PresenterNavigationAction): void {
+    switch (action) {
+      case "next":
+        this.nextSlide();
+        break;
+      case "previous":
+        this.previousSlide();
+        break;
+      case "first":
+        this.goToSlide(0);
+        break;
+      case "last":
+        this.goToSlide(this.slides.length - 1);
+        break;
+    }
+  }
+
   private onEnterOverview(): void {
     // Hide help when entering overview mode
     this.helpManager.hideForOverview();
@@ -821,6 +1423,22 @@ export class Mostage implements MostageInstance {
     return this.slides;
   }
 
+  /**
+   * Gets the number of fragment steps revealed on the current slide
+   * @returns Revealed fragment steps (0 when none are visible)
+   */
+  getCurrentFragment(): number {
+    return this.fragmentManager.getCurrentStep();
+  }
+
+  /**
+   * Gets the number of fragment steps on the current slide
+   * @returns Total fragment steps of the current slide
+   */
+  getTotalFragments(): number {
+    return this.fragmentManager.getFragmentCount(this.currentSlideIndex);
+  }
+
   /**
    * Gets the presentation container element
    * @returns The container HTMLElement
@@ -829,22 +1447,188 @@ export class Mostage implements MostageInstance {
     return this.container;
   }
 
+  /**
+   * Lists what safe mode removed from the current content
+   *
+   * Empty unless `security.sanitize` is on. Each entry names where the HTML
+   * came from and what was removed, e.g.
+   * `Safe mode removed from slide 3: <script>, onclick on <img>`.
+   *
+   * @returns One entry per slide, notes, region, header or footer that was changed
+   */
+  getSecurityReport(): string[] {
+    return [...this.securityReport];
+  }
+
+  /**
+   * Gets where a slide is written
+   *
+   * Slides loaded from `contentPath` name their file, which is the included
+   * file for slides that come from an include. Slides of content passed as a
+   * string only have line numbers, counted from the top of that string.
+   *
+   * @param index - Slide index (0-based), the current slide by default
+   * @returns The slide's file and line range, undefined when unknown
+   */
+  getSlideSource(
+    index: number = this.currentSlideIndex
+  ): MoSlideSource | undefined {
+    return this.slides[index]?.source;
+  }
+
+  // Markdown extensions
+  /**
+   * Adds markdown syntax to the slides
+   *
+   * Extensions apply to content parsed afterwards, so plugins register them
+   * in `extendMarkdown`, which runs before the slides are parsed.
+   *
+   * @param name - Unique extension name
+   * @param extension - marked extension with tokenizers, renderers or hooks
+   *
+   * @example
+   * ```typescript
+   * presentation.registerMarkdownExtension("kbd", {
+   *   extensions: [
+   *     {
+   *       name: "kbd",
+   *       level: "inline",
+   *       start: (src) => src.indexOf("[["),
+   *       tokenizer(src) {
+   *         const match = src.match(/^\[\[(.+?)\]\]/);
+   *         if (match) return { type: "kbd", raw: match[0], text: match[1] };
+   *       },
+   *       renderer: (token) => `<kbd>${token.text}</kbd>`,
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  registerMarkdownExtension(name: string, extension: MarkedExtension): void {
+    this.contentService.registerMarkdownExtension(name, extension);
+  }
+
+  /**
+   * Runs hooks on every slide as the content is parsed
+   *
+   * `preParse` sees each slide before its markdown is rendered and may return
+   * replacement markdown; `postParse` runs once `slide.html` is set. Hooks
+   * can keep what they find in `slide.data`.
+   *
+   * @param hooks - Slide parse hooks
+   */
+  addSlideHooks(hooks: SlideParseHooks): void {
+    this.contentService.addSlideHooks(hooks);
+  }
+
+  /**
+   * Adds a keyboard shortcut
+   *
+   * The action shows up in the help overlay under its group, and the
+   * keyboard config can remap or turn it off by name. An action with the
+   * name of an existing one replaces it.
+   *
+   * @param action - Name, description, default keys and what to run
+   */
+  registerKeyboardAction(action: KeyboardAction): void {
+    this.keyboardActions.register(action);
+  }
+
   // Overview control
   toggleOverview(): void {
     this.overviewManager.toggleOverview();
   }
 
+  /**
+   * Opens or closes the presenter view window
+   *
+   * The presenter view shows the current slide, a preview of the next slide,
+   * speaker notes, elapsed time and a clock. Navigating in either window
+   * drives both.
+   */
+  togglePresenter(): void {
+    this.presenterManager.togglePresenter();
+  }
+
+  // Live editor control
+  /**
+   * Opens or closes the live editor
+   *
+   * The editor shows the presentation's markdown next to the slides. Edits
+   * re-render the slides after a short pause without leaving the current
+   * slide, moving the cursor shows the slide it is in, and markdown that
+   * can't be parsed is reported below the text.
+   */
+  toggleEditor(): void {
+    this.editorManager.toggle();
+  }
+
+  /**
+   * Goes to the slide written at a line
+   *
+   * Lines between slides belong to the slide that follows, lines after the
+   * last slide of a file to that slide. Nothing happens when no slide comes
+   * from the file.
+   *
+   * @param line - Line number (1-based)
+   * @param file - File the line is in, `contentPath` by default
+   * @returns Promise that resolves once the slide transition has ended
+   */
+  goToLine(line: number, file?: string): Promise<void> {
+    const index = this.findSlideAtLine(line, file);
+    return index === -1 ? Promise.resolve() : this.goToSlide(index);
+  }
+
   /**
    * Updates the presentation content and re-renders slides
-   * @param newContent - New markdown content
+   *
+   * The markdown goes through the same steps as on start: includes are
+   * resolved against `contentPath` and the front matter is applied. Only
+   * slides whose output changed are rebuilt; the others keep their
+   * elements. Plugins keep running and get a `contentupdate` event.
+   *
+   * @param newContent - New markdown content, as written
+   * @throws {ContentLoadError} When an included file cannot be loaded
+   * @throws {ContentParseError} When the markdown cannot be parsed
+   * @throws {ConfigValidationError} When the front matter is invalid
    */
   async updateContent(newContent: string): Promise<void> {
     try {
+      const content = await this.resolveSource(newContent);
+      const currentFragment = this.fragmentManager.getCurrentStep();
+      const { data: frontMatter } =
+        this.contentService.extractFrontMatter(content);
+      const previousSettings = this.getRenderSettings();
+      if (frontMatter) {
+        const theme = this.config.theme;
+        this.applyFrontMatter(frontMatter);
+        if (this.config.theme && this.config.theme !== theme) {
+          await loadTheme(this.config.theme);
+        }
+        this.registerLayouts();
+      }
+      const settings = this.getRenderSettings();
+
+      // Rebuild what the front matter changed the settings of
+      if (settings.managers !== previousSettings.managers) {
+        this.urlHashManager.destroy();
+        this.initializeConfigDependentManagers();
+        this.urlHashManager.setupUrlHashNavigation();
+        this.urlHashManager.setupAnchorLinks(this.container);
+      }
+      if (settings.slideSize !== previousSettings.slideSize) {
+        this.applySlideSize();
+      }
+
       // Parse new content
-      const newSlides = this.contentService.parseContent(newContent);
+      const newSlides = this.sanitizeSlides(
+        this.contentService.parseContent(content)
+      );
+      const previousSlides = this.slides;
 
       // Update slides
       this.slides = newSlides;
+      this.source = newContent;
 
       // Adjust current slide index if necessary
       if (this.slides.length === 0) {
@@ -856,12 +1640,26 @@ export class Mostage implements MostageInstance {
 
       // Update navigation service with new slides
       this.navigationService.setSlides(this.slides);
+      this.urlHashManager.setSlides(this.slides);
+      this.overviewManager.setSlides(this.slides);
 
-      // Re-render slides
-      await this.renderSlides();
+      // Re-render the changed slides, or all of them before the first render.
+      // Slides are prepared for the fragments setting, so it renders all.
+      if (
+        settings.fragments !== previousSettings.fragments ||
+        !this.updateSlideElements(previousSlides)
+      ) {
+        await this.renderSlides();
+      } else if (settings.headerFooter !== previousSettings.headerFooter) {
+        await this.updateHeaderFooter();
+      }
 
       // Show the current slide
       this.transitionManager.showSlide(this.currentSlideIndex);
+      const fragment = this.fragmentManager.showStep(
+        this.currentSlideIndex,
+        currentFragment
+      );
 
       // Update header and footer visibility
       this.updateHeaderFooterVisibility();
@@ -869,28 +1667,19 @@ export class Mostage implements MostageInstance {
       // Update navigation service
       this.navigationService.setCurrentSlideIndex(this.currentSlideIndex);
       this.overviewManager.setCurrentSlideIndex(this.currentSlideIndex);
+      this.presenterManager.setSlides(this.slides);
+      this.presenterManager.setCurrentSlideIndex(this.currentSlideIndex);
 
-      // Clean up existing plugins before re-initializing
-      this.plugins.forEach((plugin) => {
-        try {
-          if (plugin.destroy) {
-            plugin.destroy();
-          }
-        } catch (error) {
-          console.error(`Failed to destroy plugin: ${plugin.name}`, error);
-        }
-      });
-      this.plugins = [];
-
-      // Re-initialize plugins after content update
-      this.initializePlugins();
-
-      // Emit content update event
+      // Plugins keep running and update from the event
       this.emit("contentupdate", {
         type: "contentupdate",
         currentSlide: this.currentSlideIndex,
         totalSlides: this.slides.length,
         slide: this.slides[this.currentSlideIndex],
+        fragment,
+        totalFragments: this.fragmentManager.getFragmentCount(
+          this.currentSlideIndex
+        ),
       });
     } catch (error) {
       console.error("Failed to update content:", error);
@@ -911,6 +1700,7 @@ export class Mostage implements MostageInstance {
       }
     });
     this.plugins = [];
+    this.pluginConfigs.clear();
     this.eventListeners.clear();
 
     // Clean up services
@@ -919,5 +1709,9 @@ export class Mostage implements MostageInstance {
 
     // Clean up managers
     this.centerContentManager.cleanup();
+    this.presenterManager.destroy();
+    this.editorManager.destroy();
+    this.scaleManager.cleanup();
+    this.urlHashManager.destroy();
   }
 }
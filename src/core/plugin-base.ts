@@ -1,4 +1,4 @@
-import { MoPlugin } from "./types";
+import { MoPlugin, MostageInstance } from "./types";
 
 /**
  * Plugin base class that provides common functionality for all plugins
@@ -12,6 +12,13 @@ export abstract class PluginBase implements MoPlugin {
   abstract init(mo: any, config?: any): void;
   abstract destroy(): void;
 
+  /**
+   * Extend the markdown before the slides are parsed
+   * Override to add syntax with `mo.registerMarkdownExtension()` or slide
+   * hooks with `mo.addSlideHooks()`; runs once, before init()
+   */
+  extendMarkdown(_mo: MostageInstance, _config?: any): void {}
+
   /**
    * Check if plugin is enabled
    */
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ConfettiPlugin } from "./index";
+
+// Mock CSS import
+vi.mock("./style.css?inline", () => ({
+  default: "/* confetti styles */",
+}));
+
+describe("ConfettiPlugin", () => {
+  let plugin: ConfettiPlugin;
+  let mockMo: any;
+  let slides: { data?: Record<string, unknown> }[];
+  let listeners: Record<string, (event: any) => void>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    plugin = new ConfettiPlugin();
+    slides = [{}, {}];
+    listeners = {};
+
+    // Mock Mostage instance
+    mockMo = {
+      config: { transition: { duration: 0 } },
+      getContainer: vi.fn(() => document.body),
+      getSlides: vi.fn(() => slides),
+      on: vi.fn((event: string, callback: (event: any) => void) => {
+        listeners[event] = callback;
+      }),
+    };
+
+    document.body.innerHTML = "";
+  });
+
+  afterEach(() => {
+    plugin.destroy();
+    document.body.innerHTML = "";
+    vi.useRealTimers();
+  });
+
+  const showSlide = (index: number) => {
+    listeners.slidechange({ currentSlide: index });
+    vi.advanceTimersByTime(400);
+    return document.querySelectorAll(".mostage-confetti-particle").length;
+  };
+
+  it("should celebrate on slides marked for confetti", () => {
+    slides[1].data = { confetti: true };
+    plugin.init(mockMo, { particleCount: 3 });
+
+    expect(showSlide(0)).toBe(0);
+    expect(showSlide(1)).toBe(3);
+  });
+
+  it("should find confetti slides again when the content changes", () => {
+    plugin.init(mockMo, { particleCount: 3 });
+    expect(showSlide(1)).toBe(0);
+
+    slides = [{}, { data: { confetti: true } }];
+    listeners.contentupdate({ currentSlide: 0, totalSlides: 2 });
+
+    expect(showSlide(1)).toBe(3);
+  });
+});
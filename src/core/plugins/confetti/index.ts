@@ -1,6 +1,9 @@
 import { PluginBase } from "@/core/plugin-base";
+import type { MoSlide, MostageInstance } from "@/types";
 import styles from "./style.css?inline";
 
+const CONFETTI_MARKER = /^\s*<!--\s*confetti\s*-->\s*$/m;
+
 export interface ConfettiConfig {
   enabled?: boolean;
   particleCount?: number;
@@ -21,6 +24,17 @@ export class ConfettiPlugin extends PluginBase {
   private config!: ConfettiConfig;
   private container: HTMLElement | null = null;
 
+  // Slides with a `<!-- confetti -->` line celebrate when shown
+  extendMarkdown(mo: MostageInstance): void {
+    mo.addSlideHooks({
+      preParse: (slide, markdown) => {
+        if (CONFETTI_MARKER.test(markdown)) {
+          slide.data = { ...slide.data, confetti: true };
+        }
+      },
+    });
+  }
+
   init(mo: any, config: ConfettiConfig = {}): void {
     this.container = mo.getContainer();
     this.mo = mo;
@@ -52,7 +66,7 @@ export class ConfettiPlugin extends PluginBase {
 
     this.injectStyles(styles, "confetti-styles");
     this.createConfettiContainer();
-    this.parseSlidesForConfetti();
+    this.findConfettiSlides();
     this.setupSlideListener();
   }
 
@@ -65,17 +79,19 @@ export class ConfettiPlugin extends PluginBase {
     }
   }
 
-  private parseSlidesForConfetti(): void {
-    const slides = this.mo.getSlides();
-    slides.forEach((slide: any, index: number) => {
-      // Check for confetti comments
-      if (slide.content.includes("<!-- confetti -->")) {
+  private findConfettiSlides(): void {
+    this.confettiSlides.clear();
+    this.mo.getSlides().forEach((slide: MoSlide, index: number) => {
+      if (slide.data?.confetti) {
         this.confettiSlides.add(index);
       }
     });
   }
 
   private setupSlideListener(): void {
+    // Edited content may add or move confetti slides
+    this.mo.on("contentupdate", () => this.findConfettiSlides());
+
     this.mo.on("slidechange", (event: any) => {
       const currentSlide = event.currentSlide;
       if (this.confettiSlides.has(currentSlide)) {
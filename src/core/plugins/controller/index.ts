@@ -71,10 +71,12 @@ export class ControllerPlugin extends PluginBase {
       mo.goToSlide(mo.getTotalSlides() - 1)
     );
 
-    // Listen for slide changes and update button states
-    mo.on("slidechange", (event: any) => {
+    // Listen for slide and content changes and update button states
+    const onChange = (event: any) => {
       this.updateButtonStates(event.currentSlide, event.totalSlides);
-    });
+    };
+    mo.on("slidechange", onChange);
+    mo.on("contentupdate", onChange);
 
     // Set initial button states
     this.updateButtonStates(mo.getCurrentSlide(), mo.getTotalSlides());
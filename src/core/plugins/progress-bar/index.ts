@@ -33,9 +33,18 @@ export class ProgressBarPlugin extends PluginBase {
     this.createProgressBar();
     this.updateProgress(mo.getCurrentSlide(), mo.getTotalSlides());
 
-    mo.on("slidechange", (event: any) => {
-      this.updateProgress(event.currentSlide, event.totalSlides);
-    });
+    const onChange = (event: any) => {
+      this.updateProgress(
+        event.currentSlide,
+        event.totalSlides,
+        event.fragment,
+        event.totalFragments
+      );
+    };
+    mo.on("slidechange", onChange);
+    mo.on("contentupdate", onChange);
+    mo.on("fragmentshown", onChange);
+    mo.on("fragmenthidden", onChange);
   }
 
   private createProgressBar(): void {
@@ -60,14 +69,24 @@ export class ProgressBarPlugin extends PluginBase {
     }
   }
 
-  private updateProgress(current: number, total: number): void {
+  private updateProgress(
+    current: number,
+    total: number,
+    fragment: number = 0,
+    totalFragments: number = 0
+  ): void {
     if (!this.progressBar) return;
 
     const fill = this.progressBar.querySelector(
       ".mostage-progress-fill"
     ) as HTMLElement;
     if (fill) {
-      const percentage = ((current + 1) / total) * 100;
+      // Fragment steps fill the gap towards the next slide
+      const remainingSteps =
+        totalFragments > 0
+          ? (totalFragments - fragment) / (totalFragments + 1)
+          : 0;
+      const percentage = ((current + 1 - remainingSteps) / total) * 100;
       fill.style.width = `${percentage}%`;
     }
   }
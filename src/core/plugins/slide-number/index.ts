@@ -31,9 +31,11 @@ export class SlideNumberPlugin extends PluginBase {
     this.createSlideNumber();
     this.updateSlideNumber(mo.getCurrentSlide(), mo.getTotalSlides());
 
-    mo.on("slidechange", (event: any) => {
+    const onChange = (event: any) => {
       this.updateSlideNumber(event.currentSlide, event.totalSlides);
-    });
+    };
+    mo.on("slidechange", onChange);
+    mo.on("contentupdate", onChange);
   }
 
   private createSlideNumber(): void {
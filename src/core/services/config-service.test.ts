@@ -189,6 +189,53 @@ describe("ConfigService", () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
 
+    it("should validate keyboard bindings", () => {
+      expect(
+        configService.validate({
+          keyboard: { next: ["ArrowRight", "n"], prev: "b", help: false },
+        }).isValid
+      ).toBe(true);
+
+      expect(
+        configService.validate({ keyboard: { next: 39 } }).errors
+      ).toContain(
+        "keyboard must be a boolean or an object of keys per action name"
+      );
+      expect(configService.validate({ keyboard: ["n"] }).isValid).toBe(false);
+    });
+
+    it("should validate the fixed slide size", () => {
+      expect(configService.validate({ width: 1280, height: 720 }).isValid).toBe(
+        true
+      );
+      expect(configService.validate({ aspectRatio: "4:3" }).isValid).toBe(true);
+
+      const result = configService.validate({
+        width: -1,
+        aspectRatio: "wide",
+      });
+      expect(result.errors).toContain("width must be a positive number");
+      expect(result.errors).toContain(
+        'aspectRatio must be a ratio such as "16:9"'
+      );
+    });
+
+    it("should validate safe mode options", () => {
+      expect(
+        configService.validate({
+          security: { sanitize: true, allowedTags: ["iframe"] },
+        }).isValid
+      ).toBe(true);
+
+      const result = configService.validate({
+        security: { sanitize: "yes", allowedSchemes: "data" },
+      });
+      expect(result.errors).toContain("security.sanitize must be a boolean");
+      expect(result.errors).toContain(
+        "security.allowedSchemes must be a list of strings"
+      );
+    });
+
     it("should handle null or undefined config", () => {
       const result = configService.validate(null);
       expect(result.isValid).toBe(false);
@@ -387,6 +434,66 @@ describe("ConfigService", () => {
     });
   });
 
+  describe("Front Matter", () => {
+    it("should deep merge front matter over the configuration", () => {
+      const config = configService.validateAndMerge(
+        {
+          theme: "light",
+          transition: { type: "horizontal", duration: 600 },
+          plugins: { ProgressBar: { enabled: true, position: "top" } },
+        },
+        {
+          title: "My Talk",
+          theme: "dark",
+          transition: "fade",
+          plugins: { ProgressBar: { position: "bottom" } },
+        }
+      );
+
+      expect(config.title).toBe("My Talk");
+      expect(config.theme).toBe("dark");
+      expect(config.transition).toMatchObject({ type: "fade", duration: 600 });
+      expect(config.plugins).toEqual({
+        ProgressBar: { enabled: true, position: "bottom" },
+      });
+    });
+
+    it("should ignore keys that front matter cannot set", () => {
+      const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const config = configService.validateAndMerge(
+        { contentPath: "./content.md" },
+        { contentPath: "./other.md" }
+      );
+
+      expect(config.contentPath).toBe("./content.md");
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it("should keep front matter from loosening safe mode", () => {
+      const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const config = configService.validateAndMerge(
+        { security: { sanitize: true } },
+        { title: "Deck", security: { sanitize: false } }
+      );
+
+      expect(config.title).toBe("Deck");
+      expect(config.security).toEqual({ sanitize: true });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Front matter cannot set "security", ignoring it'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it("should reject invalid front matter values", () => {
+      expect(() => configService.validateAndMerge({}, { title: 42 })).toThrow(
+        ConfigValidationError
+      );
+    });
+  });
+
   describe("Deep Merge", () => {
     it("should deep merge nested objects correctly", () => {
       const target = {
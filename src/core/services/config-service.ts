@@ -9,6 +9,7 @@ import {
   ConfigValidator,
   ConfigValidationResult,
 } from "@/types";
+import { parseAspectRatio } from "../utils/slide-size";
 
 /**
  * Enhanced Configuration Service
@@ -34,6 +35,14 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
     },
   };
 
+  // Settings that only make sense outside of the content file
+  private static frontMatterIgnoredKeys = [
+    "element",
+    "content",
+    "contentPath",
+    "configPath",
+  ];
+
   /**
    * Load configuration from file
    */
@@ -123,6 +132,13 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
       errors.push("Theme must be a string");
     }
 
+    // Validate presentation metadata
+    ["title", "author"].forEach((prop) => {
+      if (config[prop] !== undefined && typeof config[prop] !== "string") {
+        errors.push(`${prop} must be a string`);
+      }
+    });
+
     // Validate scale
     if (config.scale !== undefined) {
       if (typeof config.scale !== "number" || config.scale <= 0) {
@@ -130,6 +146,22 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
       }
     }
 
+    // Validate fixed slide size
+    ["width", "height"].forEach((prop) => {
+      if (
+        config[prop] !== undefined &&
+        (typeof config[prop] !== "number" || config[prop] <= 0)
+      ) {
+        errors.push(`${prop} must be a positive number`);
+      }
+    });
+    if (
+      config.aspectRatio !== undefined &&
+      parseAspectRatio(config.aspectRatio) === null
+    ) {
+      errors.push('aspectRatio must be a ratio such as "16:9"');
+    }
+
     // Validate transition
     if (config.transition) {
       if (typeof config.transition === "string") {
@@ -159,8 +191,113 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
       errors.push("Plugins must be an object");
     }
 
+    // Validate code block options
+    if (config.syntaxHighlight !== undefined) {
+      const { languages, theme } = config.syntaxHighlight || {};
+      if (
+        !config.syntaxHighlight ||
+        typeof config.syntaxHighlight !== "object"
+      ) {
+        errors.push("syntaxHighlight must be an object");
+      } else if (
+        languages !== undefined &&
+        languages !== "auto" &&
+        !(
+          Array.isArray(languages) &&
+          languages.every((language: unknown) => typeof language === "string")
+        )
+      ) {
+        errors.push('syntaxHighlight.languages must be "auto" or a list');
+      } else if (theme !== undefined && typeof theme !== "string") {
+        errors.push("syntaxHighlight.theme must be a string");
+      }
+    }
+
+    // Validate custom slide layouts
+    if (config.layouts !== undefined) {
+      if (
+        !config.layouts ||
+        typeof config.layouts !== "object" ||
+        Object.values(config.layouts).some(
+          (template) => typeof template !== "string"
+        )
+      ) {
+        errors.push("layouts must map layout names to HTML templates");
+      }
+    }
+
+    // Validate safe mode options
+    if (config.security !== undefined) {
+      const { security } = config;
+      if (!security || typeof security !== "object") {
+        errors.push("security must be an object");
+      } else {
+        if (
+          security.sanitize !== undefined &&
+          typeof security.sanitize !== "boolean"
+        ) {
+          errors.push("security.sanitize must be a boolean");
+        }
+        ["allowedTags", "allowedAttributes", "allowedSchemes"].forEach(
+          (prop) => {
+            const value = security[prop];
+            if (
+              value !== undefined &&
+              !(
+                Array.isArray(value) &&
+                value.every((item: unknown) => typeof item === "string")
+              )
+            ) {
+              errors.push(`security.${prop} must be a list of strings`);
+            }
+          }
+        );
+      }
+    }
+
+    // Validate live editor options
+    if (config.editor !== undefined) {
+      const { editor } = config;
+      if (!editor || typeof editor !== "object") {
+        errors.push("editor must be an object");
+      } else {
+        ["enabled", "open"].forEach((prop) => {
+          if (editor[prop] !== undefined && typeof editor[prop] !== "boolean") {
+            errors.push(`editor.${prop} must be a boolean`);
+          }
+        });
+        if (
+          editor.delay !== undefined &&
+          (typeof editor.delay !== "number" || editor.delay < 0)
+        ) {
+          errors.push("editor.delay must be a non-negative number");
+        }
+      }
+    }
+
+    // Validate keyboard shortcuts: on, off, or keys per action name
+    const { keyboard } = config;
+    if (
+      keyboard !== undefined &&
+      typeof keyboard !== "boolean" &&
+      (!keyboard ||
+        typeof keyboard !== "object" ||
+        Array.isArray(keyboard) ||
+        !Object.values(keyboard).every(
+          (keys) =>
+            keys === false ||
+            typeof keys === "string" ||
+            (Array.isArray(keys) &&
+              keys.every((key) => typeof key === "string"))
+        ))
+    ) {
+      errors.push(
+        "keyboard must be a boolean or an object of keys per action name"
+      );
+    }
+
     // Validate boolean properties
-    const booleanProps = ["loop", "keyboard", "touch", "urlHash"];
+    const booleanProps = ["loop", "touch", "urlHash"];
     booleanProps.forEach((prop) => {
       if (config[prop] !== undefined && typeof config[prop] !== "boolean") {
         errors.push(`${prop} must be a boolean`);
@@ -230,9 +367,21 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
   }
 
   /**
-   * Merge configuration with defaults
+   * Validate configuration and merge it with defaults
+   * @param config - Configuration, e.g. loaded from config.json
+   * @param frontMatter - Front matter of the content file, deep-merged over the configuration
    */
-  private validateAndMerge(config: any): MoConfig {
+  validateAndMerge(
+    config: any,
+    frontMatter?: Record<string, unknown> | null
+  ): MoConfig {
+    if (frontMatter) {
+      config = this.deepMerge(
+        config,
+        this.normalizeFrontMatter(frontMatter, config)
+      );
+    }
+
     const validation = this.validate(config);
 
     if (!validation.isValid) {
@@ -250,6 +399,35 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
     return this.deepMerge(ConfigService.defaultConfig, config) as MoConfig;
   }
 
+  /**
+   * Drop front-matter keys that cannot be set from the content file
+   * and expand the `transition: fade` shorthand
+   *
+   * Once safe mode is on, the content it cleans cannot change it.
+   */
+  private normalizeFrontMatter(
+    frontMatter: Record<string, unknown>,
+    config: any
+  ): Record<string, unknown> {
+    const result = { ...frontMatter };
+    const ignoredKeys = config?.security?.sanitize
+      ? [...ConfigService.frontMatterIgnoredKeys, "security"]
+      : ConfigService.frontMatterIgnoredKeys;
+
+    ignoredKeys.forEach((key) => {
+      if (key in result) {
+        console.warn(`Front matter cannot set "${key}", ignoring it`);
+        delete result[key];
+      }
+    });
+
+    if (typeof result.transition === "string") {
+      result.transition = { type: result.transition };
+    }
+
+    return result;
+  }
+
   /**
    * Deep merge objects
    */
@@ -258,11 +436,7 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
 
     for (const key in source) {
       if (source.hasOwnProperty(key)) {
-        if (
-          source[key] &&
-          typeof source[key] === "object" &&
-          !Array.isArray(source[key])
-        ) {
+        if (this.isPlainObject(source[key])) {
           result[key] = this.deepMerge(target[key] || {}, source[key]);
         } else {
           result[key] = source[key];
@@ -272,6 +446,13 @@ export class ConfigService implements ConfigLoader, ConfigValidator {
 
     return result;
   }
+
+  /**
+   * Check for plain objects, so DOM elements and arrays are copied as-is
+   */
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return Object.prototype.toString.call(value) === "[object Object]";
+  }
 }
 
 /**
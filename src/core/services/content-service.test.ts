@@ -128,11 +128,11 @@ This is the third slide.`;
       const result = contentService.parseContent(content);
 
       expect(result).toHaveLength(3);
-      expect(result[0].id).toBe("slide-0");
+      expect(result[0].id).toBe("slide-1");
       expect(result[0].content).toContain("# Slide 1");
-      expect(result[1].id).toBe("slide-1");
+      expect(result[1].id).toBe("slide-2");
       expect(result[1].content).toContain("# Slide 2");
-      expect(result[2].id).toBe("slide-2");
+      expect(result[2].id).toBe("slide-3");
       expect(result[2].content).toContain("# Slide 3");
     });
 
@@ -142,7 +142,7 @@ This is the third slide.`;
       const result = contentService.parseContent(content);
 
       expect(result).toHaveLength(1);
-      expect(result[0].id).toBe("slide-0");
+      expect(result[0].id).toBe("single-slide");
       expect(result[0].content).toContain("# Single Slide");
     });
 
@@ -179,7 +179,7 @@ Content 3`;
 
       expect(result).toHaveLength(3);
       result.forEach((slide, index) => {
-        expect(slide.id).toBe(`slide-${index}`);
+        expect(slide.id).toBe(`slide-${index + 1}`);
         expect(slide.content).toContain(`# Slide ${index + 1}`);
       });
     });
@@ -204,6 +204,726 @@ Content 3`;
     });
   });
 
+  describe("Speaker Notes", () => {
+    it("should extract notes from a notes comment block", () => {
+      const content = `# Slide 1
+
+Visible text
+
+<!-- notes -->
+Remember to **smile**
+<!-- /notes -->
+
+After notes`;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.html).toContain("Visible text");
+      expect(slide.html).toContain("After notes");
+      expect(slide.html).not.toContain("smile");
+      expect(slide.notes?.content).toBe("Remember to **smile**");
+      expect(slide.notes?.html).toContain("<strong>smile</strong>");
+    });
+
+    it("should extract notes after a Notes: line until the end of the slide", () => {
+      const content = `# Slide 1
+
+Visible text
+
+Notes:
+First talking point
+- Second talking point
+
+---
+
+# Slide 2`;
+
+      const result = contentService.parseContent(content);
+
+      expect(result[0].html).not.toContain("talking point");
+      expect(result[0].notes?.content).toBe(
+        "First talking point\n- Second talking point"
+      );
+      expect(result[0].notes?.html).toContain("<li>Second talking point</li>");
+      expect(result[1].notes).toBeUndefined();
+    });
+
+    it("should extract notes after a Note: line of its own", () => {
+      const content = "# Slide 1\n\nVisible text\n\nNote:\nMention the demo";
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.html).toContain("Visible text");
+      expect(slide.html).not.toContain("Mention the demo");
+      expect(slide.notes?.content).toBe("Mention the demo");
+    });
+
+    it("should keep paragraphs starting with Note: on the slide", () => {
+      const content =
+        "# Slide 1\n\nNote: bring an umbrella\n\nNotes: on the slide";
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.notes).toBeUndefined();
+      expect(slide.html).toContain("Note: bring an umbrella");
+      expect(slide.html).toContain("Notes: on the slide");
+    });
+
+    it("should keep the raw slide content including notes", () => {
+      const content = "# Slide 1\n\nNotes:\nhidden";
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.content).toContain("Notes:\nhidden");
+    });
+
+    it("should keep the visible markdown without notes and directives", () => {
+      const content =
+        '<!-- .slide: class="dark" -->\n# Slide 1\n\nVisible text\n\nNotes:\nhidden';
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.body).toBe("# Slide 1\n\nVisible text");
+    });
+
+    it("should ignore note markers inside fenced code blocks", () => {
+      const content = `# Slide 1
+
+\`\`\`text
+Note: this is code
+<!-- notes -->
+\`\`\``;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.notes).toBeUndefined();
+      expect(slide.html).toContain("Note: this is code");
+    });
+  });
+
+  describe("Front Matter", () => {
+    it("should not turn front matter into a slide", () => {
+      const content = `---
+title: My Talk
+theme: dark
+---
+# First
+
+---
+
+# Second`;
+
+      const slides = contentService.parseContent(content);
+
+      expect(slides).toHaveLength(2);
+      expect(slides[0].html).toContain("<h1>First</h1>");
+    });
+
+    it("should extract front matter settings", () => {
+      const { data, body } = contentService.extractFrontMatter(
+        "---\ntheme: dark\n---\n# Slide"
+      );
+
+      expect(data).toEqual({ theme: "dark" });
+      expect(body).toBe("# Slide");
+    });
+  });
+
+  describe("Vertical Stacks", () => {
+    it("should split stacks into vertical sub-slides", () => {
+      const content = `# One
+---
+# Two
+
+--
+
+## Two, deep dive
+
+--
+
+## Two, details
+---
+# Three`;
+
+      const slides = contentService.parseContent(content);
+
+      expect(slides).toHaveLength(5);
+      expect(slides.map((slide) => slide.position)).toEqual([
+        { horizontal: 0, vertical: 0 },
+        { horizontal: 1, vertical: 0 },
+        { horizontal: 1, vertical: 1 },
+        { horizontal: 1, vertical: 2 },
+        { horizontal: 2, vertical: 0 },
+      ]);
+      expect(slides[2].html).toContain("Two, deep dive");
+      expect(slides[4].id).toBe("three");
+    });
+
+    it("should not split at -- inside fenced code blocks", () => {
+      const content = `# Query
+
+\`\`\`sql
+SELECT 1
+
+--
+
+SELECT 2
+\`\`\``;
+
+      const slides = contentService.parseContent(content);
+
+      expect(slides).toHaveLength(1);
+      expect(slides[0].html).toContain("SELECT 2");
+    });
+
+    it("should not split at -- underlining a paragraph", () => {
+      const content = `# Terms
+
+A subtitle
+--
+
+More text`;
+
+      const slides = contentService.parseContent(content);
+
+      expect(slides).toHaveLength(1);
+      expect(slides[0].html).toContain("More text");
+    });
+
+    it("should keep a linear grid without vertical separators", () => {
+      const slides = contentService.parseContent("# One\n---\n# Two");
+
+      expect(slides[1].position).toEqual({ horizontal: 1, vertical: 0 });
+    });
+  });
+
+  describe("Slide Ids", () => {
+    it("should name slides after their first heading", () => {
+      const slides = contentService.parseContent(
+        "# Intro\n---\n```bash\n# not a heading\n```\n## Setup *steps*\n---\nNo heading\n---\n# Intro"
+      );
+
+      expect(slides.map((slide) => slide.id)).toEqual([
+        "intro",
+        "setup-steps",
+        "slide-3",
+        "intro-2",
+      ]);
+    });
+
+    it("should prefer ids set with a directive", () => {
+      const slides = contentService.parseContent(
+        '# Setup\n---\n<!-- .slide: id="setup" -->\n# Installing'
+      );
+
+      expect(slides.map((slide) => slide.id)).toEqual(["setup-2", "setup"]);
+    });
+  });
+
+  describe("Slide Sources", () => {
+    it("should give each slide its line range, after the front matter", () => {
+      const slides = contentService.parseContent(
+        "---\ntitle: Deck\n---\n# One\n\nText\n---\n\n# Two\n\n--\n\n## Deep dive\n"
+      );
+
+      expect(slides.map((slide) => slide.source)).toEqual([
+        { startLine: 4, endLine: 6 },
+        { startLine: 9, endLine: 9 },
+        { startLine: 13, endLine: 13 },
+      ]);
+    });
+
+    it("should locate slides in the files they were included from", async () => {
+      const files: Record<string, string> = {
+        "decks/part.md":
+          "---\ntitle: Part\n---\n# A\n---\n# B\n\nMore\n---\n# C",
+        "decks/src/app.ts": "const app = 1;\n",
+      };
+      const content = await contentService.resolveIncludes(
+        '# Intro\n---\n<!-- include: part.md slides="2-3" -->\n---\n# Code\n\n```ts file=src/app.ts\n```\n\nEnd',
+        "decks/talk.md",
+        async (path) => files[path]
+      );
+
+      expect(
+        contentService.parseContent(content).map((slide) => slide.source)
+      ).toEqual([
+        { file: "decks/talk.md", startLine: 1, endLine: 1 },
+        { file: "decks/part.md", startLine: 6, endLine: 8 },
+        { file: "decks/part.md", startLine: 10, endLine: 10 },
+        { file: "decks/talk.md", startLine: 5, endLine: 10 },
+      ]);
+    });
+
+    it("should keep slide sources when other content is loaded", async () => {
+      const content = await contentService.resolveIncludes(
+        "# One\n---\n# Two",
+        "decks/talk.md",
+        async () => ""
+      );
+      global.fetch = vi.fn(() =>
+        Promise.resolve({ ok: true, text: () => Promise.resolve("**Footer**") })
+      ) as any;
+
+      await contentService.loadContentFromSource("decks/footer.md");
+
+      expect(contentService.parseContent(content)[1].source).toEqual({
+        file: "decks/talk.md",
+        startLine: 3,
+        endLine: 3,
+      });
+    });
+
+    it("should name the slide's line in warnings", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      contentService.parseContent(
+        '# One\n---\n<!-- .slide: transition="spin" -->\n# Two'
+      );
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('on slide "two" (line 3)')
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe("Include Directives", () => {
+    const files: Record<string, string> = {
+      "decks/module-1.md": "# Intro\n---\n<!-- include: ./parts/part.md -->",
+      "decks/parts/part.md": "---\ntitle: Part\n---\n# Part",
+      "decks/module-2.md": "# A\n---\n# B\n---\n# C\n---\n# D",
+      "decks/loop-a.md": "<!-- include: loop-b.md -->",
+      "decks/loop-b.md": "<!-- include: ./loop-a.md -->",
+      "decks/broken.md": "<!-- include: ../missing.md -->",
+    };
+    const load = vi.fn(async (path: string) => {
+      if (!(path in files)) throw new Error("File not found");
+      return files[path];
+    });
+
+    it("should inline included files recursively, relative to each file", async () => {
+      const content = await contentService.resolveIncludes(
+        "# Title\n---\n<!-- include: ./module-1.md -->",
+        "decks/content.md",
+        load
+      );
+
+      expect(content).toBe("# Title\n---\n# Intro\n---\n# Part");
+    });
+
+    it("should keep only the slides in the range", async () => {
+      const content = await contentService.resolveIncludes(
+        '<!-- include: module-2.md slides="2-3" -->\n---\n<!-- include: module-2.md slides=4- -->',
+        "decks/content.md",
+        load
+      );
+
+      expect(contentService.parseContent(content).length).toBe(3);
+      expect(content).toContain("# B");
+      expect(content).toContain("# C");
+      expect(content).toContain("# D");
+      expect(content).not.toContain("# A");
+    });
+
+    it("should report circular includes with the include chain", async () => {
+      await expect(
+        contentService.resolveIncludes(
+          "<!-- include: loop-a.md -->",
+          "decks/content.md",
+          load
+        )
+      ).rejects.toThrow(
+        "Circular include: decks/content.md → decks/loop-a.md → decks/loop-b.md → decks/loop-a.md"
+      );
+    });
+
+    it("should name the include chain when an include fails to load", async () => {
+      const error = await contentService
+        .resolveIncludes(
+          "<!-- include: broken.md -->",
+          "decks/content.md",
+          load
+        )
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(ContentLoadError);
+      expect(error.sourcePath).toBe("missing.md");
+      expect(error.message).toContain(
+        "decks/content.md → decks/broken.md → missing.md"
+      );
+    });
+
+    it("should ignore include directives in code blocks", async () => {
+      const content = "```\n<!-- include: ./module-1.md -->\n```";
+
+      expect(
+        await contentService.resolveIncludes(content, "decks/content.md", load)
+      ).toBe(content);
+    });
+
+    it("should resolve includes when loading content from a URL", async () => {
+      global.fetch = vi.fn((url: string) =>
+        Promise.resolve({
+          ok: true,
+          text: () =>
+            Promise.resolve(
+              url.endsWith("content.md")
+                ? "<!-- include: ./parts/intro.md -->"
+                : "# Intro"
+            ),
+        })
+      ) as any;
+
+      const content = await contentService.loadContentFromSource(
+        "https://example.com/talk/content.md"
+      );
+
+      expect(content).toBe("# Intro");
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://example.com/talk/parts/intro.md"
+      );
+    });
+
+    it("should expand empty included files to nothing", async () => {
+      global.fetch = vi.fn((url: string) =>
+        Promise.resolve({
+          ok: true,
+          text: () =>
+            Promise.resolve(
+              url.endsWith("content.md")
+                ? "# Intro\n<!-- include: ./parts/empty.md -->\n# Outro"
+                : "  \n"
+            ),
+        })
+      ) as any;
+
+      const content = await contentService.loadContentFromSource(
+        "https://example.com/talk/content.md"
+      );
+
+      expect(content).toBe("# Intro\n\n# Outro");
+    });
+
+    it("should load a document as written with loadSource", async () => {
+      const document = "# Intro\n<!-- include: ./parts/intro.md -->";
+      global.fetch = vi.fn(() =>
+        Promise.resolve({ ok: true, text: () => Promise.resolve(document) })
+      ) as any;
+
+      await expect(contentService.loadSource("content.md")).resolves.toBe(
+        document
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Code Snippets", () => {
+    const files: Record<string, string> = {
+      "decks/src/server.ts":
+        "import http from 'http';\n\nfunction start() {\n  const port = 3000;\n  http.createServer().listen(port);\n}\n",
+      "decks/src/setup.rs":
+        "fn main() {\n    // #region setup\n    let app = App::new();\n    // #endregion\n}\n",
+    };
+    const load = vi.fn(async (path: string) => {
+      if (!(path in files)) throw new Error("File not found");
+      return files[path];
+    });
+    const resolve = (content: string) =>
+      contentService.resolveIncludes(content, "decks/content.md", load);
+
+    it("should import a line range, numbered from its first line", async () => {
+      const content = await resolve(
+        "```ts file=./src/server.ts#L4-L5 lines\nplaceholder\n```"
+      );
+
+      expect(content).toBe(
+        "```ts lines start=4\nconst port = 3000;\nhttp.createServer().listen(port);\n```"
+      );
+    });
+
+    it("should import a region and infer the language from the file", async () => {
+      const content = await resolve("```file=src/setup.rs#setup\n```");
+
+      expect(content).toBe("```rust start=3\nlet app = App::new();\n```");
+    });
+
+    it("should import whole files", async () => {
+      const content = await resolve("~~~ file=src/server.ts\n~~~");
+
+      expect(content).toContain("```ts\nimport http from 'http';");
+      expect(content.split("\n").length).toBe(8);
+    });
+
+    it("should report missing files with the include chain", async () => {
+      const error = await resolve("```file=src/missing.ts\n```").catch(
+        (error) => error
+      );
+
+      expect(error).toBeInstanceOf(ContentLoadError);
+      expect(error.message).toContain(
+        "Failed to load code snippet decks/src/missing.ts (decks/content.md → decks/src/missing.ts)"
+      );
+    });
+
+    it("should report line ranges and regions the file doesn't have", async () => {
+      await expect(
+        resolve("```file=src/server.ts#L5-L40\n```")
+      ).rejects.toThrow(
+        "Lines L5-L40 are outside the code snippet (decks/content.md → decks/src/server.ts), which has 6 lines"
+      );
+      await expect(
+        resolve("```file=src/server.ts#teardown\n```")
+      ).rejects.toThrow(ContentParseError);
+    });
+
+    it("should report a code block without its closing fence", async () => {
+      await expect(
+        resolve("```ts file=src/server.ts\n\n# The rest of the deck")
+      ).rejects.toThrow(
+        "Code block with ts file=src/server.ts at decks/content.md:1 has no closing ```"
+      );
+    });
+
+    it("should fetch snippet files as written, not transformed", async () => {
+      global.fetch = vi.fn((url: string) =>
+        Promise.resolve({
+          ok: true,
+          text: () =>
+            Promise.resolve(
+              url.endsWith("content.md")
+                ? "```file=src/app.ts\n```"
+                : "const app: number = 1;"
+            ),
+        })
+      ) as any;
+
+      await contentService.loadContentFromSource("talk/content.md");
+
+      expect(global.fetch).toHaveBeenCalledWith("talk/src/app.ts?mostage-raw");
+    });
+  });
+
+  describe("Slide Directives", () => {
+    it("should parse inline slide directives", () => {
+      const content = `<!-- .slide: background="#112233" transition="fade" class="dark wide" id="intro" -->
+# Intro`;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.id).toBe("intro");
+      expect(slide.className).toBe("dark wide");
+      expect(slide.background).toEqual({ color: "#112233" });
+      expect(slide.transition).toEqual({ type: "fade" });
+      expect(slide.html).not.toContain(".slide");
+      expect(slide.html).toContain("<h1>Intro</h1>");
+    });
+
+    it("should parse a YAML-ish directive block", () => {
+      const content = `<!-- .slide
+background: ./images/cover.png
+background-size: contain
+transition: vertical
+transition-duration: 800
+layout: title
+-->
+# Cover`;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.background).toEqual({
+        image: "./images/cover.png",
+        size: "contain",
+      });
+      expect(slide.transition).toEqual({ type: "vertical", duration: 800 });
+      expect(slide.layout).toBe("title");
+      expect(slide.id).toBe("cover");
+    });
+
+    it("should accept data- prefixed and camelCase keys", () => {
+      const content = `<!-- .slide: data-background-color="red" backgroundImage="bg.jpg" -->
+# Slide`;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.background).toEqual({ color: "red", image: "bg.jpg" });
+    });
+
+    it("should ignore unknown transition types", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const [slide] = contentService.parseContent(
+        `<!-- .slide: transition="spin" -->\n# Slide`
+      );
+
+      expect(slide.transition).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it("should leave directives inside fenced code blocks in the code", () => {
+      const content = `# Directives
+
+\`\`\`markdown
+<!-- .slide: class="dark" -->
+\`\`\``;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.className).toBeUndefined();
+      expect(slide.html).toContain('<!-- .slide: class="dark" -->');
+    });
+
+    it("should leave slides without directives untouched", () => {
+      const [slide] = contentService.parseContent(
+        "# Plain\n\n<!-- comment -->"
+      );
+
+      expect(slide.background).toBeUndefined();
+      expect(slide.transition).toBeUndefined();
+      expect(slide.className).toBeUndefined();
+    });
+  });
+
+  describe("Slide Hooks", () => {
+    it("should run hooks on every slide before and after rendering", () => {
+      const postParse = vi.fn();
+      contentService.addSlideHooks({
+        preParse: (slide, markdown) => {
+          if (markdown.includes("<!-- celebrate -->")) {
+            slide.data = { celebrate: true };
+            return markdown.replace("<!-- celebrate -->", "# Party");
+          }
+        },
+        postParse,
+      });
+
+      const slides = contentService.parseContent(
+        "# Intro\n---\n<!-- celebrate -->"
+      );
+
+      expect(slides[0].data).toBeUndefined();
+      expect(slides[1].data).toEqual({ celebrate: true });
+      expect(slides[1].html).toContain("<h1>Party</h1>");
+      expect(slides[1].content).toBe("<!-- celebrate -->");
+      expect(postParse).toHaveBeenCalledTimes(2);
+      expect(postParse).toHaveBeenLastCalledWith(slides[1]);
+    });
+
+    it("should only parse the slides that changed since the last parse", () => {
+      const preParse = vi.fn();
+      contentService.addSlideHooks({ preParse });
+
+      contentService.parseContent("# One\n---\n# Two");
+      const slides = contentService.parseContent(
+        "# One\n---\n# Two!\n---\n# Two"
+      );
+
+      expect(preParse).toHaveBeenCalledTimes(3);
+      expect(slides.map((slide) => slide.id)).toEqual(["one", "two", "two-2"]);
+      expect(slides[2].source).toEqual({ startLine: 5, endLine: 5 });
+    });
+
+    it("should keep markdown extensions to their content service", () => {
+      contentService.registerMarkdownExtension("kbd", { renderer: {} });
+
+      expect(() =>
+        contentService.registerMarkdownExtension("kbd", { renderer: {} })
+      ).toThrow('Markdown extension "kbd" is already registered');
+      expect(() =>
+        new ContentService().registerMarkdownExtension("kbd", { renderer: {} })
+      ).not.toThrow();
+    });
+  });
+
+  describe("Slide Layouts", () => {
+    it("should split a slide into regions at slot separators", () => {
+      const content = `<!-- .slide: layout="two-column" -->
+# Compare
+
+::left::
+## Before
+
+::right::
+## After`;
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.regions).toEqual({
+        default: "<h1>Compare</h1>",
+        left: "<h2>Before</h2>",
+        right: "<h2>After</h2>",
+      });
+      expect(slide.html).toContain(
+        '<div class="mostage-layout" data-layout="two-column">'
+      );
+      expect(slide.html).toContain(
+        '<div class="mostage-region mostage-region-left"><h2>Before</h2></div>'
+      );
+      expect(slide.html).not.toContain("::left::");
+    });
+
+    it("should wrap slides with a built-in layout and no separators", () => {
+      const [slide] = contentService.parseContent(
+        `<!-- .slide: layout="title" -->\n# Cover`
+      );
+
+      expect(slide.regions).toEqual({ default: "<h1>Cover</h1>" });
+      expect(slide.html).toBe(
+        '<div class="mostage-layout" data-layout="title"><div class="mostage-region mostage-region-default"><h1>Cover</h1></div></div>'
+      );
+    });
+
+    it("should render custom layouts from their templates", () => {
+      contentService.registerLayout(
+        "sidebar",
+        "<aside>{{side}}</aside><main>{{ default }}</main>"
+      );
+
+      const [slide] = contentService.parseContent(
+        `<!-- .slide: layout="sidebar" -->\n# Main\n\n::side::\n## Aside`
+      );
+
+      expect(contentService.getLayoutNames()).toContain("sidebar");
+      expect(slide.html).toBe(
+        '<div class="mostage-layout" data-layout="sidebar"><aside><h2>Aside</h2></aside><main><h1>Main</h1></main></div>'
+      );
+    });
+
+    it("should ignore separators inside code blocks", () => {
+      const content = "# Code\n\n```\n::left::\n```";
+
+      const [slide] = contentService.parseContent(content);
+
+      expect(slide.regions).toBeUndefined();
+      expect(slide.html).toContain("::left::");
+    });
+
+    it("should keep other layout names as a class hook only", () => {
+      const [slide] = contentService.parseContent(
+        `<!-- .slide: layout="wide" -->\n# Wide`
+      );
+
+      expect(slide.layout).toBe("wide");
+      expect(slide.regions).toBeUndefined();
+      expect(slide.html).toBe("<h1>Wide</h1>");
+    });
+
+    it("should warn about regions a layout has no place for", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const [slide] = contentService.parseContent(
+        `<!-- .slide: layout="title" -->\n# Cover\n\n::right::\nLost`
+      );
+
+      expect(slide.html).not.toContain("Lost");
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining("::right::")
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
   describe("parseMarkdownToHtml", () => {
     it("should parse markdown to HTML", () => {
       const markdown = "# Test Heading\n\nThis is **bold** text.";
@@ -1,5 +1,71 @@
-import { MoSlide } from "@/types";
+import type { MarkedExtension } from "marked";
+import {
+  MoSlide,
+  MoSlideBackground,
+  MoSlidePosition,
+  MoSlideSource,
+  SlideParseHooks,
+  TransitionConfig,
+} from "@/types";
 import { MarkdownParser } from "../utils/markdown-parser";
+import { FrontMatterParser, FrontMatterResult } from "../utils/front-matter";
+import { SlideLayouts } from "../utils/slide-layouts";
+import { createSlideIds } from "../utils/slide-ids";
+
+const SLIDE_TRANSITION_TYPES = ["horizontal", "vertical", "fade", "slide"];
+const INCLUDE_PATTERN =
+  /^\s*<!--\s*include:\s*(\S+?)(?:\s+slides\s*=\s*(["']?)([^"'\s]+)\2)?\s*-->\s*$/i;
+const URL_PATTERN = /^[a-z][\w+.-]*:\/\//i;
+const REGION_PATTERN = /^\s*::([\w-]+)::\s*$/;
+const SNIPPET_FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})(.*\bfile=\S.*)$/;
+const SNIPPET_LINES_PATTERN = /^L(\d+)(?:-L?(\d+))?$/i;
+// Asks the `mostage dev` server for a file as written; Vite would otherwise
+// answer a request for a .ts file with the transpiled module
+const RAW_SOURCE_QUERY = "mostage-raw";
+
+// Code languages of file extensions Prism has no alias for
+const SNIPPET_LANGUAGES: Record<string, string> = {
+  mjs: "javascript",
+  cjs: "javascript",
+  rs: "rust",
+  cc: "cpp",
+  cxx: "cpp",
+  hpp: "cpp",
+  h: "c",
+  zsh: "bash",
+  ps1: "powershell",
+  gql: "graphql",
+  ex: "elixir",
+  exs: "elixir",
+  proto: "protobuf",
+  tf: "hcl",
+  vue: "markup",
+  dockerfile: "docker",
+};
+
+/**
+ * Loads the raw text of a content file. `raw` is set for the source files
+ * of code snippets, which must not be transformed by a dev server.
+ */
+export type ContentLoader = (
+  sourcePath: string,
+  options?: { raw?: boolean }
+) => Promise<string>;
+
+// A line of resolved content and the file line it came from
+interface SourceLine {
+  text: string;
+  file: string;
+  line: number; // 1-based
+}
+
+// The markdown of one slide and its character range in the content
+interface SlideSection {
+  content: string;
+  position: MoSlidePosition;
+  start: number;
+  end: number;
+}
 
 /**
  * Enhanced Content Service with better error handling and validation
@@ -7,18 +73,137 @@ import { MarkdownParser } from "../utils/markdown-parser";
  */
 export class ContentService {
   private markdownParser: MarkdownParser;
+  private frontMatterParser: FrontMatterParser;
+  private slideLayouts: SlideLayouts;
+  private slideHooks: SlideParseHooks[] = [];
   private cache: Map<string, string> = new Map();
+  // Where each line of the last resolved content was written
+  private resolvedSource: { content: string; lines: SourceLine[] } | null =
+    null;
+  // Slides of the last parse, by their markdown
+  private parsedSlides: Map<string, MoSlide> = new Map();
+  // Fetch an included file, or a snippet's source as written
+  private loadInclude: ContentLoader = (path, options) =>
+    this.fetchSource(
+      options?.raw
+        ? `${path}${path.includes("?") ? "&" : "?"}${RAW_SOURCE_QUERY}`
+        : path
+    );
 
   constructor() {
     this.markdownParser = new MarkdownParser();
+    this.frontMatterParser = new FrontMatterParser();
+    this.slideLayouts = new SlideLayouts();
+  }
+
+  /**
+   * Register a custom slide layout
+   * @param name - Layout name used in `<!-- .slide: layout="name" -->`
+   * @param template - HTML with `{{slot}}` placeholders for the regions
+   */
+  registerLayout(name: string, template: string): void {
+    this.slideLayouts.register(name, template);
+    this.parsedSlides.clear();
+  }
+
+  /**
+   * Get the names of the available slide layouts
+   */
+  getLayoutNames(): string[] {
+    return this.slideLayouts.getNames();
+  }
+
+  /**
+   * Add markdown syntax to the slides parsed by this service
+   * @param name - Unique extension name
+   * @param extension - marked extension with tokenizers, renderers or hooks
+   */
+  registerMarkdownExtension(name: string, extension: MarkedExtension): void {
+    this.markdownParser.use(name, extension);
+    this.parsedSlides.clear();
+  }
+
+  /**
+   * Run hooks on every slide parsed from now on
+   * @param hooks - Called before and after each slide's markdown is rendered
+   */
+  addSlideHooks(hooks: SlideParseHooks): void {
+    this.slideHooks.push(hooks);
+    this.parsedSlides.clear();
   }
 
   /**
    * Load content from various sources (file, URL, etc.)
+   * Include directives in the content are resolved. Only the document
+   * itself is validated; an empty included file adds nothing. Unlike
+   * resolveIncludes, the lines it was resolved from aren't kept, so loading
+   * e.g. a header doesn't change where the deck's slides were written.
    * @param sourcePath - Path or URL to the content
    * @returns Promise<string> - The loaded content
    */
   async loadContentFromSource(sourcePath: string): Promise<string> {
+    const content = await this.loadSource(sourcePath);
+    const lines = await this.expandIncludes(
+      content,
+      [sourcePath],
+      this.loadInclude,
+      1
+    );
+    return lines.map((line) => line.text).join("\n");
+  }
+
+  /**
+   * Load a document as written, without resolving its includes
+   * @param sourcePath - Path or URL to the content
+   * @returns Promise<string> - The document's markdown
+   */
+  async loadSource(sourcePath: string): Promise<string> {
+    const content = await this.fetchSource(sourcePath);
+
+    try {
+      this.validateContent(content);
+    } catch (error) {
+      throw new ContentLoadError(
+        `Error loading content from ${sourcePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        sourcePath
+      );
+    }
+
+    return content;
+  }
+
+  /**
+   * Replace include directives with the content of the files they name
+   *
+   * `<!-- include: ./module-2.md -->` on its own line inserts another file,
+   * resolved relative to the including file. `slides="2-4,7"` keeps only
+   * those `---`-separated slides of it. Included files may include others;
+   * their front matter is ignored.
+   *
+   * Code blocks with a `file=` option are filled from source files the same
+   * way: ```` ```ts file=./src/server.ts#L10-L42 ```` takes lines 10 to 42,
+   * `#setup` the lines between `#region setup` and `#endregion` comments.
+   * Without a language, the file extension picks one.
+   *
+   * The file and line of every resolved line are kept, so slides parsed
+   * from the result know where they were written.
+   * @param content - Markdown that may contain include directives
+   * @param sourcePath - Path or URL of that markdown
+   * @param load - Loads an included file, fetching it by default
+   * @returns The markdown with every include resolved
+   */
+  async resolveIncludes(
+    content: string,
+    sourcePath: string,
+    load: ContentLoader = this.loadInclude
+  ): Promise<string> {
+    const lines = await this.expandIncludes(content, [sourcePath], load, 1);
+    const resolved = lines.map((line) => line.text).join("\n");
+    this.resolvedSource = { content: resolved, lines };
+    return resolved;
+  }
+
+  private async fetchSource(sourcePath: string): Promise<string> {
     try {
       // Check cache first
       if (this.cache.has(sourcePath)) {
@@ -37,9 +222,6 @@ export class ContentService {
 
       const content = await response.text();
 
-      // Validate content
-      this.validateContent(content);
-
       // Cache the content
       this.cache.set(sourcePath, content);
 
@@ -58,6 +240,9 @@ export class ContentService {
 
   /**
    * Parse content into slides
+   *
+   * Slides whose markdown is unchanged since the previous call are not
+   * parsed again, which keeps re-parsing large decks while editing cheap.
    * @param content - Raw content string
    * @returns Array of parsed slides
    */
@@ -72,6 +257,15 @@ export class ContentService {
     }
   }
 
+  /**
+   * Extract the YAML front-matter block at the top of the content
+   * @param content - Raw content string
+   * @returns Front matter settings (null when absent) and the remaining markdown
+   */
+  extractFrontMatter(content: string): FrontMatterResult {
+    return this.frontMatterParser.extract(content);
+  }
+
   /**
    * Parse markdown content to HTML
    * @param content - Markdown content
@@ -92,6 +286,7 @@ export class ContentService {
    */
   clearCache(): void {
     this.cache.clear();
+    this.parsedSlides.clear();
   }
 
   /**
@@ -104,12 +299,355 @@ export class ContentService {
     };
   }
 
+  private async expandIncludes(
+    content: string,
+    chain: string[],
+    load: ContentLoader,
+    firstLine: number
+  ): Promise<SourceLine[]> {
+    const file = chain[chain.length - 1];
+    const lines = content.split("\n");
+    const result: SourceLine[] = [];
+    let inFence = false;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      const lineNumber = firstLine + index;
+
+      const snippetFence = !inFence && line.match(SNIPPET_FENCE_PATTERN);
+      if (snippetFence) {
+        const [, indent, fence, info] = snippetFence;
+        // The block's own body is only a placeholder
+        const closing = lines.findIndex(
+          (text, position) => position > index && text.trim() === fence
+        );
+        if (closing === -1) {
+          throw new ContentParseError(
+            `Code block with ${info.trim()} at ${file}:${lineNumber} has no closing ${fence}`
+          );
+        }
+        index = closing;
+
+        // The imported code is located at its fence
+        const snippet = await this.loadSnippet(
+          indent,
+          info.trim(),
+          chain,
+          load
+        );
+        snippet.split("\n").forEach((text) => {
+          result.push({ text, file, line: lineNumber });
+        });
+        continue;
+      }
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      const match = !inFence && line.match(INCLUDE_PATTERN);
+      if (!match) {
+        result.push({ text: line, file, line: lineNumber });
+        continue;
+      }
+
+      const includePath = this.resolveIncludePath(file, match[1]);
+      const includeChain = [...chain, includePath];
+
+      if (chain.includes(includePath)) {
+        throw new ContentLoadError(
+          `Circular include: ${includeChain.join(" → ")}`,
+          includePath
+        );
+      }
+
+      let included: string;
+      try {
+        included = await load(includePath);
+      } catch (error) {
+        throw new ContentLoadError(
+          `Failed to include ${includePath} (${includeChain.join(" → ")}): ${error instanceof Error ? error.message : "Unknown error"}`,
+          includePath,
+          error instanceof ContentLoadError ? error.statusCode : undefined
+        );
+      }
+
+      const { body } = this.frontMatterParser.extract(included);
+      let includedLines = await this.expandIncludes(
+        body,
+        includeChain,
+        load,
+        this.countLines(included.slice(0, included.length - body.length)) + 1
+      );
+
+      if (match[3]) {
+        includedLines = this.selectSlides(
+          includedLines,
+          match[3],
+          includeChain
+        );
+      }
+
+      const trimmed = this.trimLines(includedLines);
+      result.push(
+        ...(trimmed.length > 0
+          ? trimmed
+          : [{ text: "", file, line: lineNumber }])
+      );
+    }
+
+    return result;
+  }
+
+  // Drop blank lines around the content and trim its first and last line,
+  // as trimming the joined text would
+  private trimLines(lines: SourceLine[]): SourceLine[] {
+    let first = 0;
+    let last = lines.length - 1;
+    while (first <= last && !lines[first].text.trim()) first++;
+    while (last >= first && !lines[last].text.trim()) last--;
+    if (first > last) return [];
+
+    const trimmed = lines.slice(first, last + 1).map((line) => ({ ...line }));
+    trimmed[0].text = trimmed[0].text.trimStart();
+    trimmed[trimmed.length - 1].text =
+      trimmed[trimmed.length - 1].text.trimEnd();
+    return trimmed;
+  }
+
+  // Number of line breaks in a piece of text
+  private countLines(text: string): number {
+    return text.split("\n").length - 1;
+  }
+
+  // Build the fenced code block of a `file=` snippet
+  private async loadSnippet(
+    indent: string,
+    info: string,
+    chain: string[],
+    load: ContentLoader
+  ): Promise<string> {
+    const options = info.split(/\s+/);
+    const fileOption = options.find((option) => option.startsWith("file="))!;
+    const [file, anchor] = fileOption.slice("file=".length).split("#");
+    const snippetPath = this.resolveIncludePath(chain[chain.length - 1], file);
+    const chainText = [...chain, snippetPath].join(" → ");
+
+    const meta = options.filter((option) => option !== fileOption);
+    const language =
+      meta[0] && !meta[0].includes("=") && !meta[0].startsWith("{")
+        ? meta.shift()!
+        : this.inferSnippetLanguage(file);
+
+    let source: string;
+    try {
+      source = await load(snippetPath, { raw: true });
+    } catch (error) {
+      throw new ContentLoadError(
+        `Failed to load code snippet ${snippetPath} (${chainText}): ${error instanceof Error ? error.message : "Unknown error"}`,
+        snippetPath,
+        error instanceof ContentLoadError ? error.statusCode : undefined
+      );
+    }
+
+    const { code, startLine } = this.selectSnippetLines(
+      source.replace(/\r\n?/g, "\n"),
+      anchor,
+      chainText
+    );
+    if (startLine > 1 && !meta.some((option) => option.startsWith("start="))) {
+      meta.push(`start=${startLine}`);
+    }
+
+    // The fence must be longer than any backtick run in the code
+    const longestRun = Math.max(
+      2,
+      ...(code.match(/`+/g) || []).map((run) => run.length)
+    );
+    const fence = "`".repeat(longestRun + 1);
+
+    return [
+      `${fence}${[language, ...meta].filter(Boolean).join(" ")}`,
+      ...code.split("\n"),
+      fence,
+    ]
+      .map((line) => (line ? indent + line : line))
+      .join("\n");
+  }
+
+  // Lines of a snippet: a range such as `L10-L42`, a `#region` or the file
+  private selectSnippetLines(
+    source: string,
+    anchor: string | undefined,
+    chainText: string
+  ): { code: string; startLine: number } {
+    const lines = source.replace(/\n$/, "").split("\n");
+    if (!anchor) {
+      return { code: lines.join("\n"), startLine: 1 };
+    }
+
+    const range = anchor.match(SNIPPET_LINES_PATTERN);
+    if (range) {
+      const start = parseInt(range[1], 10);
+      const end = range[2] ? parseInt(range[2], 10) : start;
+      if (start < 1 || end < start || end > lines.length) {
+        throw new ContentParseError(
+          `Lines ${anchor} are outside the code snippet (${chainText}), which has ${lines.length} lines`
+        );
+      }
+      return {
+        code: this.dedent(lines.slice(start - 1, end)),
+        startLine: start,
+      };
+    }
+
+    const isMarker = (line: string, marker: string) =>
+      new RegExp(`#${marker}\\b`).test(line);
+    const start = lines.findIndex(
+      (line) =>
+        isMarker(line, "region") &&
+        line
+          .split(/#region\s+/)[1]
+          ?.trim()
+          .split(/\s/)[0] === anchor
+    );
+    if (start === -1) {
+      throw new ContentParseError(
+        `Region "${anchor}" not found in the code snippet (${chainText})`
+      );
+    }
+
+    // Nested regions end at their own #endregion
+    let depth = 0;
+    let end = start + 1;
+    for (; end < lines.length; end++) {
+      if (isMarker(lines[end], "region")) depth++;
+      if (isMarker(lines[end], "endregion") && depth-- === 0) break;
+    }
+
+    const regionLines = lines
+      .slice(start + 1, end)
+      .filter(
+        (line) => !isMarker(line, "region") && !isMarker(line, "endregion")
+      );
+    return { code: this.dedent(regionLines), startLine: start + 2 };
+  }
+
+  private dedent(lines: string[]): string {
+    const indent = Math.min(
+      ...lines
+        .filter((line) => line.trim())
+        .map((line) => line.match(/^\s*/)![0].length)
+    );
+    return lines
+      .map((line) => (isFinite(indent) ? line.slice(indent) : line))
+      .join("\n");
+  }
+
+  private inferSnippetLanguage(file: string): string {
+    const name = file.split(/[\\/]/).pop()!.toLowerCase();
+    const extension = name.includes(".") ? name.split(".").pop()! : name;
+    return SNIPPET_LANGUAGES[extension] ?? extension;
+  }
+
+  // Resolve an include relative to the including file; paths may be URLs or
+  // file paths with either separator
+  private resolveIncludePath(basePath: string, includePath: string): string {
+    if (URL_PATTERN.test(includePath) || includePath.startsWith("/")) {
+      return includePath;
+    }
+    if (URL_PATTERN.test(basePath)) {
+      return new URL(includePath, basePath).href;
+    }
+
+    const segments = [
+      ...basePath.split(/[\\/]/).slice(0, -1),
+      ...includePath.split(/[\\/]/),
+    ];
+    const resolved: string[] = [];
+    segments.forEach((segment, index) => {
+      const previous = resolved[resolved.length - 1];
+      if (segment === "." || (segment === "" && index > 0)) return;
+      if (segment === ".." && previous !== undefined && previous !== "..") {
+        if (previous !== "") resolved.pop();
+        return;
+      }
+      resolved.push(segment);
+    });
+
+    return resolved.join("/");
+  }
+
+  // Keep the `---`-separated slides listed in a range such as "2-4,7,9-"
+  private selectSlides(
+    lines: SourceLine[],
+    range: string,
+    includeChain: string[]
+  ): SourceLine[] {
+    const slides: SourceLine[][] = [[]];
+    lines.forEach((line) => {
+      if (/^---\s*$/.test(line.text)) {
+        slides.push([]);
+      } else {
+        slides[slides.length - 1].push(line);
+      }
+    });
+    const nonEmpty = slides
+      .map((slide) => this.trimLines(slide))
+      .filter((slide) => slide.length > 0);
+    const selected = new Set<number>();
+
+    range.split(",").forEach((part) => {
+      const match = part.trim().match(/^(\d+)(?:-(\d*))?$/);
+      if (!match) {
+        throw new ContentParseError(
+          `Invalid slide range "${range}" in include ${includeChain.join(" → ")}`
+        );
+      }
+
+      const start = parseInt(match[1], 10);
+      const end =
+        match[2] === undefined
+          ? start
+          : match[2] === ""
+            ? nonEmpty.length
+            : parseInt(match[2], 10);
+      for (
+        let slide = start;
+        slide <= Math.min(end, nonEmpty.length);
+        slide++
+      ) {
+        selected.add(slide - 1);
+      }
+    });
+
+    // Separators between the kept slides are located at the slide that follows
+    return nonEmpty
+      .filter((_slide, index) => selected.has(index))
+      .flatMap((slide, index) => {
+        if (index === 0) return slide;
+        const { file, line } = slide[0];
+        return [
+          { text: "", file, line },
+          { text: "---", file, line },
+          { text: "", file, line },
+          ...slide,
+        ];
+      });
+  }
+
   /**
    * Parse markdown content into slides
    * @param content - Raw markdown content
    * @returns Array of slides
    */
-  private parseMarkdown(content: string): MoSlide[] {
+  private parseMarkdown(rawContent: string): MoSlide[] {
+    // Front matter holds settings, not slides
+    const content = this.frontMatterParser.extract(rawContent).body;
+    const firstLine =
+      this.countLines(rawContent.slice(0, rawContent.length - content.length)) +
+      1;
+
     // Handle empty content
     if (!content || content.trim().length === 0) {
       return [
@@ -117,27 +655,557 @@ export class ContentService {
           id: "slide-0",
           content: "",
           html: "<div class='empty-slide'>Start typing your presentation content here...</div>",
+          position: { horizontal: 0, vertical: 0 },
         },
       ];
     }
 
-    const slideContents = content
-      .split(/^---\s*$/gm)
-      .filter((slide) => slide.trim());
+    const slideContents = this.splitSlides(content);
 
     if (slideContents.length === 0) {
       throw new ContentParseError("No slides found in content");
     }
 
-    return slideContents.map((slideContent, index) => {
-      const trimmedContent = slideContent.trim();
+    // Content resolved from files maps its lines back to them
+    const sourceLines =
+      this.resolvedSource?.content === rawContent
+        ? this.resolvedSource.lines
+        : null;
+
+    // Slides whose markdown is unchanged since the last parse are reused
+    const previousSlides = this.parsedSlides;
+    this.parsedSlides = new Map();
+
+    // Lines are counted on from the previous slide, not from the top
+    let counted = 0;
+    let line = firstLine;
+    const lineAt = (offset: number) => {
+      line += this.countLines(content.slice(counted, offset));
+      counted = offset;
+      return line;
+    };
 
+    // Ids depend on the headings of all slides, so they are chosen first
+    const parts = slideContents.map((section) => {
+      const trimmedContent = section.content.trim();
+      const { body: visibleContent, directives } =
+        this.extractDirectives(trimmedContent);
       return {
-        id: `slide-${index}`,
-        content: trimmedContent,
-        html: this.markdownParser.parse(trimmedContent),
+        section,
+        trimmedContent,
+        directives,
+        ...this.extractNotes(visibleContent),
       };
     });
+    const ids = createSlideIds(
+      parts.map(({ directives, body }) => ({
+        id: directives.id,
+        heading: this.findHeading(body),
+      }))
+    );
+
+    return parts.map(
+      ({ section, trimmedContent, directives, body, notes }, index) => {
+        const start =
+          section.start +
+          section.content.length -
+          section.content.trimStart().length;
+        const startLine = lineAt(start);
+        const endLine = lineAt(start + trimmedContent.length);
+        const placement = {
+          id: ids[index],
+          position: section.position,
+          source: this.locateLines(startLine, endLine, sourceLines),
+        };
+
+        const previous = previousSlides.get(trimmedContent);
+        if (previous) {
+          const slide = { ...this.copySlide(previous), ...placement };
+          this.parsedSlides.set(trimmedContent, this.copySlide(slide));
+          return slide;
+        }
+
+        const slide: MoSlide = {
+          content: trimmedContent,
+          body,
+          html: "",
+          ...placement,
+        };
+
+        if (notes) {
+          slide.notes = {
+            content: notes,
+            html: this.markdownParser.parse(notes),
+          };
+        }
+
+        this.applyDirectives(slide, directives);
+
+        let markdown = body;
+        this.slideHooks.forEach((hooks) => {
+          markdown = hooks.preParse?.(slide, markdown) ?? markdown;
+        });
+        slide.html = this.renderSlideBody(slide, markdown);
+        this.slideHooks.forEach((hooks) => hooks.postParse?.(slide));
+
+        this.parsedSlides.set(trimmedContent, this.copySlide(slide));
+        return slide;
+      }
+    );
+  }
+
+  // Text of the first `#` heading outside code blocks
+  private findHeading(markdown: string): string | undefined {
+    let inFence = false;
+    for (const line of markdown.split("\n")) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+      const match =
+        !inFence && line.match(/^ {0,3}#{1,6}[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/);
+      if (match) return match[1];
+    }
+    return undefined;
+  }
+
+  // Parsed slides are changed afterwards, e.g. cleaned in safe mode, so the
+  // slides kept for reuse are copies
+  private copySlide(slide: MoSlide): MoSlide {
+    return {
+      ...slide,
+      ...(slide.notes && { notes: { ...slide.notes } }),
+      ...(slide.regions && { regions: { ...slide.regions } }),
+    };
+  }
+
+  // `---` separates horizontal stacks, `--` separates vertical sub-slides.
+  // `--` needs blank lines around it, as under a paragraph it is a heading.
+  private splitSlides(content: string): SlideSection[] {
+    const slideContents: SlideSection[] = [];
+    const isBlank = (line: string | undefined) => !line?.trim();
+    this.splitRanges(
+      content,
+      (lines, index) => /^---\s*$/.test(lines[index]),
+      0
+    )
+      .filter(({ start, end }) => content.slice(start, end).trim())
+      .forEach((stack, horizontal) => {
+        this.splitRanges(
+          content.slice(stack.start, stack.end),
+          (lines, index) =>
+            /^--\s*$/.test(lines[index]) &&
+            isBlank(lines[index - 1]) &&
+            isBlank(lines[index + 1]),
+          stack.start
+        )
+          .filter(({ start, end }) => content.slice(start, end).trim())
+          .forEach(({ start, end }, vertical) => {
+            slideContents.push({
+              content: content.slice(start, end),
+              position: { horizontal, vertical },
+              start,
+              end,
+            });
+          });
+      });
+    return slideContents;
+  }
+
+  // Character ranges of the text between separator lines, which are never
+  // inside fenced code blocks
+  private splitRanges(
+    text: string,
+    isSeparator: (lines: string[], index: number) => boolean,
+    offset: number
+  ): { start: number; end: number }[] {
+    const ranges: { start: number; end: number }[] = [];
+    const lines = text.split("\n");
+    let start = 0;
+    let position = 0;
+    let inFence = false;
+
+    lines.forEach((line, index) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      } else if (!inFence && isSeparator(lines, index)) {
+        ranges.push({ start: offset + start, end: offset + position });
+        start = position + line.length;
+      }
+      position += line.length + 1;
+    });
+    ranges.push({ start: offset + start, end: offset + text.length });
+    return ranges;
+  }
+
+  // Map a slide's lines in the content to the file lines they came from.
+  // The range ends at the last line from the file the slide starts in.
+  private locateLines(
+    startLine: number,
+    endLine: number,
+    sourceLines: SourceLine[] | null
+  ): MoSlideSource {
+    const first = sourceLines?.[startLine - 1];
+    if (!sourceLines || !first) {
+      return { startLine, endLine };
+    }
+
+    let last = first.line;
+    sourceLines.slice(startLine, endLine).forEach(({ file, line }) => {
+      if (file === first.file) last = Math.max(last, line);
+    });
+    return { file: first.file, startLine: first.line, endLine: last };
+  }
+
+  // Name a slide in messages, with the line it starts at
+  private describeSlide(slide: MoSlide): string {
+    if (!slide.source) return `slide "${slide.id}"`;
+
+    const { file, startLine } = slide.source;
+    return `slide "${slide.id}" (${file ? `${file}:${startLine}` : `line ${startLine}`})`;
+  }
+
+  /**
+   * Render the visible part of a slide, arranged by its layout
+   *
+   * `::name::` on its own line starts a region and the content before the
+   * first separator is the `default` region. Slides with a registered layout
+   * are wrapped in its template even without separators; other layout names
+   * only add a class to the slide.
+   * @param slide - Slide with its directives applied
+   * @param body - Slide markdown without directives and notes
+   * @returns The slide's HTML
+   */
+  private renderSlideBody(slide: MoSlide, body: string): string {
+    const layout = slide.layout;
+    const hasLayout = !!layout && this.slideLayouts.has(layout);
+    const markdownRegions = this.extractRegions(body);
+
+    if (!markdownRegions && !hasLayout) {
+      return this.markdownParser.parse(body);
+    }
+
+    const regions: Record<string, string> = {};
+    Object.entries(markdownRegions ?? { default: body }).forEach(
+      ([slot, markdown]) => {
+        regions[slot] = this.markdownParser.parse(markdown);
+      }
+    );
+    slide.regions = regions;
+
+    if (hasLayout) {
+      const slots = this.slideLayouts.getSlots(layout);
+      const unplaced = Object.keys(regions).filter(
+        (slot) => !slots.includes(slot)
+      );
+      if (unplaced.length > 0) {
+        console.warn(
+          `Layout "${layout}" on ${this.describeSlide(slide)} has no place for ${unplaced.map((slot) => `::${slot}::`).join(", ")}. Available regions: ${slots.join(", ")}`
+        );
+      }
+      return this.slideLayouts.render(layout, regions);
+    }
+
+    if (layout) {
+      console.warn(
+        `Unknown layout "${layout}" on ${this.describeSlide(slide)}. Available layouts: ${this.slideLayouts.getNames().join(", ")}`
+      );
+    }
+
+    // Without a layout the regions are stacked in the order written
+    const stacked = Object.entries(regions)
+      .map(
+        ([slot, html]) =>
+          `<div class="mostage-region mostage-region-${slot}">${html}</div>`
+      )
+      .join("");
+    return `<div class="mostage-layout">${stacked}</div>`;
+  }
+
+  /**
+   * Split slide markdown at `::slot::` separators
+   * Separators inside fenced code blocks are ignored.
+   * @param content - Slide markdown
+   * @returns Non-empty regions by slot name, or null without separators
+   */
+  private extractRegions(content: string): Record<string, string> | null {
+    const regionLines: Record<string, string[]> = { default: [] };
+    let slot = "default";
+    let inFence = false;
+    let hasSeparators = false;
+
+    for (const line of content.split("\n")) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      const match = !inFence && line.match(REGION_PATTERN);
+      if (match) {
+        slot = match[1];
+        regionLines[slot] = regionLines[slot] ?? [];
+        hasSeparators = true;
+        continue;
+      }
+
+      regionLines[slot].push(line);
+    }
+
+    if (!hasSeparators) {
+      return null;
+    }
+
+    const regions: Record<string, string> = {};
+    Object.entries(regionLines).forEach(([name, lines]) => {
+      const markdown = lines.join("\n").trim();
+      if (markdown) {
+        regions[name] = markdown;
+      }
+    });
+    return regions;
+  }
+
+  /**
+   * Extract per-slide directives
+   *
+   * Directives are written either inline as attributes,
+   * `<!-- .slide: background="#000" transition="fade" class="dark" -->`,
+   * or as a YAML-ish block with one `key: value` per line:
+   *
+   * ```
+   * <!-- .slide
+   * background: ./images/cover.png
+   * transition: fade
+   * -->
+   * ```
+   *
+   * Directives shown inside fenced code blocks are left in the code.
+   * @param content - Trimmed slide markdown
+   * @returns Slide markdown without directive comments and the directives found
+   */
+  private extractDirectives(content: string): {
+    body: string;
+    directives: Record<string, string>;
+  } {
+    const directives: Record<string, string> = {};
+
+    const body = this.replaceOutsideFences(content, (text) =>
+      text.replace(
+        /<!--\s*\.slide(?::|\s)([\s\S]*?)-->/g,
+        (_match, rawDirectives: string) => {
+          const lines = rawDirectives.trim().split("\n");
+          const isBlock =
+            lines.length > 1 || /^[\w-]+\s*:(?!\/\/)/.test(lines[0].trim());
+
+          if (isBlock) {
+            lines.forEach((line) => {
+              const match = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+              if (match) {
+                directives[this.normalizeDirectiveKey(match[1])] = this.unquote(
+                  match[2]
+                );
+              }
+            });
+          } else {
+            const attributePattern =
+              /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+            let match: RegExpExecArray | null;
+            while ((match = attributePattern.exec(rawDirectives)) !== null) {
+              directives[this.normalizeDirectiveKey(match[1])] =
+                match[2] ?? match[3] ?? match[4];
+            }
+          }
+
+          return "";
+        }
+      )
+    );
+
+    return { body: body.trim(), directives };
+  }
+
+  /**
+   * Rewrite the parts of markdown outside fenced code blocks
+   * @param content - Markdown
+   * @param replace - Rewrites one run of lines between code blocks
+   */
+  private replaceOutsideFences(
+    content: string,
+    replace: (text: string) => string
+  ): string {
+    const parts: string[] = [];
+    let text: string[] = [];
+    let inFence = false;
+
+    content.split("\n").forEach((line) => {
+      const isFence = /^\s*(```|~~~)/.test(line);
+      if (isFence && !inFence && text.length > 0) {
+        parts.push(replace(text.join("\n")));
+        text = [];
+      }
+      if (inFence || isFence) {
+        parts.push(line);
+      } else {
+        text.push(line);
+      }
+      if (isFence) {
+        inFence = !inFence;
+      }
+    });
+    if (text.length > 0) {
+      parts.push(replace(text.join("\n")));
+    }
+
+    return parts.join("\n");
+  }
+
+  /**
+   * Apply parsed directives to a slide
+   * @param slide - Slide to update
+   * @param directives - Normalized directives
+   */
+  private applyDirectives(
+    slide: MoSlide,
+    directives: Record<string, string>
+  ): void {
+    if (directives.class) {
+      slide.className = directives.class;
+    }
+
+    if (directives.layout) {
+      slide.layout = directives.layout;
+    }
+
+    const background: MoSlideBackground = {};
+    if (directives.background) {
+      if (this.isImageValue(directives.background)) {
+        background.image = directives.background;
+      } else {
+        background.color = directives.background;
+      }
+    }
+    if (directives.backgroundcolor) {
+      background.color = directives.backgroundcolor;
+    }
+    if (directives.backgroundimage) {
+      background.image = directives.backgroundimage;
+    }
+    if (directives.backgroundsize) {
+      background.size = directives.backgroundsize;
+    }
+    if (directives.backgroundposition) {
+      background.position = directives.backgroundposition;
+    }
+    if (directives.backgroundrepeat) {
+      background.repeat = directives.backgroundrepeat;
+    }
+    if (Object.keys(background).length > 0) {
+      slide.background = background;
+    }
+
+    const transition: TransitionConfig = {};
+    if (directives.transition) {
+      if (SLIDE_TRANSITION_TYPES.includes(directives.transition)) {
+        transition.type = directives.transition as TransitionConfig["type"];
+      } else {
+        console.warn(
+          `Unknown transition "${directives.transition}" on ${this.describeSlide(slide)}. Available transitions: ${SLIDE_TRANSITION_TYPES.join(", ")}`
+        );
+      }
+    }
+    if (directives.transitionduration) {
+      const duration = parseInt(directives.transitionduration, 10);
+      if (!isNaN(duration) && duration >= 0) {
+        transition.duration = duration;
+      }
+    }
+    if (directives.transitioneasing) {
+      transition.easing = directives.transitioneasing;
+    }
+    if (Object.keys(transition).length > 0) {
+      slide.transition = transition;
+    }
+  }
+
+  /**
+   * Normalize directive keys so `background-color`, `backgroundColor`
+   * and `data-background-color` are treated the same
+   */
+  private normalizeDirectiveKey(key: string): string {
+    return key
+      .replace(/^data-/i, "")
+      .replace(/-/g, "")
+      .toLowerCase();
+  }
+
+  private unquote(value: string): string {
+    return value.replace(/^(["'])(.*)\1$/, "$2");
+  }
+
+  private isImageValue(value: string): boolean {
+    return (
+      /^url\(/i.test(value) ||
+      /^(https?:|data:image\/|\.{0,2}\/)/i.test(value) ||
+      /\.(png|jpe?g|gif|svg|webp|avif)(\?.*)?$/i.test(value)
+    );
+  }
+
+  /**
+   * Split speaker notes from the visible part of a slide
+   *
+   * Notes are either wrapped in `<!-- notes -->` ... `<!-- /notes -->`
+   * (the closing comment is optional and defaults to the end of the slide)
+   * or follow a `Notes:` (or `Note:`) line of its own and run to the end of
+   * the slide. A paragraph that merely starts with "Note:" stays on the slide.
+   * Markers inside fenced code blocks are ignored.
+   * @param content - Trimmed slide markdown
+   * @returns Slide body without notes and the raw notes markdown, if any
+   */
+  private extractNotes(content: string): { body: string; notes?: string } {
+    const lines = content.split("\n");
+    const bodyLines: string[] = [];
+    const noteLines: string[] = [];
+    let inFence = false;
+    let inNotesBlock = false;
+    let inTrailingNotes = false;
+
+    for (const line of lines) {
+      if (inTrailingNotes) {
+        noteLines.push(line);
+        continue;
+      }
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      if (!inFence && /^\s*<!--\s*notes?\s*-->\s*$/i.test(line)) {
+        inNotesBlock = true;
+        continue;
+      }
+
+      if (inNotesBlock) {
+        if (!inFence && /^\s*<!--\s*\/notes?\s*-->\s*$/i.test(line)) {
+          inNotesBlock = false;
+        } else {
+          noteLines.push(line);
+        }
+        continue;
+      }
+
+      if (!inFence && /^\s*Notes?:\s*$/.test(line)) {
+        inTrailingNotes = true;
+        continue;
+      }
+
+      bodyLines.push(line);
+    }
+
+    const notes = noteLines.join("\n").trim();
+
+    return {
+      body: bodyLines.join("\n").trim(),
+      notes: notes || undefined,
+    };
   }
 
   /**
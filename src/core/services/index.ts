@@ -11,6 +11,7 @@ export { ConfigService } from "./config-service";
 export { ThemeService } from "./theme-service";
 export { PluginService } from "./plugin-service";
 export { NavigationService } from "./navigation-service";
+export type { NavigationDirection } from "./navigation-service";
 
 // Service utilities and helpers
 export { plugins } from "./plugin-service";
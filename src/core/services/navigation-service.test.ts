@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NavigationService } from "./navigation-service";
+import { MoSlide } from "../types";
+
+const slides: MoSlide[] = [
+  { id: "one", content: "# One", html: "<h1>One</h1>" },
+  { id: "two", content: "# Two", html: "<h1>Two</h1>" },
+  { id: "three", content: "# Three", html: "<h1>Three</h1>" },
+];
+
+describe("NavigationService", () => {
+  let service: NavigationService;
+  let onNavigate: ReturnType<typeof vi.fn>;
+
+  const press = (key: string) => {
+    const event = new KeyboardEvent("keydown", { key, cancelable: true });
+    document.dispatchEvent(event);
+    return event.defaultPrevented;
+  };
+
+  beforeEach(() => {
+    onNavigate = vi.fn();
+    service = new NavigationService(document.body, true, false, onNavigate);
+    service.setSlides(slides);
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it("should navigate with the default keys", () => {
+    service.setupNavigation();
+
+    expect(press("ArrowRight")).toBe(true);
+    expect(press("End")).toBe(true);
+    expect(onNavigate.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it("should use the configured keys instead of the defaults", () => {
+    service.configureKeyboard({ next: "n", last: false });
+    service.setupNavigation();
+
+    expect(press("ArrowRight")).toBe(false);
+    expect(press("End")).toBe(false);
+    expect(onNavigate).not.toHaveBeenCalled();
+
+    expect(press("n")).toBe(true);
+    expect(onNavigate).toHaveBeenCalledWith(1);
+  });
+});
@@ -3,7 +3,26 @@
  * Provides centralized navigation management with enhanced functionality
  */
 
-import { MoSlide } from "@/types";
+import { KeyboardBindings, MoSlide, MoSlidePosition } from "@/types";
+import {
+  KeyboardActions,
+  createNavigationActions,
+} from "../components/navigation/keyboard";
+
+/**
+ * Direction of a move on the grid of horizontal stacks and vertical sub-slides
+ */
+export type NavigationDirection = "left" | "right" | "up" | "down";
+
+/**
+ * Callbacks for stepping forward and across the slide grid,
+ * used by gestures and keys so the engine can reveal fragments before
+ * changing slides
+ */
+export interface NavigationStepCallbacks {
+  next: () => void;
+  navigate: (direction: NavigationDirection) => void;
+}
 
 /**
  * Enhanced Navigation Service
@@ -16,18 +35,37 @@ export class NavigationService {
   private keyboardEnabled = false;
   private touchEnabled = false;
   private navigationCallback?: (index: number) => void;
+  private stepCallbacks?: NavigationStepCallbacks;
+  private keyboardActions = new KeyboardActions();
   private eventListeners: Map<string, any> = new Map();
 
   constructor(
     container: HTMLElement,
     keyboardEnabled: boolean = false,
     touchEnabled: boolean = false,
-    navigationCallback?: (index: number) => void
+    navigationCallback?: (index: number) => void,
+    stepCallbacks?: NavigationStepCallbacks
   ) {
     this.container = container;
     this.keyboardEnabled = keyboardEnabled;
     this.touchEnabled = touchEnabled;
     this.navigationCallback = navigationCallback;
+    this.stepCallbacks = stepCallbacks;
+
+    createNavigationActions({
+      navigate: (direction) => this.stepDirection(direction),
+      advance: () => this.stepForward(),
+      first: () => this.goToFirstSlide(),
+      last: () => this.goToLastSlide(),
+    }).forEach((action) => this.keyboardActions.register(action));
+  }
+
+  /**
+   * Remap or turn off navigation keys, by action name as in the `keyboard`
+   * configuration
+   */
+  configureKeyboard(bindings: KeyboardBindings): void {
+    this.keyboardActions.configure(bindings);
   }
 
   /**
@@ -122,28 +160,10 @@ export class NavigationService {
    * Handle keyboard events
    */
   private handleKeyboardEvent(event: KeyboardEvent): void {
-    const key = event.key;
-
-    switch (key) {
-      case "ArrowRight":
-      case "ArrowDown":
-      case " ":
-        event.preventDefault();
-        this.nextSlide();
-        break;
-      case "ArrowLeft":
-      case "ArrowUp":
-        event.preventDefault();
-        this.previousSlide();
-        break;
-      case "Home":
-        event.preventDefault();
-        this.goToFirstSlide();
-        break;
-      case "End":
-        event.preventDefault();
-        this.goToLastSlide();
-        break;
+    const action = this.keyboardActions.find(event);
+    if (action) {
+      event.preventDefault();
+      action.run();
     }
   }
 
@@ -166,9 +186,9 @@ export class NavigationService {
       Math.abs(deltaX) > minSwipeDistance
     ) {
       if (deltaX > 0) {
-        this.previousSlide();
+        this.stepDirection("left");
       } else {
-        this.nextSlide();
+        this.stepDirection("right");
       }
     }
     // Check if it's a vertical swipe
@@ -177,15 +197,37 @@ export class NavigationService {
       Math.abs(deltaY) > minSwipeDistance
     ) {
       if (deltaY > 0) {
-        // Swipe down - go to previous slide
-        this.previousSlide();
+        // Swipe down - go up the stack
+        this.stepDirection("up");
       } else {
-        // Swipe up - go to next slide
-        this.nextSlide();
+        // Swipe up - go down the stack
+        this.stepDirection("down");
       }
     }
   }
 
+  /**
+   * Move across the slide grid, through the engine when step callbacks are provided
+   */
+  private stepDirection(direction: NavigationDirection): void {
+    if (this.stepCallbacks) {
+      this.stepCallbacks.navigate(direction);
+    } else {
+      this.navigate(direction);
+    }
+  }
+
+  /**
+   * Step forward, through the engine when step callbacks are provided
+   */
+  private stepForward(): void {
+    if (this.stepCallbacks) {
+      this.stepCallbacks.next();
+    } else {
+      this.nextSlide();
+    }
+  }
+
   /**
    * Navigate to next slide
    */
@@ -204,6 +246,89 @@ export class NavigationService {
     }
   }
 
+  /**
+   * Navigate in a direction on the slide grid
+   */
+  navigate(direction: NavigationDirection): void {
+    const index = this.getNeighbourIndex(this.currentSlideIndex, direction);
+    if (index >= 0) {
+      this.goToSlide(index);
+    }
+  }
+
+  /**
+   * Get the slide reached by moving from a slide in a direction on the grid.
+   * Left and right move between stacks and land on the top of the stack,
+   * up and down walk the current stack. Decks without vertical slides keep
+   * linear navigation on every arrow.
+   * @returns Target slide index, or -1 when there is nothing in that direction
+   */
+  getNeighbourIndex(
+    index: number,
+    direction: NavigationDirection,
+    loop: boolean = false
+  ): number {
+    if (!this.hasVerticalSlides()) {
+      if (direction === "up") direction = "left";
+      if (direction === "down") direction = "right";
+    }
+
+    const { horizontal, vertical } = this.getSlidePosition(index);
+    const stackCount = this.getStackCount();
+
+    switch (direction) {
+      case "up":
+        return vertical > 0
+          ? this.findSlideIndex(horizontal, vertical - 1)
+          : -1;
+      case "down":
+        return this.findSlideIndex(horizontal, vertical + 1);
+      case "left":
+        if (horizontal > 0) return this.findSlideIndex(horizontal - 1);
+        return loop ? this.findSlideIndex(stackCount - 1) : -1;
+      case "right":
+        if (horizontal < stackCount - 1) {
+          return this.findSlideIndex(horizontal + 1);
+        }
+        return loop ? this.findSlideIndex(0) : -1;
+    }
+  }
+
+  /**
+   * Get the grid position of a slide
+   */
+  getSlidePosition(index: number): MoSlidePosition {
+    return this.slides[index]?.position ?? { horizontal: index, vertical: 0 };
+  }
+
+  /**
+   * Find the slide at a grid position
+   * @returns Slide index, or -1 when there is no slide at that position
+   */
+  findSlideIndex(horizontal: number, vertical: number = 0): number {
+    return this.slides.findIndex((_, index) => {
+      const position = this.getSlidePosition(index);
+      return (
+        position.horizontal === horizontal && position.vertical === vertical
+      );
+    });
+  }
+
+  /**
+   * Get the number of horizontal stacks
+   */
+  getStackCount(): number {
+    if (this.slides.length === 0) return 0;
+    return this.getSlidePosition(this.slides.length - 1).horizontal + 1;
+  }
+
+  /**
+   * Check whether any stack has vertical sub-slides
+   */
+  hasVerticalSlides(): boolean {
+    return this.slides.some((slide) => (slide.position?.vertical ?? 0) > 0);
+  }
+
   /**
    * Go to first slide
    */
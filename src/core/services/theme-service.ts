@@ -1,9 +1,14 @@
 // Import base styles from separate files
 import baseStylesCSS from "../styles/foundation/base.css?raw";
 import typographyStylesCSS from "../styles/foundation/typography.css?raw";
+import layoutStylesCSS from "../styles/foundation/layouts.css?raw";
+import markdownExtensionStylesCSS from "../styles/foundation/markdown-extensions.css?raw";
 import centerContentStylesCSS from "../components/ui/center/center.css?raw";
 import overviewModeStylesCSS from "../components/ui/overview/overview.css?raw";
 import helpStylesCSS from "../components/ui/help/help.css?raw";
+import presenterStylesCSS from "../components/ui/presenter/presenter.css?raw";
+import editorStylesCSS from "../components/ui/editor/editor.css?raw";
+import scaleStylesCSS from "../components/ui/scale/scale.css?raw";
 import responsiveStylesCSS from "../styles/foundation/responsive.css?raw";
 import textContentStylesCSS from "../styles/foundation/text-content.css?raw";
 import { Theme } from "@/types";
@@ -12,10 +17,15 @@ import { Theme } from "@/types";
 const combinedBaseStyles = [
   baseStylesCSS,
   typographyStylesCSS,
+  layoutStylesCSS,
+  markdownExtensionStylesCSS,
   centerContentStylesCSS,
   overviewModeStylesCSS,
   helpStylesCSS,
+  presenterStylesCSS,
+  editorStylesCSS,
   responsiveStylesCSS,
+  scaleStylesCSS,
   textContentStylesCSS,
 ].join("\n");
 
@@ -3,23 +3,73 @@
  * Centralized type definitions for better maintainability
  */
 
+import type { MarkedExtension } from "marked";
+
 // Base plugin interface
 export interface MoPlugin {
   name: string;
+  extendMarkdown?: (mo: MostageInstance, config?: unknown) => void; // Runs before the slides are parsed
   init: (mo: MostageInstance, config?: unknown) => void;
   destroy?: () => void;
   setEnabled?: (enabled: boolean) => void;
   isEnabled?: () => boolean;
 }
 
+// Speaker notes interface
+export interface MoSlideNotes {
+  content: string; // Raw markdown of the notes
+  html: string; // Rendered notes HTML
+}
+
+// Per-slide background set through slide directives
+export interface MoSlideBackground {
+  color?: string;
+  image?: string;
+  size?: string;
+  position?: string;
+  repeat?: string;
+}
+
+// Fixed logical slide size
+export interface MoSlideSize {
+  width: number; // Logical slide width in pixels
+  height: number; // Logical slide height in pixels
+}
+
+// Position of a slide in the grid of horizontal stacks and vertical sub-slides
+export interface MoSlidePosition {
+  horizontal: number; // Stack index (0-based)
+  vertical: number; // Index within the stack (0-based, 0 is the stack's top)
+}
+
+// Where a slide is written: its file and 1-based line range
+export interface MoSlideSource {
+  file?: string; // Path or URL of the file, absent for content passed as a string
+  startLine: number; // First line of the slide's markdown
+  endLine: number; // Last line of the slide's markdown in the same file
+}
+
 // Slide interface
 export interface MoSlide {
-  id: string;
+  id: string; // From the id directive or the first heading, e.g. "getting-started"
   content: string;
+  body?: string; // Visible markdown, without directives and notes
   html: string;
-  notes?: string;
-  background?: string;
-  transition?: string;
+  notes?: MoSlideNotes;
+  background?: MoSlideBackground;
+  transition?: TransitionConfig;
+  className?: string; // Extra CSS classes for the slide element
+  layout?: string; // Layout name for the slide
+  regions?: Record<string, string>; // Rendered HTML of the layout regions, by slot name
+  position?: MoSlidePosition;
+  source?: MoSlideSource; // Lines the slide was parsed from, across includes
+  data?: Record<string, unknown>; // Values plugins attach to the slide while it is parsed
+}
+
+// Hooks that run on every slide while the content is parsed
+export interface SlideParseHooks {
+  preParse?: (slide: MoSlide, markdown: string) => string | void; // Before the slide's markdown is rendered; may return replacement markdown
+  postParse?: (slide: MoSlide) => void; // After slide.html is rendered
 }
 
 // Slide event interface
@@ -28,6 +78,8 @@ export interface MoSlideEvent {
   currentSlide: number;
   totalSlides: number;
   slide?: MoSlide;
+  fragment?: number; // Number of fragment steps revealed on the current slide
+  totalFragments?: number; // Number of fragment steps on the current slide
 }
 
 // Theme interface
@@ -36,6 +88,42 @@ export interface MoTheme {
   css: string;
 }
 
+// Code block configuration
+export interface SyntaxHighlightConfig {
+  lineNumbers?: boolean; // Number the lines of every code block (default: false)
+  copyButton?: boolean; // Add a copy-to-clipboard button to code blocks (default: true)
+  languages?: "auto" | string[]; // Languages to highlight (default: "auto", any Prism language)
+  theme?: string; // Prism color theme, e.g. "okaidia" or "none" (default: "tomorrow")
+}
+
+// An action keys trigger, listed in the help overlay
+export interface KeyboardAction {
+  name: string; // Used in the keyboard configuration, e.g. "next"
+  description: string; // Shown in the help overlay
+  keys: string[]; // Default keys: KeyboardEvent.key values or "Space", optionally with "Ctrl+", "Alt+", "Shift+" or "Meta+"
+  run: () => void;
+  group?: string; // Help overlay section (default: "More")
+  isEnabled?: () => boolean; // Whether the keys currently trigger the action
+}
+
+// Keys of keyboard actions by name; false turns an action's keys off
+export type KeyboardBindings = Record<string, string | string[] | false>;
+
+// Live editor configuration
+export interface EditorConfig {
+  enabled?: boolean; // Let the E key open the editor (default: false)
+  open?: boolean; // Open the editor when the presentation starts (default: false)
+  delay?: number; // Milliseconds after the last keystroke before the slides update (default: 300)
+}
+
+// Safe mode configuration
+export interface SecurityConfig {
+  sanitize?: boolean; // Clean the HTML of slides, notes, header and footer (default: false)
+  allowedTags?: string[]; // Extra tags to keep, added to the defaults
+  allowedAttributes?: string[]; // Extra attributes to keep, e.g. "data-*" wildcards
+  allowedSchemes?: string[]; // Extra URL schemes to keep, e.g. "data"
+}
+
 // Center content configuration
 export interface CenterContentConfig {
   vertical?: boolean;
@@ -97,22 +185,32 @@ export interface PluginsConfig {
 // Main configuration interface
 export interface MoConfig {
   element?: string | HTMLElement;
+  title?: string; // Presentation title, used for the page and export metadata
+  author?: string; // Presentation author, used for export metadata
   theme?: string;
   // Content loading configuration
   contentPath?: string; // File path or URL for content
   content?: string; // Inline content data
   configPath?: string; // Path to configuration file
   scale?: number;
+  width?: number; // Fixed logical slide width in pixels, scaled to fit
+  height?: number; // Fixed logical slide height in pixels, scaled to fit
+  aspectRatio?: string; // Fixed slide aspect ratio, e.g. "16:9" (default width: 1920)
   transition?: TransitionConfig;
   loop?: boolean;
   plugins?: PluginsConfig;
-  keyboard?: boolean;
+  keyboard?: boolean | KeyboardBindings; // Keyboard shortcuts; an object remaps or turns off actions
   touch?: boolean;
   urlHash?: boolean; // Enable URL hash navigation
+  fragments?: boolean; // Reveal fragments step by step (default: true)
   centerContent?: CenterContentConfig; // Built-in content centering
   header?: HeaderConfig; // Header configuration
   footer?: FooterConfig; // Footer configuration
   background?: BackgroundConfig | BackgroundItem[]; // Background configuration (single or array)
+  syntaxHighlight?: SyntaxHighlightConfig; // Code block options
+  layouts?: Record<string, string>; // Custom slide layouts: name -> HTML template with {{slot}} placeholders
+  security?: SecurityConfig; // Safe mode for decks that aren't trusted
+  editor?: EditorConfig; // Live markdown editor next to the slides
 }
 
 // Mostage instance interface (for plugins)
@@ -121,12 +219,22 @@ export interface MostageInstance {
   getTotalSlides(): number;
   getSlides(): MoSlide[];
   getContainer(): HTMLElement;
-  goToSlide(index: number): void;
+  getCurrentFragment(): number;
+  getTotalFragments(): number;
+  whenReady(): Promise<void>;
+  goToSlide(index: number, fragment?: number): Promise<void>;
   nextSlide(): void;
   previousSlide(): void;
   toggleOverview(): void;
+  togglePresenter(): void;
+  toggleEditor(): void;
+  registerKeyboardAction(action: KeyboardAction): void;
+  getSlideSource(index?: number): MoSlideSource | undefined;
+  goToLine(line: number, file?: string): Promise<void>;
   on(event: string, callback: Function): void;
   emit(event: string, data: MoSlideEvent): void;
+  registerMarkdownExtension(name: string, extension: MarkedExtension): void;
+  addSlideHooks(hooks: SlideParseHooks): void;
 }
 
 // Service interfaces
@@ -187,6 +295,7 @@ export interface MostageTestAccess {
   overviewManager: {
     toggleOverview: () => void;
   };
+  handleKeyboard: (event: KeyboardEvent) => void;
 }
 
 // Plugin test access interface
@@ -9,12 +9,23 @@
 export type {
   MoConfig,
   MoSlide,
+  MoSlideNotes,
+  MoSlideBackground,
+  MoSlidePosition,
+  MoSlideSource,
+  MoSlideSize,
+  SlideParseHooks,
   MoPlugin,
   MoSlideEvent,
   MostageInstance,
   TransitionConfig,
   MoTheme,
   CenterContentConfig,
+  SyntaxHighlightConfig,
+  SecurityConfig,
+  EditorConfig,
+  KeyboardAction,
+  KeyboardBindings,
   HeaderConfig,
   PluginsConfig,
   MostageTestAccess,
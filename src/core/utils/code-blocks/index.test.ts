@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from "vitest";
+import { Marked } from "marked";
+import { createCodeBlockExtension, parseCodeMeta } from "./index";
+
+vi.unmock("marked");
+
+describe("Code Blocks", () => {
+  it("should keep the fence info after the language", () => {
+    const markdown = new Marked(createCodeBlockExtension());
+
+    const html = markdown.parse("```ts {1|2} lines\nconst a = '<b>';\n```");
+
+    expect(html).toBe(
+      '<pre><code class="language-ts" data-meta="{1|2} lines">const a = &#x27;&lt;b&gt;&#x27;;\n</code></pre>\n'
+    );
+  });
+
+  it("should leave code blocks without fence info to marked", () => {
+    const markdown = new Marked(createCodeBlockExtension());
+
+    expect(markdown.parse("```js\nx\n```")).toBe(
+      '<pre><code class="language-js">x\n</code></pre>\n'
+    );
+  });
+
+  it("should parse highlight steps and options from the fence info", () => {
+    expect(parseCodeMeta("{3-5|8|all} lines start=10 copy=false")).toEqual({
+      highlightSteps: ["3-5", "8", "all"],
+      lineNumbers: true,
+      startLine: 10,
+      copyButton: false,
+    });
+    expect(parseCodeMeta("lines=false")).toEqual({ lineNumbers: false });
+    expect(parseCodeMeta("")).toEqual({});
+  });
+});
@@ -0,0 +1,135 @@
+import type { MarkedExtension } from "marked";
+
+/**
+ * Code block options
+ * The fence info after a code block's language is kept on the rendered block
+ * and read back when the block is highlighted. Each `|`-separated highlight
+ * step after the first is walked like a fragment of the slide.
+ */
+
+/**
+ * Options of a code block, read from the fence info string,
+ * e.g. ```` ```ts {3-5|8|all} lines start=10 ````
+ */
+export interface CodeBlockOptions {
+  /** Highlighted line ranges per step, e.g. ["3-5", "8", "all"] */
+  highlightSteps?: string[];
+  /** Show line numbers, overriding the configured default */
+  lineNumbers?: boolean;
+  /** Number of the first line */
+  startLine?: number;
+  /** Show the copy button, overriding the configured default */
+  copyButton?: boolean;
+}
+
+/**
+ * Marked extension that keeps the fence info after the language,
+ * e.g. `{3-5|8|all} lines`, as `data-meta` on the code element
+ */
+export function createCodeBlockExtension(): MarkedExtension {
+  return {
+    renderer: {
+      code({ text, lang, escaped }) {
+        const [language, ...meta] = (lang || "").trim().split(/\s+/);
+        if (meta.length === 0) return false;
+
+        const code = text.replace(/\n$/, "") + "\n";
+        return `<pre><code class="language-${escapeHtml(language)}" data-meta="${escapeHtml(meta.join(" "))}">${escaped ? code : escapeHtml(code)}</code></pre>\n`;
+      },
+    },
+  };
+}
+
+/**
+ * Parse the options of a code block from its fence info
+ * @param meta - Fence info after the language, e.g. `{1,3} lines start=5`
+ */
+export function parseCodeMeta(meta: string): CodeBlockOptions {
+  const options: CodeBlockOptions = {};
+
+  const highlights = meta.match(/\{([^}]*)\}/);
+  if (highlights) {
+    options.highlightSteps = highlights[1]
+      .split("|")
+      .map((step) => step.replace(/\s+/g, ""));
+  }
+
+  meta
+    .replace(/\{[^}]*\}/, "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((option) => {
+      const [key, value] = option.split("=");
+      const enabled = value === undefined || value !== "false";
+      if (key === "lines") {
+        options.lineNumbers = enabled;
+      } else if (key === "copy") {
+        options.copyButton = enabled;
+      } else if (key === "start") {
+        const start = parseInt(value, 10);
+        if (!isNaN(start)) {
+          options.startLine = start;
+        }
+      }
+    });
+
+  return options;
+}
+
+/**
+ * Highlight the lines of a step in every stepped code block of a container
+ *
+ * A block shows the step after its last revealed `.mostage-code-step`
+ * fragment, so navigating through the fragments walks the steps.
+ */
+export function updateCodeHighlights(container: HTMLElement): void {
+  container
+    .querySelectorAll<HTMLElement>("pre[data-highlight-steps]")
+    .forEach(showCodeStep);
+}
+
+/**
+ * Highlight the lines of the current step of a stepped code block
+ */
+export function showCodeStep(pre: HTMLElement): void {
+  const steps = (pre.dataset.highlightSteps || "").split("|");
+  const step = Math.min(
+    pre.querySelectorAll(".mostage-code-step.visible").length,
+    steps.length - 1
+  );
+  const lines = parseLineRanges(steps[step]);
+
+  pre.classList.toggle("mostage-code-dimmed", lines !== null);
+  pre.querySelectorAll<HTMLElement>(".code-line").forEach((line) => {
+    line.classList.toggle(
+      "highlighted",
+      !!lines?.has(Number(line.dataset.line))
+    );
+  });
+}
+
+// Line numbers in a range list such as "1,3-5"; null for "all" or "*"
+function parseLineRanges(ranges: string): Set<number> | null {
+  if (!ranges || ranges === "all" || ranges === "*") return null;
+
+  const lines = new Set<number>();
+  ranges.split(",").forEach((range) => {
+    const [start, end = start] = range.split("-").map(Number);
+    for (let line = start; line <= end; line++) {
+      lines.add(line);
+    }
+  });
+  return lines;
+}
+
+function escapeHtml(text: string): string {
+  const htmlEscapes: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#x27;",
+  };
+
+  return text.replace(/[&<>"']/g, (char) => htmlEscapes[char] || char);
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { DiagramRenderer } from "./index";
+import { HtmlSanitizer } from "../sanitizer";
+
+describe("DiagramRenderer", () => {
+  let renderer: DiagramRenderer;
+  let container: HTMLElement;
+  let engine: ReturnType<typeof vi.fn>;
+
+  const codeBlock = (language: string, source: string) =>
+    `<pre><code class="language-${language}">${source}</code></pre>`;
+
+  beforeEach(() => {
+    renderer = new DiagramRenderer();
+    engine = vi.fn(
+      async (source: string) => `<svg data-source="${source}"></svg>`
+    );
+    renderer.register(["flow"], engine);
+
+    container = document.createElement("div");
+    container.style.setProperty("--mostage-text-color", "#111111");
+    container.style.setProperty("--mostage-primary-color", "#222222");
+    document.body.appendChild(container);
+  });
+
+  it("should replace diagram code blocks with SVG", async () => {
+    container.innerHTML = codeBlock("flow", "a-b") + codeBlock("js", "x");
+
+    await renderer.render(container);
+
+    const diagram = container.querySelector(".mostage-diagram-flow");
+    expect(diagram?.innerHTML).toBe('<svg data-source="a-b"></svg>');
+    expect(container.querySelector("pre code.language-js")).not.toBeNull();
+  });
+
+  it("should sanitize the SVG before inserting it", async () => {
+    const sanitizer = new HtmlSanitizer();
+    renderer.setSanitizer((svg) => sanitizer.sanitizeSvg(svg).html);
+    engine.mockResolvedValue(
+      '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>'
+    );
+    container.innerHTML = codeBlock("flow", "a-b");
+
+    await renderer.render(container);
+
+    expect(container.querySelector(".mostage-diagram")?.innerHTML).toBe(
+      "<svg><a><text>x</text></a></svg>"
+    );
+  });
+
+  it("should theme diagrams with the deck's CSS variables", async () => {
+    container.innerHTML = codeBlock("flow", "a-b");
+
+    await renderer.render(container);
+
+    expect(engine).toHaveBeenCalledWith(
+      "a-b",
+      expect.objectContaining({ text: "#111111", primary: "#222222" })
+    );
+  });
+
+  it("should reuse cached diagrams when slides are rendered again", async () => {
+    container.innerHTML = codeBlock("flow", "a-b");
+    await renderer.render(container);
+
+    container.innerHTML = codeBlock("flow", "a-b");
+    await renderer.render(container);
+
+    expect(engine).toHaveBeenCalledTimes(1);
+    expect(container.querySelector(".mostage-diagram svg")).not.toBeNull();
+  });
+
+  it("should render again when the theme changes", async () => {
+    container.innerHTML = codeBlock("flow", "a-b");
+    await renderer.render(container);
+
+    container.style.setProperty("--mostage-text-color", "#333333");
+    container.innerHTML = codeBlock("flow", "a-b");
+    await renderer.render(container);
+
+    expect(engine).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep the source when a diagram fails to render", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    renderer.register(["broken"], async () => {
+      throw new Error("Syntax error");
+    });
+    container.innerHTML = codeBlock("broken", "a--");
+
+    await renderer.render(container);
+
+    const diagram = container.querySelector(".mostage-diagram-error");
+    expect(diagram?.querySelector("pre")?.textContent).toBe("a--");
+    expect(
+      diagram?.querySelector(".mostage-diagram-message")?.textContent
+    ).toBe("Syntax error");
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it("should load Graphviz again after it fails to start", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    const instance = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("WebAssembly failed"))
+      .mockResolvedValue({ renderSVGElement: () => svg });
+    (window as any).Viz = { instance };
+
+    try {
+      container.innerHTML = codeBlock("dot", "a -> b");
+      await renderer.render(container);
+      expect(container.querySelector(".mostage-diagram-error")).not.toBeNull();
+
+      container.innerHTML = codeBlock("dot", "a -> b");
+      await renderer.render(container);
+      expect(container.querySelector(".mostage-diagram svg")).not.toBeNull();
+      expect(instance).toHaveBeenCalledTimes(2);
+    } finally {
+      delete (window as any).Viz;
+    }
+  });
+
+  it("should know the built-in diagram languages", () => {
+    expect(renderer.isDiagramLanguage("mermaid")).toBe(true);
+    expect(renderer.isDiagramLanguage("dot")).toBe(true);
+    expect(renderer.isDiagramLanguage("javascript")).toBe(false);
+  });
+});
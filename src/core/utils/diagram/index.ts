@@ -0,0 +1,246 @@
+import type { Mermaid } from "mermaid";
+import type { Viz } from "@viz-js/viz";
+
+/**
+ * Diagram renderer
+ * Turns fenced code blocks in diagram languages (```mermaid, ```dot) into
+ * inline SVG, themed with the deck theme's CSS variables.
+ *
+ * Diagram libraries load on first use, from a page global (`window.mermaid`,
+ * `window.Viz`) or the optional `mermaid` and `@viz-js/viz` packages, so
+ * decks without diagrams don't pay for them. When neither is available, the
+ * diagram shows its source with an error naming the missing package.
+ * Rendered SVG is cached by source and theme, so re-rendered slides and
+ * overview thumbnails reuse it. In safe mode the SVG passes through the
+ * sanitizer before it is cached, as it's inserted after the slides are
+ * sanitized.
+ */
+
+export interface DiagramTheme {
+  background: string;
+  text: string;
+  primary: string;
+  secondary: string;
+  border: string;
+  fontFamily: string;
+}
+
+/**
+ * Renders diagram source to SVG markup
+ */
+export type DiagramEngine = (
+  source: string,
+  theme: DiagramTheme
+) => Promise<string>;
+
+let mermaidRenderCount = 0;
+let vizInstance: Promise<Viz> | null = null;
+
+export class DiagramRenderer {
+  private engines = new Map<string, DiagramEngine>();
+  private cache = new Map<string, string>();
+  private queue: Promise<void> = Promise.resolve();
+  private sanitize: ((svg: string) => string) | null = null;
+
+  constructor() {
+    this.register(["mermaid"], renderMermaid);
+    this.register(["dot", "graphviz"], renderGraphviz);
+  }
+
+  /**
+   * Render code blocks in the given languages with an engine
+   * @param languages - Code block languages, e.g. ["plantuml"]
+   * @param engine - Renders a block's source to SVG markup
+   */
+  register(languages: string[], engine: DiagramEngine): void {
+    languages.forEach((language) =>
+      this.engines.set(language.toLowerCase(), engine)
+    );
+  }
+
+  /**
+   * Clean rendered SVG before it's inserted, e.g. in safe mode
+   * @param sanitize - Returns the cleaned SVG, or null to insert it as is
+   */
+  setSanitizer(sanitize: ((svg: string) => string) | null): void {
+    this.sanitize = sanitize;
+    this.cache.clear();
+  }
+
+  isDiagramLanguage(language: string): boolean {
+    return this.engines.has(language.toLowerCase());
+  }
+
+  /**
+   * Replace the diagram code blocks in a container with their SVG
+   *
+   * Cached diagrams are inserted right away, the others render in the
+   * background one at a time.
+   *
+   * @param container - Element holding the code blocks
+   * @param themeSource - Element whose CSS variables theme the diagrams
+   * @returns A promise that resolves once every diagram is rendered
+   */
+  render(
+    container: HTMLElement,
+    themeSource: HTMLElement = container
+  ): Promise<void> {
+    const theme = readDiagramTheme(themeSource);
+    const themeKey = JSON.stringify(theme);
+    const renders: Promise<void>[] = [];
+
+    container
+      .querySelectorAll<HTMLElement>('pre > code[class*="language-"]')
+      .forEach((code) => {
+        const language = code.className
+          .match(/language-([\w-]+)/)?.[1]
+          .toLowerCase();
+        const engine = language ? this.engines.get(language) : undefined;
+        if (!language || !engine || !code.parentElement) return;
+
+        const source = code.textContent || "";
+        const diagram = document.createElement("div");
+        diagram.className = `mostage-diagram mostage-diagram-${language}`;
+        code.parentElement.replaceWith(diagram);
+
+        const key = `${language}\n${themeKey}\n${source}`;
+        const cached = this.cache.get(key);
+        if (cached !== undefined) {
+          diagram.innerHTML = cached;
+          return;
+        }
+
+        renders.push(
+          this.enqueue(async () => {
+            try {
+              const rendered = await engine(source, theme);
+              const svg = this.sanitize ? this.sanitize(rendered) : rendered;
+              this.cache.set(key, svg);
+              diagram.innerHTML = svg;
+            } catch (error) {
+              console.warn(`Failed to render ${language} diagram:`, error);
+              const message = document.createElement("p");
+              message.className = "mostage-diagram-message";
+              message.textContent =
+                error instanceof Error ? error.message : String(error);
+              const fallback = document.createElement("pre");
+              fallback.textContent = source;
+              diagram.classList.add("mostage-diagram-error");
+              diagram.replaceChildren(message, fallback);
+            }
+          })
+        );
+      });
+
+    return Promise.all(renders).then(() => undefined);
+  }
+
+  /**
+   * Forget rendered diagrams, e.g. after the diagram libraries changed
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // Diagram libraries keep global state, so renders run one at a time
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Read the diagram colors from the deck theme's CSS variables
+ */
+export function readDiagramTheme(element: HTMLElement): DiagramTheme {
+  const styles = getComputedStyle(element);
+  const value = (name: string, fallback: string) =>
+    styles.getPropertyValue(name).trim() || fallback;
+
+  return {
+    background: value("--mostage-bg-color", "#fdfbfb"),
+    text: value("--mostage-text-color", "#2d3748"),
+    primary: value("--mostage-primary-color", "#667eea"),
+    secondary: value("--mostage-secondary-color", "#764ba2"),
+    border: value("--mostage-border-color", "#e2e8f0"),
+    fontFamily: styles.fontFamily || "sans-serif",
+  };
+}
+
+// Load an optional diagram package, naming it when it can't be found
+async function loadLibrary<T>(
+  packageName: string,
+  globalName: string,
+  load: () => Promise<T>
+): Promise<T> {
+  try {
+    return await load();
+  } catch {
+    throw new Error(
+      `Diagram library "${packageName}" is not available. Install the ${packageName} package, or load it on the page as window.${globalName}.`
+    );
+  }
+}
+
+async function renderMermaid(
+  source: string,
+  theme: DiagramTheme
+): Promise<string> {
+  const mermaid: Mermaid =
+    (window as any).mermaid ??
+    (await loadLibrary("mermaid", "mermaid", () => import("mermaid"))).default;
+
+  mermaid.initialize({
+    startOnLoad: false,
+    theme: "base",
+    fontFamily: theme.fontFamily,
+    themeVariables: {
+      background: theme.background,
+      primaryColor: theme.background,
+      primaryTextColor: theme.text,
+      primaryBorderColor: theme.primary,
+      secondaryColor: theme.secondary,
+      tertiaryColor: theme.border,
+      lineColor: theme.text,
+      textColor: theme.text,
+    },
+  });
+
+  const { svg } = await mermaid.render(
+    `mostage-diagram-${++mermaidRenderCount}`,
+    source
+  );
+  return svg;
+}
+
+async function renderGraphviz(
+  source: string,
+  theme: DiagramTheme
+): Promise<string> {
+  if (!vizInstance) {
+    const viz: typeof import("@viz-js/viz") =
+      (window as any).Viz ??
+      (await loadLibrary("@viz-js/viz", "Viz", () => import("@viz-js/viz")));
+    vizInstance = viz.instance();
+    // Let the next diagram try again when Graphviz fails to start
+    vizInstance.catch(() => {
+      vizInstance = null;
+    });
+  }
+
+  // Graphviz takes a single font name
+  const fontname = theme.fontFamily.split(",")[0].replace(/["']/g, "").trim();
+
+  const svg = (await vizInstance).renderSVGElement(source, {
+    graphAttributes: {
+      bgcolor: "transparent",
+      color: theme.border,
+      fontcolor: theme.text,
+      fontname,
+    },
+    nodeAttributes: { color: theme.primary, fontcolor: theme.text, fontname },
+    edgeAttributes: { color: theme.text, fontcolor: theme.text, fontname },
+  });
+  return svg.outerHTML;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { FrontMatterParser } from "./index";
+
+describe("FrontMatterParser", () => {
+  let parser: FrontMatterParser;
+
+  beforeEach(() => {
+    parser = new FrontMatterParser();
+  });
+
+  describe("extract", () => {
+    it("should split front matter from the markdown body", () => {
+      const result = parser.extract(`---
+title: My Talk
+author: Jane Doe
+---
+# First slide`);
+
+      expect(result.data).toEqual({ title: "My Talk", author: "Jane Doe" });
+      expect(result.body).toBe("# First slide");
+    });
+
+    it("should return the content unchanged without front matter", () => {
+      const content = "# Slide 1\n---\n# Slide 2";
+      const result = parser.extract(content);
+
+      expect(result.data).toBeNull();
+      expect(result.body).toBe(content);
+    });
+
+    it("should not treat a leading slide separator as front matter", () => {
+      const content = "---\n# Intro\nSome text\n---\n# Next";
+      const result = parser.extract(content);
+
+      expect(result.data).toBeNull();
+      expect(result.body).toBe(content);
+    });
+
+    it("should keep a first slide whose heading is followed by a key: value line", () => {
+      const content = "---\n# Agenda\nTime: 30 minutes\n---\n# Next";
+      const result = parser.extract(content);
+
+      expect(result.data).toBeNull();
+      expect(result.body).toBe(content);
+    });
+  });
+
+  describe("parse", () => {
+    it("should parse nested mappings and scalar types", () => {
+      const data = parser.parse(`theme: dark
+scale: 1.2
+loop: true
+transition:
+  type: fade
+  duration: 500
+plugins:
+  ProgressBar:
+    enabled: false # hide it
+empty: null`);
+
+      expect(data).toEqual({
+        theme: "dark",
+        scale: 1.2,
+        loop: true,
+        transition: { type: "fade", duration: 500 },
+        plugins: { ProgressBar: { enabled: false } },
+        empty: null,
+      });
+    });
+
+    it("should parse lists and quoted strings", () => {
+      const data = parser.parse(`tags: [slides, "markdown, html"]
+background:
+  - imagePath: ./a.png
+    allSlides: [1, 2]
+  - color: "#1e1e1e"
+quote: 'It''s fine'`);
+
+      expect(data).toEqual({
+        tags: ["slides", "markdown, html"],
+        background: [
+          { imagePath: "./a.png", allSlides: [1, 2] },
+          { color: "#1e1e1e" },
+        ],
+        quote: "It's fine",
+      });
+    });
+
+    it("should parse literal block strings", () => {
+      const data = parser.parse(`header:
+  content: |
+    <strong>Mostage</strong>
+    <em>Talk</em>
+  position: top-left`);
+
+      expect(data).toEqual({
+        header: {
+          content: "<strong>Mostage</strong>\n<em>Talk</em>\n",
+          position: "top-left",
+        },
+      });
+    });
+
+    it("should return null for text that is not a mapping", () => {
+      expect(parser.parse("Just some text")).toBeNull();
+      expect(parser.parse("  indented: value")).toBeNull();
+      expect(parser.parse("")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Front matter parser
+ * Extracts a YAML front-matter block from the top of a markdown document.
+ * Supports the YAML subset used by presentation settings: nested mappings,
+ * block and inline lists, quoted strings, numbers, booleans, null and
+ * literal (`|`) or folded (`>`) multi-line strings.
+ */
+
+export interface FrontMatterResult {
+  data: Record<string, unknown> | null; // Parsed front matter, null when absent
+  body: string; // Markdown after the front-matter block
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+const FRONT_MATTER_PATTERN =
+  /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const KEY_PATTERN = /^("[^"]*"|'[^']*'|[^\s#"'][^:]*?)\s*:(?:\s+(.*))?$/;
+
+export class FrontMatterParser {
+  /**
+   * Split a document into front matter and body
+   * @param content - Markdown document
+   * @returns Parsed front matter and the remaining markdown
+   */
+  extract(content: string): FrontMatterResult {
+    const match = content.match(FRONT_MATTER_PATTERN);
+    if (!match) {
+      return { data: null, body: content };
+    }
+
+    // A deck that simply starts with a slide separator is not front matter.
+    // A line starting with "#" may be the slide's heading, so it isn't taken
+    // for a YAML comment here, and the block has to set at least one key.
+    const block = match[1];
+    const data = /^#/m.test(block) ? null : this.parse(block);
+    if (!data || Object.keys(data).length === 0) {
+      return { data: null, body: content };
+    }
+
+    return { data, body: content.slice(match[0].length) };
+  }
+
+  /**
+   * Parse a YAML mapping
+   * @param yaml - YAML source
+   * @returns The mapping, or null when the source is not a YAML mapping
+   */
+  parse(yaml: string): Record<string, unknown> | null {
+    const lines: YamlLine[] = yaml.split(/\r?\n/).map((line) => ({
+      indent: line.length - line.trimStart().length,
+      text: line.trim(),
+    }));
+
+    const first = this.skipBlankLines(lines, 0);
+    if (first >= lines.length || lines[first].indent !== 0) {
+      return null;
+    }
+
+    try {
+      const [data, next] = this.parseMapping(lines, first, 0);
+      if (this.skipBlankLines(lines, next) < lines.length) {
+        return null;
+      }
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseBlock(
+    lines: YamlLine[],
+    index: number,
+    indent: number
+  ): [unknown, number] {
+    return this.isListItem(lines[index].text)
+      ? this.parseList(lines, index, indent)
+      : this.parseMapping(lines, index, indent);
+  }
+
+  private parseMapping(
+    lines: YamlLine[],
+    index: number,
+    indent: number
+  ): [Record<string, unknown>, number] {
+    const result: Record<string, unknown> = {};
+    let i = this.skipBlankLines(lines, index);
+
+    while (i < lines.length && lines[i].indent === indent) {
+      const match = lines[i].text.match(KEY_PATTERN);
+      if (!match || this.isListItem(lines[i].text)) {
+        throw new Error(`Invalid mapping entry: ${lines[i].text}`);
+      }
+
+      const key = this.unquote(match[1]);
+      const rest = match[2] ? this.stripComment(match[2]) : "";
+      i++;
+
+      if (/^[|>][+-]?$/.test(rest)) {
+        const [text, next] = this.parseBlockScalar(lines, i, indent, rest);
+        result[key] = text;
+        i = next;
+      } else if (rest !== "") {
+        result[key] = this.parseScalar(rest);
+      } else {
+        const next = this.skipBlankLines(lines, i);
+        const nested =
+          next < lines.length &&
+          (lines[next].indent > indent ||
+            (lines[next].indent === indent &&
+              this.isListItem(lines[next].text)));
+
+        if (nested) {
+          const [value, after] = this.parseBlock(
+            lines,
+            next,
+            lines[next].indent
+          );
+          result[key] = value;
+          i = after;
+        } else {
+          result[key] = null;
+        }
+      }
+
+      i = this.skipBlankLines(lines, i);
+    }
+
+    if (i < lines.length && lines[i].indent > indent) {
+      throw new Error(`Unexpected indentation: ${lines[i].text}`);
+    }
+
+    return [result, i];
+  }
+
+  private parseList(
+    lines: YamlLine[],
+    index: number,
+    indent: number
+  ): [unknown[], number] {
+    const result: unknown[] = [];
+    let i = this.skipBlankLines(lines, index);
+
+    while (
+      i < lines.length &&
+      lines[i].indent === indent &&
+      this.isListItem(lines[i].text)
+    ) {
+      const item = lines[i].text.slice(1).trim();
+
+      if (item === "") {
+        const next = this.skipBlankLines(lines, i + 1);
+        if (next < lines.length && lines[next].indent > indent) {
+          const [value, after] = this.parseBlock(
+            lines,
+            next,
+            lines[next].indent
+          );
+          result.push(value);
+          i = after;
+        } else {
+          result.push(null);
+          i = next;
+        }
+      } else if (KEY_PATTERN.test(item) && !/^["'[{]/.test(item)) {
+        // "- key: value" starts a mapping indented at the item's text
+        const itemIndent = indent + lines[i].text.indexOf(item);
+        const itemLines = [...lines];
+        itemLines[i] = { indent: itemIndent, text: item };
+        const [value, after] = this.parseMapping(itemLines, i, itemIndent);
+        result.push(value);
+        i = after;
+      } else {
+        result.push(this.parseScalar(this.stripComment(item)));
+        i++;
+      }
+
+      i = this.skipBlankLines(lines, i);
+    }
+
+    return [result, i];
+  }
+
+  private parseBlockScalar(
+    lines: YamlLine[],
+    index: number,
+    indent: number,
+    indicator: string
+  ): [string, number] {
+    const block: YamlLine[] = [];
+    let i = index;
+
+    while (
+      i < lines.length &&
+      (lines[i].text === "" || lines[i].indent > indent)
+    ) {
+      block.push(lines[i]);
+      i++;
+    }
+
+    // Trailing blank lines belong to whatever follows the block
+    while (block.length > 0 && block[block.length - 1].text === "") {
+      block.pop();
+      i--;
+    }
+
+    const blockIndent = Math.min(
+      ...block.filter((line) => line.text).map((line) => line.indent)
+    );
+    const blockLines = block.map((line) =>
+      line.text ? " ".repeat(line.indent - blockIndent) + line.text : ""
+    );
+
+    const text = indicator.startsWith(">")
+      ? blockLines.join(" ").replace(/ {2,}/g, " ").trim()
+      : blockLines.join("\n");
+
+    return [indicator.endsWith("-") ? text : `${text}\n`, i];
+  }
+
+  private parseScalar(value: string): unknown {
+    if (value.startsWith("[") && value.endsWith("]")) {
+      return this.splitFlow(value.slice(1, -1)).map((item) =>
+        this.parseScalar(item)
+      );
+    }
+
+    if (value.startsWith("{") && value.endsWith("}")) {
+      const result: Record<string, unknown> = {};
+      this.splitFlow(value.slice(1, -1)).forEach((entry) => {
+        const match = entry.match(KEY_PATTERN);
+        if (!match) {
+          throw new Error(`Invalid inline mapping entry: ${entry}`);
+        }
+        result[this.unquote(match[1])] = match[2]
+          ? this.parseScalar(match[2].trim())
+          : null;
+      });
+      return result;
+    }
+
+    if (/^".*"$/.test(value) || /^'.*'$/.test(value)) {
+      return this.unquote(value);
+    }
+
+    if (value === "true") return true;
+    if (value === "false") return false;
+    if (value === "null" || value === "~") return null;
+    if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value)) {
+      return Number(value);
+    }
+
+    return value;
+  }
+
+  // Split an inline list or mapping on top-level commas
+  private splitFlow(value: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = "";
+
+    for (const char of value) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "[" || char === "{") {
+        depth++;
+      } else if (char === "]" || char === "}") {
+        depth--;
+      } else if (char === "," && depth === 0) {
+        items.push(current.trim());
+        current = "";
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) {
+      items.push(current.trim());
+    }
+
+    return items;
+  }
+
+  private stripComment(value: string): string {
+    if (/^["']/.test(value)) {
+      return value.trim();
+    }
+    return value.replace(/\s+#.*$/, "").trim();
+  }
+
+  private unquote(value: string): string {
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value.slice(1, -1);
+      }
+    }
+    if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return value.trim();
+  }
+
+  private isListItem(text: string): boolean {
+    return text === "-" || text.startsWith("- ");
+  }
+
+  private skipBlankLines(lines: YamlLine[], index: number): number {
+    let i = index;
+    while (
+      i < lines.length &&
+      (lines[i].text === "" || lines[i].text.startsWith("#"))
+    ) {
+      i++;
+    }
+    return i;
+  }
+}
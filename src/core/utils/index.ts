@@ -8,5 +8,48 @@
 // Markdown and content utilities
 export { MarkdownParser } from "./markdown-parser";
 
+// Markdown extension utilities
+export {
+  createAlertExtension,
+  createDefinitionListExtension,
+  createEmojiExtension,
+  createFootnoteExtension,
+  createMarkExtension,
+  createTaskListExtension,
+} from "./markdown-extensions";
+
+// Math utilities
+export { createMathExtension, hasMath, renderMath } from "./math";
+
+// Front matter utilities
+export { FrontMatterParser } from "./front-matter";
+
+// Slide size utilities
+export { parseAspectRatio, resolveSlideSize } from "./slide-size";
+
+// Slide id utilities
+export { createSlideIds, getSlideElementId, slugify } from "./slide-ids";
+
+// Slide layout utilities
+export { SlideLayouts } from "./slide-layouts";
+
+// Diagram utilities
+export { DiagramRenderer } from "./diagram";
+
 // Syntax highlighting utilities
 export { SyntaxHighlighter } from "./syntax-highlighter";
+export {
+  createCodeBlockExtension,
+  parseCodeMeta,
+  updateCodeHighlights,
+} from "./code-blocks";
+
+// Sanitizer utilities
+export {
+  HtmlSanitizer,
+  DEFAULT_ALLOWED_ATTRIBUTES,
+  DEFAULT_ALLOWED_SCHEMES,
+  DEFAULT_ALLOWED_SVG_ATTRIBUTES,
+  DEFAULT_ALLOWED_SVG_TAGS,
+  DEFAULT_ALLOWED_TAGS,
+} from "./sanitizer";
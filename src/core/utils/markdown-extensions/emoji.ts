@@ -0,0 +1,161 @@
+/**
+ * Emoji shortcodes
+ * The GitHub names of commonly used emoji, as in `:rocket:`
+ */
+export const EMOJI: Record<string, string> = {
+  // Faces
+  smile: "😄",
+  smiley: "😃",
+  grin: "😁",
+  laughing: "😆",
+  joy: "😂",
+  wink: "😉",
+  blush: "😊",
+  slightly_smiling_face: "🙂",
+  upside_down_face: "🙃",
+  heart_eyes: "😍",
+  star_struck: "🤩",
+  sunglasses: "😎",
+  nerd_face: "🤓",
+  thinking: "🤔",
+  neutral_face: "😐",
+  expressionless: "😑",
+  roll_eyes: "🙄",
+  smirk: "😏",
+  relieved: "😌",
+  sleeping: "😴",
+  confused: "😕",
+  worried: "😟",
+  open_mouth: "😮",
+  astonished: "😲",
+  flushed: "😳",
+  cry: "😢",
+  sob: "😭",
+  scream: "😱",
+  angry: "😠",
+  rage: "😡",
+  exploding_head: "🤯",
+  partying_face: "🥳",
+  mask: "😷",
+  skull: "💀",
+  ghost: "👻",
+  robot: "🤖",
+  see_no_evil: "🙈",
+
+  // Hands and people
+  "+1": "👍",
+  thumbsup: "👍",
+  "-1": "👎",
+  thumbsdown: "👎",
+  clap: "👏",
+  wave: "👋",
+  raised_hands: "🙌",
+  pray: "🙏",
+  ok_hand: "👌",
+  v: "✌️",
+  crossed_fingers: "🤞",
+  point_right: "👉",
+  point_left: "👈",
+  point_up: "☝️",
+  point_down: "👇",
+  muscle: "💪",
+  eyes: "👀",
+  brain: "🧠",
+  handshake: "🤝",
+  technologist: "🧑‍💻",
+
+  // Symbols
+  heart: "❤️",
+  broken_heart: "💔",
+  sparkles: "✨",
+  star: "⭐",
+  fire: "🔥",
+  boom: "💥",
+  zap: "⚡",
+  "100": "💯",
+  white_check_mark: "✅",
+  heavy_check_mark: "✔️",
+  x: "❌",
+  warning: "⚠️",
+  no_entry: "⛔",
+  question: "❓",
+  exclamation: "❗",
+  bangbang: "‼️",
+  information_source: "ℹ️",
+  arrow_right: "➡️",
+  arrow_left: "⬅️",
+  arrow_up: "⬆️",
+  arrow_down: "⬇️",
+  recycle: "♻️",
+  red_circle: "🔴",
+  green_circle: "🟢",
+  yellow_circle: "🟡",
+  large_blue_circle: "🔵",
+
+  // Objects
+  rocket: "🚀",
+  tada: "🎉",
+  confetti_ball: "🎊",
+  gift: "🎁",
+  trophy: "🏆",
+  medal_sports: "🏅",
+  dart: "🎯",
+  bulb: "💡",
+  memo: "📝",
+  pencil2: "✏️",
+  book: "📖",
+  books: "📚",
+  bookmark: "🔖",
+  pushpin: "📌",
+  paperclip: "📎",
+  link: "🔗",
+  lock: "🔒",
+  unlock: "🔓",
+  key: "🔑",
+  mag: "🔍",
+  bell: "🔔",
+  calendar: "📆",
+  clock3: "🕒",
+  hourglass: "⌛",
+  chart_with_upwards_trend: "📈",
+  chart_with_downwards_trend: "📉",
+  bar_chart: "📊",
+  package: "📦",
+  wrench: "🔧",
+  hammer: "🔨",
+  gear: "⚙️",
+  computer: "💻",
+  keyboard: "⌨️",
+  iphone: "📱",
+  floppy_disk: "💾",
+  email: "📧",
+  speech_balloon: "💬",
+  loudspeaker: "📢",
+  construction: "🚧",
+  bug: "🐛",
+  test_tube: "🧪",
+  coffee: "☕",
+  pizza: "🍕",
+  beer: "🍺",
+  money_with_wings: "💸",
+  moneybag: "💰",
+  globe_with_meridians: "🌐",
+  earth_americas: "🌎",
+  house: "🏠",
+  office: "🏢",
+
+  // Nature
+  sunny: "☀️",
+  cloud: "☁️",
+  rainbow: "🌈",
+  snowflake: "❄️",
+  seedling: "🌱",
+  evergreen_tree: "🌲",
+  cactus: "🌵",
+  rose: "🌹",
+  cat: "🐱",
+  dog: "🐶",
+  unicorn: "🦄",
+  turtle: "🐢",
+  snail: "🐌",
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { Marked } from "marked";
+import {
+  createAlertExtension,
+  createDefinitionListExtension,
+  createEmojiExtension,
+  createFootnoteExtension,
+  createMarkExtension,
+  createTaskListExtension,
+} from "./index";
+
+vi.unmock("marked");
+
+describe("Markdown Extensions", () => {
+  const markdown = () =>
+    new Marked(
+      createAlertExtension(),
+      createDefinitionListExtension(),
+      createFootnoteExtension(),
+      createEmojiExtension(),
+      createMarkExtension(),
+      createTaskListExtension()
+    );
+
+  it("should render GitHub-style alerts as callouts", () => {
+    const html = markdown().parse(
+      "> [!WARNING]\n> Mind the **gap**\n\n> [!TIP] Try it\n> Now\n\n> [!OTHER]\n> Quote"
+    ) as string;
+
+    expect(html).toContain(
+      '<div class="mostage-callout mostage-callout-warning"><p class="mostage-callout-title">Warning</p><p>Mind the <strong>gap</strong></p>\n</div>'
+    );
+    expect(html).toContain('<p class="mostage-callout-title">Try it</p>');
+    expect(html).toContain("<blockquote>\n<p>[!OTHER]");
+  });
+
+  it("should render definition lists", () => {
+    const html = markdown().parse(
+      "Intro\n\nTerm\n: First *meaning*\n: Second\nOther\n: Third"
+    );
+
+    expect(html).toBe(
+      '<p>Intro</p>\n<dl class="mostage-definition-list">\n<dt>Term</dt><dd>First <em>meaning</em></dd><dd>Second</dd>\n<dt>Other</dt><dd>Third</dd>\n</dl>\n'
+    );
+  });
+
+  it("should number footnotes by reference and list them at the end", () => {
+    const parser = markdown();
+    const html = parser.parse(
+      "Fast[^speed] and small[^size], really[^speed]\n\n[^size]: Under 10 kB\n[^speed]: See **benchmarks**"
+    );
+
+    expect(html).toBe(
+      '<p>Fast<sup class="mostage-footnote-ref">1</sup> and small<sup class="mostage-footnote-ref">2</sup>, really<sup class="mostage-footnote-ref">1</sup></p>\n' +
+        '<section class="mostage-footnotes"><ol>\n<li data-footnote="1">See <strong>benchmarks</strong></li>\n<li data-footnote="2">Under 10 kB</li>\n</ol></section>\n'
+    );
+    expect(parser.parse("Undefined[^x]")).toBe("<p>Undefined[^x]</p>\n");
+  });
+
+  it("should replace emoji shortcodes and highlight marked text", () => {
+    expect(markdown().parse("Ship it :rocket: at 10:30:00 ==now==")).toBe(
+      '<p>Ship it <span class="mostage-emoji" role="img" aria-label="rocket">🚀</span> at 10:30:00 <mark>now</mark></p>\n'
+    );
+  });
+
+  it("should mark task list checkboxes", () => {
+    expect(markdown().parse("- [x] Done\n- [ ] Todo")).toContain(
+      '<li><input class="mostage-task-checkbox" checked="" disabled="" type="checkbox"> Done</li>'
+    );
+  });
+});
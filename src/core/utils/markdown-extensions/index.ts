@@ -0,0 +1,289 @@
+import type { MarkedExtension, Token, Tokens } from "marked";
+import { EMOJI } from "./emoji";
+
+/**
+ * Markdown extensions
+ * Syntax beyond GitHub Flavored Markdown that slides commonly need:
+ * GitHub-style alerts, definition lists, footnotes, emoji shortcodes,
+ * `==highlighted==` text and styled task lists. The rendered elements carry
+ * `mostage-*` classes that the themes style.
+ */
+
+const ALERT_KINDS = ["note", "tip", "important", "warning", "caution"];
+const ALERT_PATTERN =
+  /^ {0,3}> ?\[!(\w+)\][ \t]*([^\n]*)(?:\n|$)((?: {0,3}>[^\n]*(?:\n|$))*)/;
+const DEFINITION_LIST_PATTERN =
+  /^(?:[^\s:>][^\n]*\n(?: {0,3}:[ \t]+[^\n]*(?:\n|$))+\n?)+/;
+const FOOTNOTE_PATTERN =
+  /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?: {2,}|\t)[^\n]+)*)(?:\n+|$)/;
+const FOOTNOTE_REFERENCE_PATTERN = /^\[\^([^\]\s]+)\](?!:)/;
+const EMOJI_PATTERN = /^:([\w+-]+):/;
+const MARK_PATTERN = /^==(?=\S)([\s\S]*?\S)==(?!=)/;
+
+interface AlertToken extends Tokens.Generic {
+  type: "alert";
+  kind: string;
+  title: string;
+  tokens: Token[];
+}
+
+interface DefinitionListToken extends Tokens.Generic {
+  type: "definitionList";
+  items: { term: Token[]; definitions: Token[][] }[];
+}
+
+interface FootnoteToken extends Tokens.Generic {
+  type: "footnote";
+  label: string;
+  tokens: Token[];
+}
+
+/**
+ * GitHub-style alerts: a blockquote starting with `[!NOTE]`, `[!TIP]`,
+ * `[!IMPORTANT]`, `[!WARNING]` or `[!CAUTION]`, optionally followed by a
+ * title, e.g. `> [!TIP] Try it yourself`
+ */
+export function createAlertExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "alert",
+        level: "block",
+        start: (src: string) => src.match(/^ {0,3}> ?\[!/m)?.index,
+        tokenizer(src: string): AlertToken | undefined {
+          const match = src.match(ALERT_PATTERN);
+          if (!match || !ALERT_KINDS.includes(match[1].toLowerCase())) {
+            return undefined;
+          }
+
+          const kind = match[1].toLowerCase();
+          const body = match[3].replace(/^ {0,3}> ?/gm, "");
+          return {
+            type: "alert",
+            raw: match[0],
+            kind,
+            title: match[2].trim() || kind[0].toUpperCase() + kind.slice(1),
+            tokens: this.lexer.blockTokens(body, []),
+          };
+        },
+        renderer(token) {
+          const { kind, title, tokens } = token as AlertToken;
+          return `<div class="mostage-callout mostage-callout-${kind}"><p class="mostage-callout-title">${escapeHtml(title)}</p>${this.parser.parse(tokens)}</div>\n`;
+        },
+        childTokens: ["tokens"],
+      },
+    ],
+  };
+}
+
+/**
+ * Definition lists: a term line followed by `: definition` lines
+ */
+export function createDefinitionListExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "definitionList",
+        level: "block",
+        start: (src: string) =>
+          src.match(/^[^\s:>][^\n]*\n {0,3}:[ \t]/m)?.index,
+        tokenizer(src: string): DefinitionListToken | undefined {
+          const match = src.match(DEFINITION_LIST_PATTERN);
+          if (!match) return undefined;
+
+          const items: DefinitionListToken["items"] = [];
+          match[0]
+            .trim()
+            .split("\n")
+            .forEach((line) => {
+              const definition = line.match(/^ {0,3}:[ \t]+(.*)$/);
+              if (definition) {
+                items[items.length - 1].definitions.push(
+                  this.lexer.inline(definition[1].trim())
+                );
+              } else if (line.trim()) {
+                items.push({
+                  term: this.lexer.inline(line.trim()),
+                  definitions: [],
+                });
+              }
+            });
+
+          return { type: "definitionList", raw: match[0], items };
+        },
+        renderer(token) {
+          const items = (token as DefinitionListToken).items
+            .map(
+              ({ term, definitions }) =>
+                `<dt>${this.parser.parseInline(term)}</dt>` +
+                definitions
+                  .map(
+                    (tokens) => `<dd>${this.parser.parseInline(tokens)}</dd>`
+                  )
+                  .join("")
+            )
+            .join("\n");
+          return `<dl class="mostage-definition-list">\n${items}\n</dl>\n`;
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Footnotes: `[^label]` references and `[^label]: text` definitions
+ *
+ * Footnotes are numbered in the order they are referenced and listed at the
+ * end of the parsed markdown, which is the slide they appear on.
+ */
+export function createFootnoteExtension(): MarkedExtension {
+  // Reset for every parse: definitions found while lexing, references in
+  // the order they are rendered and the rendered definitions
+  let definitions = new Set<string>();
+  let references: string[] = [];
+  let notes = new Map<string, string>();
+
+  return {
+    hooks: {
+      preprocess(markdown: string) {
+        definitions = new Set();
+        references = [];
+        notes = new Map();
+        return markdown;
+      },
+      postprocess(html: string) {
+        if (references.length === 0) return html;
+
+        const items = references
+          .map(
+            (label, index) =>
+              `<li data-footnote="${index + 1}">${notes.get(label) ?? ""}</li>`
+          )
+          .join("\n");
+        return `${html}<section class="mostage-footnotes"><ol>\n${items}\n</ol></section>\n`;
+      },
+    },
+    extensions: [
+      {
+        name: "footnote",
+        level: "block",
+        start: (src: string) => src.match(/^ {0,3}\[\^[^\]\s]+\]:/m)?.index,
+        tokenizer(src: string): FootnoteToken | undefined {
+          const match = src.match(FOOTNOTE_PATTERN);
+          if (!match) return undefined;
+
+          definitions.add(match[1]);
+          return {
+            type: "footnote",
+            raw: match[0],
+            label: match[1],
+            tokens: this.lexer.inline(match[2].replace(/\n\s+/g, " ")),
+          };
+        },
+        renderer(token) {
+          const { label, tokens } = token as FootnoteToken;
+          notes.set(label, this.parser.parseInline(tokens));
+          return "";
+        },
+      },
+      {
+        name: "footnoteReference",
+        level: "inline",
+        start: (src: string) => {
+          const index = src.indexOf("[^");
+          return index === -1 ? undefined : index;
+        },
+        tokenizer(src: string) {
+          const match = src.match(FOOTNOTE_REFERENCE_PATTERN);
+          if (!match || !definitions.has(match[1])) return undefined;
+          return { type: "footnoteReference", raw: match[0], label: match[1] };
+        },
+        renderer(token) {
+          if (!references.includes(token.label)) {
+            references.push(token.label);
+          }
+          const number = references.indexOf(token.label) + 1;
+          return `<sup class="mostage-footnote-ref">${number}</sup>`;
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Emoji shortcodes such as `:rocket:`; unknown names stay text
+ */
+export function createEmojiExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "emoji",
+        level: "inline",
+        start: (src: string) => src.match(/:[\w+-]+:/)?.index,
+        tokenizer(src: string) {
+          const match = src.match(EMOJI_PATTERN);
+          if (!match || !(match[1] in EMOJI)) return undefined;
+          return {
+            type: "emoji",
+            raw: match[0],
+            name: match[1],
+            text: EMOJI[match[1]],
+          };
+        },
+        renderer: (token) =>
+          `<span class="mostage-emoji" role="img" aria-label="${escapeHtml(token.name)}">${token.text}</span>`,
+      },
+    ],
+  };
+}
+
+/**
+ * Highlighted text: `==text==` renders as `<mark>`
+ */
+export function createMarkExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "mark",
+        level: "inline",
+        start: (src: string) => {
+          const index = src.indexOf("==");
+          return index === -1 ? undefined : index;
+        },
+        tokenizer(src: string) {
+          const match = src.match(MARK_PATTERN);
+          if (!match) return undefined;
+          return {
+            type: "mark",
+            raw: match[0],
+            tokens: this.lexer.inlineTokens(match[1]),
+          };
+        },
+        renderer(token) {
+          return `<mark>${this.parser.parseInline(token.tokens!)}</mark>`;
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Task list checkboxes get a class, so themes can style task lists
+ */
+export function createTaskListExtension(): MarkedExtension {
+  return {
+    renderer: {
+      checkbox({ checked }) {
+        return `<input class="mostage-task-checkbox" ${checked ? 'checked="" ' : ""}disabled="" type="checkbox">`;
+      },
+    },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
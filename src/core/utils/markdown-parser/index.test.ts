@@ -302,6 +302,27 @@ console.log('Code block');
 
       setOptionsSpy.mockRestore();
     });
+
+    it("should register markdown extensions by name", () => {
+      const extension = { renderer: {} };
+
+      parser.use("test-extension", extension);
+
+      expect(parser.getExtensionNames()).toEqual(
+        expect.arrayContaining(["alerts", "footnotes", "test-extension"])
+      );
+      expect(() => parser.use("test-extension", extension)).toThrow(
+        'Markdown extension "test-extension" is already registered'
+      );
+    });
+
+    it("should keep extensions to the parser they were added to", () => {
+      parser.use("test-extension", { renderer: {} });
+
+      expect(new MarkdownParser().getExtensionNames()).not.toContain(
+        "test-extension"
+      );
+    });
   });
 
   describe("Edge Cases", () => {
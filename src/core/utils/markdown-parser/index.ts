@@ -1,16 +1,62 @@
-import { marked } from "marked";
+import { Marked, type MarkedExtension } from "marked";
+import { createMathExtension } from "../math";
+import { createCodeBlockExtension } from "../code-blocks";
+import {
+  createAlertExtension,
+  createDefinitionListExtension,
+  createEmojiExtension,
+  createFootnoteExtension,
+  createMarkExtension,
+  createTaskListExtension,
+} from "../markdown-extensions";
 
 /**
  * Markdown parser using marked.js
- * Supports HTML within markdown content
+ * Supports HTML and LaTeX math within markdown content, plus the syntax
+ * extensions in the registry: alerts, definition lists, footnotes, emoji
+ * shortcodes, `==mark==` and task lists.
+ *
+ * Each parser owns its marked instance, so pages and plugins using the global
+ * `marked` don't change how slides render, and extensions registered on one
+ * presentation don't leak into another.
  */
 export class MarkdownParser {
+  private marked: Marked;
+  private extensions = new Map<string, MarkedExtension>();
+
   constructor() {
     // Configure marked with appropriate settings for presentations
-    marked.setOptions({
+    this.marked = new Marked({
       breaks: true, // Convert line breaks to <br>
       gfm: true, // GitHub Flavored Markdown
     });
+
+    this.use("math", createMathExtension());
+    this.use("code-blocks", createCodeBlockExtension());
+    this.use("alerts", createAlertExtension());
+    this.use("definition-lists", createDefinitionListExtension());
+    this.use("footnotes", createFootnoteExtension());
+    this.use("emoji", createEmojiExtension());
+    this.use("mark", createMarkExtension());
+    this.use("task-lists", createTaskListExtension());
+  }
+
+  /**
+   * Add a markdown syntax extension
+   * @param name - Unique extension name
+   * @param extension - marked extension with tokenizers, renderers or hooks
+   */
+  use(name: string, extension: MarkedExtension): void {
+    if (this.extensions.has(name)) {
+      throw new Error(`Markdown extension "${name}" is already registered`);
+    }
+
+    this.extensions.set(name, extension);
+    this.marked.use(extension);
+  }
+
+  getExtensionNames(): string[] {
+    return Array.from(this.extensions.keys());
   }
 
   /**
@@ -24,7 +70,7 @@ export class MarkdownParser {
     }
 
     try {
-      return marked.parse(content) as string;
+      return this.marked.parse(content) as string;
     } catch (error) {
       console.error("Error parsing markdown:", error);
       return `<p>Error parsing markdown content</p>`;
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import { Marked } from "marked";
+import { createMathExtension, hasMath, renderMath } from "./index";
+
+// The test setup mocks marked, but these tests need the real lexer
+vi.unmock("marked");
+
+describe("Math", () => {
+  const parse = (markdown: string) =>
+    new Marked(createMathExtension()).parse(markdown) as string;
+
+  describe("renderMath", () => {
+    it("should render LaTeX to MathML", () => {
+      const html = renderMath("x^2");
+
+      expect(html).toContain('<span class="mostage-math" data-tex="x^2">');
+      expect(html).toContain("<math");
+      expect(html).toContain("<msup>");
+    });
+
+    it("should render display math as a block", () => {
+      const html = renderMath("\\frac{a}{b}", true);
+
+      expect(html).toContain('<div class="mostage-math mostage-math-display"');
+      expect(html).toContain('display="block"');
+    });
+
+    it("should show invalid LaTeX instead of throwing", () => {
+      expect(() => renderMath("\\frac{")).not.toThrow();
+      expect(renderMath("\\frac{")).toContain("mostage-math");
+    });
+  });
+
+  describe("hasMath", () => {
+    it("should find inline and display math", () => {
+      expect(hasMath("Area: $\\pi r^2$")).toBe(true);
+      expect(hasMath("$$\n\\sum_{i=1}^n i\n$$")).toBe(true);
+    });
+
+    it("should not take prices for math", () => {
+      expect(hasMath("Price: $5")).toBe(false);
+      expect(hasMath("Between $5 and $10")).toBe(false);
+      expect(hasMath("Escaped \\$x$")).toBe(false);
+    });
+  });
+
+  describe("createMathExtension", () => {
+    it("should render inline math inside text", () => {
+      const html = parse("Euler: $e^{i\\pi} + 1 = 0$ holds");
+
+      expect(html).toContain('Euler: <span class="mostage-math"');
+      expect(html).toContain("</span> holds");
+    });
+
+    it("should render display math blocks", () => {
+      const html = parse("Before\n\n$$\n\\sum_{i=1}^n i\n$$\n\nAfter");
+
+      expect(html).toContain("mostage-math-display");
+      expect(html).toContain("<p>Before</p>");
+      expect(html).toContain("<p>After</p>");
+    });
+
+    it("should leave prices and escaped dollars as text", () => {
+      expect(parse("It costs $5 and $10")).not.toContain("mostage-math");
+      expect(parse("Pay \\$x\\$ now")).not.toContain("mostage-math");
+    });
+
+    it("should not render math inside code", () => {
+      expect(parse("`$x$`")).not.toContain("mostage-math");
+      expect(parse("```\n$$x$$\n```")).not.toContain("mostage-math");
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import katex from "katex";
+import type { MarkedExtension, Tokens } from "marked";
+
+/**
+ * Math renderer
+ * Typesets inline `$...$` and display `$$...$$` LaTeX math with KaTeX.
+ * Formulas are rendered to MathML, which browsers lay out natively, so they
+ * need no stylesheet or web fonts and keep working offline and in exports.
+ */
+
+interface MathToken extends Tokens.Generic {
+  type: "math";
+  raw: string;
+  text: string; // LaTeX source
+  displayMode: boolean;
+}
+
+const BLOCK_MATH_PATTERN = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/;
+const INLINE_DISPLAY_MATH_PATTERN = /^\$\$([\s\S]+?)\$\$/;
+// "$" must hug the formula, so prices such as "$5 and $10" stay text
+const INLINE_MATH_PATTERN = /^\$(?!\s)((?:\\.|[^\\$\n])*?[^\\\s$])\$(?!\d)/;
+const CONTAINS_MATH_PATTERN =
+  /\$\$[\s\S]+?\$\$|(?<![\\$])\$(?!\s)(?:\\.|[^\\$\n])*?[^\\\s$]\$(?!\d)/;
+
+/**
+ * Check whether text holds `$...$` or `$$...$$` math
+ * @param text - Markdown or plain text
+ * @returns False for text with dollar signs that are not math, e.g. "$5"
+ */
+export function hasMath(text: string): boolean {
+  return CONTAINS_MATH_PATTERN.test(text);
+}
+
+/**
+ * Render LaTeX to HTML
+ * @param tex - LaTeX source
+ * @param displayMode - Render as a centered block instead of inline
+ * @returns HTML wrapping the MathML; invalid LaTeX is shown as an error
+ */
+export function renderMath(tex: string, displayMode: boolean = false): string {
+  const mathml = katex.renderToString(tex.trim(), {
+    displayMode,
+    output: "mathml",
+    throwOnError: false,
+  });
+  const tag = displayMode ? "div" : "span";
+  const className = displayMode
+    ? "mostage-math mostage-math-display"
+    : "mostage-math";
+
+  return `<${tag} class="${className}" data-tex="${escapeAttribute(tex.trim())}">${mathml}</${tag}>`;
+}
+
+/**
+ * marked extension adding `$...$` and `$$...$$` math
+ */
+export function createMathExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "math",
+        level: "block",
+        start: (src: string) => src.match(/^ {0,3}\$\$/m)?.index,
+        tokenizer(src: string): MathToken | undefined {
+          const match = src.match(BLOCK_MATH_PATTERN);
+          if (!match) return undefined;
+          return {
+            type: "math",
+            raw: match[0],
+            text: match[1],
+            displayMode: true,
+          };
+        },
+        renderer: (token) => renderMath(token.text, token.displayMode),
+      },
+      {
+        name: "math",
+        level: "inline",
+        start: (src: string) => src.match(/(?<!\\)\$/)?.index,
+        tokenizer(src: string): MathToken | undefined {
+          const display = src.match(INLINE_DISPLAY_MATH_PATTERN);
+          if (display) {
+            return {
+              type: "math",
+              raw: display[0],
+              text: display[1],
+              displayMode: true,
+            };
+          }
+
+          const match = src.match(INLINE_MATH_PATTERN);
+          if (!match) return undefined;
+          return {
+            type: "math",
+            raw: match[0],
+            text: match[1],
+            displayMode: false,
+          };
+        },
+        renderer: (token) => renderMath(token.text, token.displayMode),
+      },
+    ],
+  };
+}
+
+function escapeAttribute(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
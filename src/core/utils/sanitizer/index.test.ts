@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { HtmlSanitizer } from "./index";
+
+describe("HtmlSanitizer", () => {
+  const sanitizer = new HtmlSanitizer();
+
+  it("should remove scripts together with their code", () => {
+    const { html, removed } = sanitizer.sanitize(
+      "<p>Hello</p><script>alert(1)</script>"
+    );
+
+    expect(html).toBe("<p>Hello</p>");
+    expect(removed).toEqual(["<script>"]);
+  });
+
+  it("should remove event handlers and javascript: URLs", () => {
+    const { html, removed } = sanitizer.sanitize(
+      '<img src="x.png" onerror="alert(1)"><a href=" JavaScript:alert(1)">link</a>'
+    );
+
+    expect(html).toBe('<img src="x.png"><a>link</a>');
+    expect(removed).toEqual([
+      "onerror on <img>",
+      "javascript: URL in <a href>",
+    ]);
+  });
+
+  it("should keep the text of tags that aren't allowed", () => {
+    const { html, removed } = sanitizer.sanitize(
+      "<p><blink>Still <strong>here</strong></blink></p>"
+    );
+
+    expect(html).toBe("<p>Still <strong>here</strong></p>");
+    expect(removed).toEqual(["<blink>"]);
+  });
+
+  it("should keep the markup mostage renders", () => {
+    const markup =
+      '<div class="mostage-math" data-tex="x"><math><mi>x</mi></math></div>' +
+      '<ul><li><input class="mostage-task-checkbox" checked="" disabled="" type="checkbox"> Done</li></ul>' +
+      '<pre><code class="language-js" data-line-numbers="">let a;</code></pre>';
+
+    expect(sanitizer.sanitize(markup)).toEqual({ html: markup, removed: [] });
+  });
+
+  it("should add the configured tags, attributes and schemes", () => {
+    const custom = new HtmlSanitizer({
+      allowedTags: ["iframe"],
+      allowedAttributes: ["allowfullscreen"],
+      allowedSchemes: ["data"],
+    });
+    const markup =
+      '<iframe src="https://example.com" allowfullscreen=""></iframe><img src="data:image/png;base64,AA==">';
+
+    expect(custom.sanitize(markup)).toEqual({ html: markup, removed: [] });
+    expect(sanitizer.sanitize(markup).removed).toEqual([
+      "<iframe>",
+      "data: URL in <img src>",
+    ]);
+  });
+
+  it("should keep new windows from reaching the presentation", () => {
+    const { html } = sanitizer.sanitize(
+      '<a href="https://example.com" target="_blank">link</a>'
+    );
+
+    expect(html).toContain('rel="noopener noreferrer"');
+  });
+
+  it("should keep diagram SVG but remove its scripts and javascript: links", () => {
+    const { html, removed } = sanitizer.sanitizeSvg(
+      '<svg id="d" viewBox="0 0 10 10"><style>#d .node {fill:red}</style>' +
+        '<a xlink:href="javascript:alert(1)"><rect class="node" width="5" height="5" onclick="alert(1)"></rect></a>' +
+        "<script>alert(1)</script></svg>"
+    );
+
+    expect(html).toBe(
+      '<svg id="d" viewBox="0 0 10 10"><style>#d .node {fill:red}</style>' +
+        '<a><rect class="node" width="5" height="5"></rect></a></svg>'
+    );
+    expect(removed).toEqual([
+      "javascript: URL in <a xlink:href>",
+      "onclick on <rect>",
+      "<script>",
+    ]);
+  });
+
+  it("should limit diagram styles to the diagram", () => {
+    // Mermaid adds themeCSS from %%{init: {"themeCSS": "..."}}%% as written
+    const { html, removed } = sanitizer.sanitizeSvg(
+      '<svg id="d"><style>#d{fill:#333}#d .node rect{fill:red}' +
+        "body{display:none}#d ~ *, .slide{visibility:hidden}" +
+        "@import url(https://example.com/track.css);" +
+        "@media print{.edge{stroke:black}}</style></svg>"
+    );
+
+    const css = new DOMParser()
+      .parseFromString(html, "text/html")
+      .querySelector("style")?.textContent;
+    expect(css).toBe(
+      "#d {fill:#333}#d .node rect {fill:red}#d body {display:none}" +
+        "#d #d ~ *, #d .slide {visibility:hidden}" +
+        "@media print {#d .edge {stroke:black}}"
+    );
+    expect(removed).toEqual(["@import in <style>"]);
+  });
+
+  it("should scope styles of diagrams without an id", () => {
+    const { html } = sanitizer.sanitizeSvg(
+      "<svg><style>text{fill:red}</style></svg>"
+    );
+
+    const svg = new DOMParser()
+      .parseFromString(html, "text/html")
+      .querySelector("svg")!;
+    expect(svg.id).toMatch(/^mostage-svg-\d+$/);
+    expect(svg.querySelector("style")?.textContent).toBe(
+      `#${svg.id} text {fill:red}`
+    );
+  });
+
+  it("should remove diagram styles it cannot read", () => {
+    const { html, removed } = sanitizer.sanitizeSvg(
+      '<svg id="d"><style>.a:is( {fill:red} ) , body {display:none}</style></svg>'
+    );
+
+    expect(html).toBe('<svg id="d"></svg>');
+    expect(removed).toEqual(["<style>"]);
+  });
+
+  it("should not allow SVG tags outside diagrams", () => {
+    expect(sanitizer.sanitize("<svg><rect></rect></svg>").removed).toEqual([
+      "<svg>",
+      "<rect>",
+    ]);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * HTML sanitizer
+ * Allowlist-based cleaning of rendered slide HTML for decks that aren't
+ * trusted. Tags, attributes and URL schemes outside the allowlists are
+ * removed, and every removal is reported. Disallowed tags keep their text
+ * content, except for tags such as `<script>` whose content is code.
+ *
+ * The HTML is parsed into an inert template, so nothing in it loads or runs
+ * while it is cleaned.
+ *
+ * Diagram SVG is cleaned with an SVG allowlist on top of the HTML one, as
+ * labels may hold HTML, and the same URL scheme checks. A diagram's `<style>`
+ * would style the whole page, so its rules are limited to its own `<svg>`.
+ */
+
+export interface SanitizeOptions {
+  allowedTags?: string[]; // Added to the default tags
+  allowedAttributes?: string[]; // Added to the default attributes; "data-*" style wildcards allowed
+  allowedSchemes?: string[]; // Added to the default URL schemes
+}
+
+export interface SanitizeResult {
+  html: string;
+  removed: string[]; // What was removed, e.g. "<script>" or "onclick on <img>"
+}
+
+const list = (names: string): string[] => names.trim().split(/\s+/);
+
+export const DEFAULT_ALLOWED_TAGS = list(`
+  a abbr address article aside b bdi bdo blockquote br cite code dd del
+  details dfn div dl dt em figcaption figure footer h1 h2 h3 h4 h5 h6 header
+  hr i input ins kbd li main mark nav ol p pre q rp rt ruby s samp section
+  small span strong sub summary sup time u ul var wbr
+  caption col colgroup table tbody td tfoot th thead tr
+  audio img picture source track video
+  math annotation menclose merror mfrac mi mmultiscripts mn mo mover mpadded
+  mphantom mprescripts mroot mrow ms mspace msqrt mstyle msub msubsup msup
+  mtable mtd mtext mtr munder munderover semantics
+`);
+
+export const DEFAULT_ALLOWED_ATTRIBUTES = list(`
+  class id title lang dir role hidden aria-* data-*
+  href target rel src srcset sizes media alt width height loading decoding
+  poster controls autoplay loop muted playsinline preload kind label srclang
+  start reversed type checked disabled open colspan rowspan headers scope
+  align valign datetime cite
+  accent accentunder columnalign columnspacing depth display displaystyle
+  encoding fence linethickness lspace mathvariant maxsize minsize
+  movablelimits notation rowspacing rspace scriptlevel separator stretchy
+  xmlns
+`);
+
+// Shapes, text, paint servers and the styles diagram libraries emit
+export const DEFAULT_ALLOWED_SVG_TAGS = list(`
+  svg g defs symbol use title desc metadata switch foreignobject
+  path rect circle ellipse line polyline polygon text tspan textpath
+  marker clippath mask pattern image lineargradient radialgradient stop
+  filter fegaussianblur feoffset feblend feflood fecomposite femerge
+  femergenode fecolormatrix fedropshadow style
+`);
+
+export const DEFAULT_ALLOWED_SVG_ATTRIBUTES = list(`
+  style xmlns:xlink xlink:href xlink:title version viewbox
+  preserveaspectratio transform transform-origin d points x y x1 x2 y1 y2
+  cx cy r rx ry dx dy fill fill-opacity fill-rule stroke stroke-width
+  stroke-dasharray stroke-dashoffset stroke-linecap stroke-linejoin
+  stroke-miterlimit stroke-opacity opacity clip-path clip-rule clippathunits
+  mask maskunits filter filterunits marker-start marker-mid marker-end
+  markerwidth markerheight markerunits refx refy orient offset stop-color
+  stop-opacity gradientunits gradienttransform spreadmethod fx fy
+  patternunits patterncontentunits patterntransform font-family font-size
+  font-style font-weight text-anchor dominant-baseline alignment-baseline
+  baseline-shift letter-spacing word-spacing textlength lengthadjust
+  startoffset display visibility overflow color vector-effect
+  pointer-events stddeviation in in2 result mode operator values
+  flood-color flood-opacity
+`);
+
+export const DEFAULT_ALLOWED_SCHEMES = ["http", "https", "mailto", "tel"];
+
+// Removed together with their content, which is code rather than text
+const DROPPED_CONTENT_TAGS = new Set(
+  list(`
+    script style template noscript iframe object embed frame frameset
+    noembed noframes xmp
+  `)
+);
+
+const URL_ATTRIBUTES = new Set(["href", "xlink:href", "src", "poster", "cite"]);
+
+// Brackets of diagram stylesheets, by closing bracket
+const OPENING_BRACKETS: Record<string, string> = {
+  ")": "(",
+  "]": "[",
+  "}": "{",
+};
+
+let scopeCount = 0;
+
+interface Allowlist {
+  tags: Set<string>;
+  attributes: Set<string>;
+}
+
+export class HtmlSanitizer {
+  private html: Allowlist;
+  private svg: Allowlist;
+  private attributePrefixes: string[];
+  private schemes: Set<string>;
+
+  constructor(options: SanitizeOptions = {}) {
+    const tags = [...DEFAULT_ALLOWED_TAGS, ...(options.allowedTags ?? [])].map(
+      (tag) => tag.toLowerCase()
+    );
+    const attributes = [
+      ...DEFAULT_ALLOWED_ATTRIBUTES,
+      ...(options.allowedAttributes ?? []),
+    ].map((attribute) => attribute.toLowerCase());
+    const exactAttributes = attributes.filter(
+      (attribute) => !attribute.endsWith("*")
+    );
+
+    this.html = {
+      tags: new Set(tags),
+      attributes: new Set(exactAttributes),
+    };
+    this.svg = {
+      tags: new Set([...tags, ...DEFAULT_ALLOWED_SVG_TAGS]),
+      attributes: new Set([
+        ...exactAttributes,
+        ...DEFAULT_ALLOWED_SVG_ATTRIBUTES,
+      ]),
+    };
+    this.attributePrefixes = attributes
+      .filter((attribute) => attribute.endsWith("*"))
+      .map((attribute) => attribute.slice(0, -1));
+
+    this.schemes = new Set(
+      [...DEFAULT_ALLOWED_SCHEMES, ...(options.allowedSchemes ?? [])].map(
+        (scheme) => scheme.toLowerCase().replace(/:$/, "")
+      )
+    );
+  }
+
+  /**
+   * Remove everything outside the allowlists from an HTML fragment
+   * @param html - HTML to clean
+   * @returns The cleaned HTML and what was removed
+   */
+  sanitize(html: string): SanitizeResult {
+    return this.clean(html, this.html);
+  }
+
+  /**
+   * Remove everything outside the SVG and HTML allowlists from diagram SVG
+   * @param svg - SVG markup, e.g. rendered by Mermaid or Graphviz
+   * @returns The cleaned SVG and what was removed
+   */
+  sanitizeSvg(svg: string): SanitizeResult {
+    return this.clean(svg, this.svg);
+  }
+
+  private clean(html: string, allowlist: Allowlist): SanitizeResult {
+    const template = document.createElement("template");
+    template.innerHTML = html;
+    const removed: string[] = [];
+
+    this.cleanChildren(template.content, removed, allowlist);
+    template.content
+      .querySelectorAll("svg style")
+      .forEach((style) => this.scopeStyle(style, removed));
+
+    return { html: template.innerHTML, removed };
+  }
+
+  // Limit the rules of a <style> to the <svg> it is in
+  private scopeStyle(style: Element, removed: string[]): void {
+    const svg = style.closest("svg")!;
+    if (!/^[a-z][\w-]*$/i.test(svg.id)) {
+      svg.id = `mostage-svg-${++scopeCount}`;
+    }
+
+    const css = readStylesheet(style.textContent || "");
+    if (css === null) {
+      removed.push("<style>");
+      style.remove();
+      return;
+    }
+    style.textContent = scopeRules(css, `#${svg.id}`, removed);
+  }
+
+  private cleanChildren(
+    parent: Node,
+    removed: string[],
+    allowlist: Allowlist
+  ): void {
+    Array.from(parent.childNodes).forEach((node) => {
+      if (node.nodeType === Node.COMMENT_NODE) {
+        node.remove();
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = node as Element;
+      const tag = element.localName.toLowerCase();
+
+      if (!allowlist.tags.has(tag)) {
+        removed.push(`<${tag}>`);
+        if (DROPPED_CONTENT_TAGS.has(tag)) {
+          element.remove();
+        } else {
+          // Keep the text of unknown tags, cleaned the same way
+          this.cleanChildren(element, removed, allowlist);
+          element.replaceWith(...Array.from(element.childNodes));
+        }
+        return;
+      }
+
+      this.cleanAttributes(element, tag, removed, allowlist);
+      this.cleanChildren(element, removed, allowlist);
+    });
+  }
+
+  private cleanAttributes(
+    element: Element,
+    tag: string,
+    removed: string[],
+    allowlist: Allowlist
+  ): void {
+    Array.from(element.attributes).forEach((attribute) => {
+      const name = attribute.name.toLowerCase();
+
+      if (!this.isAllowedAttribute(name, allowlist)) {
+        removed.push(`${name} on <${tag}>`);
+        element.removeAttribute(attribute.name);
+        return;
+      }
+
+      const urls =
+        name === "srcset"
+          ? attribute.value
+              .split(",")
+              .map((entry) => entry.trim().split(/\s+/)[0])
+          : URL_ATTRIBUTES.has(name)
+            ? [attribute.value]
+            : [];
+      const blocked = urls
+        .map((url) => this.getBlockedScheme(url))
+        .find(Boolean);
+      if (blocked) {
+        removed.push(`${blocked}: URL in <${tag} ${name}>`);
+        element.removeAttribute(attribute.name);
+      }
+    });
+
+    // Links opening a new window get no handle on this page
+    if (element.getAttribute("target")) {
+      element.setAttribute("rel", "noopener noreferrer");
+    }
+  }
+
+  private isAllowedAttribute(name: string, allowlist: Allowlist): boolean {
+    return (
+      allowlist.attributes.has(name) ||
+      this.attributePrefixes.some((prefix) => name.startsWith(prefix))
+    );
+  }
+
+  // The scheme of a URL unless it is allowed; relative URLs are allowed
+  private getBlockedScheme(url: string): string | undefined {
+    // Browsers ignore whitespace and control characters inside the scheme
+    const normalized = url.replace(/[\u0000- ]/g, "").toLowerCase();
+    const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+    return scheme && !this.schemes.has(scheme) ? scheme : undefined;
+  }
+}
+
+// Drop the comments of a stylesheet. Stylesheets with escapes, unclosed
+// strings or brackets that don't pair up are refused (null), so the rules
+// read here are the rules the browser reads.
+function readStylesheet(css: string): string | null {
+  const open: string[] = [];
+  let result = "";
+
+  for (let index = 0; index < css.length; index++) {
+    const char = css[index];
+
+    if (char === "/" && css[index + 1] === "*") {
+      const end = css.indexOf("*/", index + 2);
+      if (end === -1) return null;
+      result += " ";
+      index = end + 1;
+    } else if (char === '"' || char === "'") {
+      const end = findStringEnd(css, index);
+      if (end === -1) return null;
+      result += css.slice(index, end + 1);
+      index = end;
+    } else if (char === "\\") {
+      return null;
+    } else {
+      if (char === "(" || char === "[" || char === "{") {
+        // Blocks can't start inside parentheses or brackets
+        if (char === "{" && open.some((bracket) => bracket !== "{")) {
+          return null;
+        }
+        open.push(char);
+      } else if (
+        OPENING_BRACKETS[char] &&
+        open.pop() !== OPENING_BRACKETS[char]
+      ) {
+        return null;
+      }
+      result += char;
+    }
+  }
+
+  return open.length === 0 ? result : null;
+}
+
+// Index of the quote closing the string at start, or -1
+function findStringEnd(css: string, start: number): number {
+  for (let index = start + 1; index < css.length; index++) {
+    if (css[index] === "\\") {
+      index++;
+    } else if (/[\n\r\f]/.test(css[index])) {
+      return -1;
+    } else if (css[index] === css[start]) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+// Index of the first of the given characters outside strings and nested
+// brackets, or -1
+function findTopLevel(css: string, from: number, chars: string): number {
+  let depth = 0;
+  for (let index = from; index < css.length; index++) {
+    const char = css[index];
+    if (depth === 0 && chars.includes(char)) return index;
+    if (char === '"' || char === "'") {
+      index = findStringEnd(css, index);
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    }
+  }
+  return -1;
+}
+
+// Rewrite the rules of a stylesheet read by readStylesheet so they only
+// match inside the scope. At-rules other than @media are global, e.g.
+// @import or @keyframes, and are removed.
+function scopeRules(css: string, scope: string, removed: string[]): string {
+  let result = "";
+  let position = 0;
+
+  while (position < css.length) {
+    const start = findTopLevel(css, position, "{;");
+    if (start === -1) break;
+
+    const prelude = css.slice(position, start).trim();
+    const atRule = prelude.match(/^@[\w-]+/)?.[0].toLowerCase();
+    if (css[start] === ";") {
+      if (atRule) removed.push(`${atRule} in <style>`);
+      position = start + 1;
+      continue;
+    }
+
+    const end = findTopLevel(css, start + 1, "}");
+    const block = css.slice(start + 1, end);
+    position = end + 1;
+
+    if (atRule === "@media") {
+      result += `${prelude} {${scopeRules(block, scope, removed)}}`;
+    } else if (atRule) {
+      removed.push(`${atRule} in <style>`);
+    } else if (findTopLevel(block, 0, "{") !== -1) {
+      // Nested rules could select the scope's siblings
+      removed.push(`nested rules in <style>`);
+    } else if (prelude) {
+      const selectors = splitSelectors(prelude).map((selector) =>
+        isScoped(selector, scope) ? selector : `${scope} ${selector}`
+      );
+      result += `${selectors.join(", ")} {${block}}`;
+    }
+  }
+
+  return result;
+}
+
+// Split a selector list on its top-level commas
+function splitSelectors(selectorList: string): string[] {
+  const selectors: string[] = [];
+  let position = 0;
+  while (position <= selectorList.length) {
+    const comma = findTopLevel(selectorList, position, ",");
+    const end = comma === -1 ? selectorList.length : comma;
+    selectors.push(selectorList.slice(position, end).trim());
+    position = end + 1;
+  }
+  return selectors.filter(Boolean);
+}
+
+// Selectors starting at the scope, e.g. `#diagram .node`, stay inside it
+// unless a sibling combinator leads out, as in `#diagram ~ *`
+function isScoped(selector: string, scope: string): boolean {
+  const rest = selector.slice(scope.length);
+  return (
+    selector.startsWith(scope) && !/^[\w-]/.test(rest) && !/[~+]/.test(rest)
+  );
+}
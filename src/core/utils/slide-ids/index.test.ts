@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { createSlideIds, getSlideElementId, slugify } from "./index";
+
+describe("slide ids", () => {
+  describe("slugify", () => {
+    it("should turn heading text into an anchor", () => {
+      expect(slugify("Getting Started")).toBe("getting-started");
+      expect(slugify("What's **new** in `v2`?")).toBe("whats-new-in-v2");
+      expect(slugify("See [the docs](https://example.com)")).toBe(
+        "see-the-docs"
+      );
+      expect(slugify("Über <em>Größe</em> – 2024")).toBe("über-größe-2024");
+    });
+
+    it("should be empty without letters or digits", () => {
+      expect(slugify("🚀 !!")).toBe("");
+    });
+  });
+
+  describe("createSlideIds", () => {
+    it("should prefer directive ids, then headings, then numbers", () => {
+      expect(
+        createSlideIds([
+          { heading: "Intro" },
+          { id: "custom", heading: "Ignored" },
+          {},
+          { heading: "???" },
+        ])
+      ).toEqual(["intro", "custom", "slide-3", "slide-4"]);
+    });
+
+    it("should number repeated headings", () => {
+      expect(
+        createSlideIds([
+          { heading: "Demo" },
+          { heading: "Demo" },
+          { id: "setup" },
+          { heading: "Setup" },
+          { heading: "Demo" },
+        ])
+      ).toEqual(["demo", "demo-2", "setup", "setup-2", "demo-3"]);
+    });
+
+    it("should number repeated directive ids", () => {
+      expect(
+        createSlideIds([
+          { id: "demo" },
+          { heading: "Demo" },
+          { id: "demo" },
+          { id: "demo-2" },
+        ])
+      ).toEqual(["demo", "demo-3", "demo-4", "demo-2"]);
+    });
+  });
+
+  describe("getSlideElementId", () => {
+    it("should prefix slide ids for the page", () => {
+      expect(getSlideElementId("intro")).toBe("mostage-slide-intro");
+    });
+  });
+});
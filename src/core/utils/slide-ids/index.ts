@@ -0,0 +1,75 @@
+/**
+ * Slide ids
+ * Gives every slide an id that survives slides being added or removed
+ * around it: the one set with an `id` directive, or else one made from the
+ * slide's first heading. Slides with neither are numbered.
+ *
+ * Slide elements carry the id with a `mostage-slide-` prefix, so slide ids
+ * never clash with heading anchors or other ids on the page.
+ */
+
+const ELEMENT_ID_PREFIX = "mostage-slide-";
+
+export interface SlideIdSource {
+  id?: string; // Set with an `id` directive
+  heading?: string; // Markdown of the slide's first heading
+}
+
+/**
+ * Turn heading text into an anchor such as "getting-started"
+ * Links, code, emphasis and HTML tags are reduced to their text.
+ * @returns The slug, empty when the text has no letters or digits
+ */
+export function slugify(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/[\s-]+/g, "-");
+}
+
+/**
+ * Give each slide a unique id
+ *
+ * Directive ids are claimed first, each by the first slide that sets it.
+ * Headings become slugs and other slides are `slide-N`, counted from 1.
+ * Whatever is taken by then, a repeated directive id included, is numbered
+ * from `-2` on.
+ * @param slides - Directive id and heading of each slide, in order
+ * @returns The id of each slide
+ */
+export function createSlideIds(slides: SlideIdSource[]): string[] {
+  const taken = new Set<string>();
+  const claimed = slides.map((slide) => {
+    if (!slide.id || taken.has(slide.id)) return null;
+    taken.add(slide.id);
+    return slide.id;
+  });
+
+  return slides.map((slide, index) => {
+    const claim = claimed[index];
+    if (claim) return claim;
+
+    const base =
+      slide.id ||
+      (slide.heading && slugify(slide.heading)) ||
+      `slide-${index + 1}`;
+    let id = base;
+    for (let count = 2; taken.has(id); count++) {
+      id = `${base}-${count}`;
+    }
+    taken.add(id);
+    return id;
+  });
+}
+
+/**
+ * The id of a slide's element in the page
+ * @param id - Slide id, e.g. "intro"
+ * @returns The element id, e.g. "mostage-slide-intro"
+ */
+export function getSlideElementId(id: string): string {
+  return `${ELEMENT_ID_PREFIX}${id}`;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SlideLayouts } from "./index";
+
+describe("SlideLayouts", () => {
+  let layouts: SlideLayouts;
+
+  beforeEach(() => {
+    layouts = new SlideLayouts();
+  });
+
+  it("should provide the built-in layouts", () => {
+    expect(layouts.getNames()).toEqual([
+      "title",
+      "section",
+      "quote",
+      "two-column",
+      "image-left",
+    ]);
+    expect(layouts.getSlots("two-column")).toEqual([
+      "default",
+      "left",
+      "right",
+    ]);
+  });
+
+  it("should fill the template's slots and leave missing ones empty", () => {
+    layouts.register("split", "<i>{{a}}</i><b>{{ b }}</b>");
+
+    expect(layouts.render("split", { a: "<p>A</p>" })).toBe(
+      '<div class="mostage-layout" data-layout="split"><i><p>A</p></i><b></b></div>'
+    );
+  });
+
+  it("should let projects replace a built-in layout", () => {
+    layouts.register("title", "<header>{{default}}</header>");
+
+    expect(layouts.render("title", { default: "T" })).toContain(
+      "<header>T</header>"
+    );
+  });
+
+  it("should reject unknown layouts", () => {
+    expect(() => layouts.render("missing", {})).toThrow(
+      'Unknown slide layout "missing"'
+    );
+  });
+});
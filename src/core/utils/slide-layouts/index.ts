@@ -0,0 +1,67 @@
+/**
+ * Slide layouts
+ * Named HTML templates that arrange a slide's regions. A template refers to
+ * the regions it places with `{{slot}}` placeholders; `{{default}}` holds the
+ * content written before the first `::slot::` separator.
+ */
+
+const SLOT_PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const region = (slot: string) =>
+  `<div class="mostage-region mostage-region-${slot}">{{${slot}}}</div>`;
+
+const BUILT_IN_LAYOUTS: Record<string, string> = {
+  title: region("default"),
+  section: region("default"),
+  quote: region("default") + region("author"),
+  "two-column": region("default") + region("left") + region("right"),
+  "image-left": region("image") + region("default"),
+};
+
+export class SlideLayouts {
+  private templates = new Map<string, string>(Object.entries(BUILT_IN_LAYOUTS));
+
+  /**
+   * Add a layout, or replace one with the same name
+   * @param name - Layout name used in `<!-- .slide: layout="name" -->`
+   * @param template - HTML with `{{slot}}` placeholders for the regions
+   */
+  register(name: string, template: string): void {
+    this.templates.set(name, template);
+  }
+
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.templates.keys());
+  }
+
+  /**
+   * Names of the regions a layout places
+   */
+  getSlots(name: string): string[] {
+    const template = this.templates.get(name) ?? "";
+    return Array.from(template.matchAll(SLOT_PLACEHOLDER), (match) => match[1]);
+  }
+
+  /**
+   * Fill a layout's template with rendered regions
+   * @param name - Registered layout name
+   * @param regions - Region HTML by slot name; missing slots render empty
+   * @returns The layout's HTML wrapped in a `.mostage-layout` element
+   */
+  render(name: string, regions: Record<string, string>): string {
+    const template = this.templates.get(name);
+    if (template === undefined) {
+      throw new Error(`Unknown slide layout "${name}"`);
+    }
+
+    const html = template.replace(
+      SLOT_PLACEHOLDER,
+      (_match, slot: string) => regions[slot] ?? ""
+    );
+    return `<div class="mostage-layout" data-layout="${name}">${html}</div>`;
+  }
+}
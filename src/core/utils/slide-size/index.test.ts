@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { parseAspectRatio, resolveSlideSize } from "./index";
+
+describe("slide size", () => {
+  describe("parseAspectRatio", () => {
+    it("should parse ratios written with a colon or a slash", () => {
+      expect(parseAspectRatio("16:9")).toBeCloseTo(16 / 9);
+      expect(parseAspectRatio("4/3")).toBeCloseTo(4 / 3);
+      expect(parseAspectRatio(1.6)).toBe(1.6);
+    });
+
+    it("should reject invalid ratios", () => {
+      expect(parseAspectRatio("wide")).toBeNull();
+      expect(parseAspectRatio("16:0")).toBeNull();
+      expect(parseAspectRatio(-1)).toBeNull();
+      expect(parseAspectRatio(undefined)).toBeNull();
+    });
+  });
+
+  describe("resolveSlideSize", () => {
+    it("should keep slides fluid without size settings", () => {
+      expect(resolveSlideSize({})).toBeNull();
+    });
+
+    it("should use an explicit width and height", () => {
+      expect(resolveSlideSize({ width: 1280, height: 720 })).toEqual({
+        width: 1280,
+        height: 720,
+      });
+    });
+
+    it("should derive the missing dimension from the aspect ratio", () => {
+      expect(resolveSlideSize({ aspectRatio: "4:3" })).toEqual({
+        width: 1920,
+        height: 1440,
+      });
+      expect(resolveSlideSize({ width: 1024, aspectRatio: "4:3" })).toEqual({
+        width: 1024,
+        height: 768,
+      });
+      expect(resolveSlideSize({ height: 1080 })).toEqual({
+        width: 1920,
+        height: 1080,
+      });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Slide size resolver
+ * Turns the `width`, `height` and `aspectRatio` settings of a configuration
+ * into the fixed logical resolution slides are laid out at.
+ */
+
+import type { MoSlideSize } from "@/types";
+
+export const DEFAULT_SLIDE_WIDTH = 1920;
+export const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+const ASPECT_RATIO_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Parse an aspect ratio such as "16:9", "4/3" or 1.6
+ * @returns The width-to-height ratio, or null when the value is invalid
+ */
+export function parseAspectRatio(value: unknown): number | null {
+  if (typeof value === "number") {
+    return value > 0 && isFinite(value) ? value : null;
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = value.match(ASPECT_RATIO_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? width / height : null;
+}
+
+/**
+ * Resolve the logical slide size of a configuration
+ * @param config - Object with optional `width`, `height` and `aspectRatio`
+ * @returns The slide size in pixels, or null when slides should stay fluid
+ */
+export function resolveSlideSize(config: {
+  width?: unknown;
+  height?: unknown;
+  aspectRatio?: unknown;
+}): MoSlideSize | null {
+  const width = isPositiveNumber(config.width) ? config.width : undefined;
+  const height = isPositiveNumber(config.height) ? config.height : undefined;
+  const ratio = parseAspectRatio(config.aspectRatio);
+
+  if (width === undefined && height === undefined && ratio === null) {
+    return null;
+  }
+
+  if (width !== undefined && height !== undefined) {
+    return { width, height };
+  }
+
+  const aspectRatio = ratio ?? DEFAULT_ASPECT_RATIO;
+  if (height !== undefined) {
+    return { width: Math.round(height * aspectRatio), height };
+  }
+
+  const slideWidth = width ?? DEFAULT_SLIDE_WIDTH;
+  return { width: slideWidth, height: Math.round(slideWidth / aspectRatio) };
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && value > 0 && isFinite(value);
+}
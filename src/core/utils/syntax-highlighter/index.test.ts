@@ -22,16 +22,6 @@ vi.mock("prismjs", () => ({
 import { SyntaxHighlighter } from "./index";
 import Prism from "prismjs";
 
-// Mock CSS imports
-vi.mock("prismjs/themes/prism-tomorrow.css", () => ({}));
-vi.mock("prismjs/components/prism-markdown", () => ({}));
-vi.mock("prismjs/components/prism-markup", () => ({}));
-vi.mock("prismjs/components/prism-bash", () => ({}));
-vi.mock("prismjs/components/prism-javascript", () => ({}));
-vi.mock("prismjs/components/prism-typescript", () => ({}));
-vi.mock("prismjs/components/prism-json", () => ({}));
-vi.mock("prismjs/components/prism-css", () => ({}));
-
 describe("SyntaxHighlighter", () => {
   let highlighter: SyntaxHighlighter;
 
@@ -502,4 +492,107 @@ describe("SyntaxHighlighter", () => {
       );
     });
   });
+
+  describe("Languages and Themes", () => {
+    it("should load languages on demand and resolve aliases", () => {
+      const code = "print(1)";
+
+      highlighter.highlightCode(code, "py");
+
+      expect(Prism.languages).toHaveProperty("python");
+      expect(Prism.highlight).toHaveBeenCalledWith(
+        code,
+        Prism.languages.python,
+        "py"
+      );
+    });
+
+    it("should only highlight the configured languages", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      highlighter.updateConfig({ languages: ["json"] });
+
+      const result = highlighter.highlightCode("let a = 1;", "javascript");
+
+      expect(Prism.highlight).not.toHaveBeenCalled();
+      expect(result).toBe("let a = 1;");
+      warnSpy.mockRestore();
+    });
+
+    it("should inject the selected color theme", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const style = () => document.getElementById("mostage-code-theme");
+
+      highlighter.initialize();
+      expect(style()?.tagName).toBe("STYLE");
+
+      highlighter.updateConfig({ theme: "unknown" });
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("okaidia"));
+
+      highlighter.updateConfig({ theme: "none" });
+      expect(style()).toBeNull();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe("Code Block Options", () => {
+    let container: HTMLElement;
+
+    const renderBlock = (meta: string, code: string) => {
+      container.innerHTML = `<pre><code class="language-javascript" data-meta="${meta}">${code}</code></pre>`;
+      highlighter.highlightAll(container);
+      return container.querySelector("pre")!;
+    };
+
+    beforeEach(() => {
+      container = document.createElement("div");
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      document.body.innerHTML = "";
+    });
+
+    it("should number lines from the start line", () => {
+      const pre = renderBlock("lines start=10", "a\nb\n");
+
+      const lines = pre.querySelectorAll<HTMLElement>(".code-line");
+      expect(pre.classList.contains("mostage-line-numbers")).toBe(true);
+      expect(Array.from(lines).map((line) => line.dataset.line)).toEqual([
+        "10",
+        "11",
+      ]);
+      expect(pre.querySelector("code")?.textContent).toBe("a\nb");
+    });
+
+    it("should keep token spans balanced on every line", () => {
+      const pre = renderBlock("lines", "/* a\nb */");
+
+      const lines = pre.querySelectorAll(".code-line");
+      expect(lines[0].innerHTML).toBe('<span class="token">/* a</span>');
+      expect(lines[1].innerHTML).toBe('<span class="token">b */</span>');
+    });
+
+    it("should highlight the first step and add a fragment per later step", () => {
+      const pre = renderBlock("{2|1,3}", "a\nb\nc");
+
+      expect(pre.querySelectorAll(".fragment.mostage-code-step")).toHaveLength(
+        1
+      );
+      expect(pre.classList.contains("mostage-code-dimmed")).toBe(true);
+      expect(
+        Array.from(pre.querySelectorAll<HTMLElement>(".highlighted")).map(
+          (line) => line.dataset.line
+        )
+      ).toEqual(["2"]);
+    });
+
+    it("should add a copy button when enabled", () => {
+      highlighter.updateConfig({ copyButton: true });
+      const pre = renderBlock("", "a");
+      highlighter.highlightAll(container);
+
+      expect(pre.querySelectorAll(".mostage-code-copy")).toHaveLength(1);
+      expect(renderBlock("copy=false", "a").querySelector("button")).toBeNull();
+    });
+  });
 });
@@ -1,12 +1,13 @@
 import Prism from "prismjs";
-import "prismjs/themes/prism-tomorrow.css";
-import "prismjs/components/prism-markdown";
-import "prismjs/components/prism-markup";
-import "prismjs/components/prism-bash";
-import "prismjs/components/prism-javascript";
-import "prismjs/components/prism-typescript";
-import "prismjs/components/prism-json";
-import "prismjs/components/prism-css";
+import { CodeBlockOptions, parseCodeMeta, showCodeStep } from "../code-blocks";
+import {
+  getCodeThemeCss,
+  getCodeThemeNames,
+  loadLanguage,
+  resolveLanguage,
+} from "./languages";
+
+const CODE_THEME_STYLE_ID = "mostage-code-theme";
 
 /**
  * Syntax Highlighter Configuration
@@ -18,6 +19,54 @@ export interface SyntaxHighlighterConfig {
   containerClass?: string;
   /** Show language label */
   showLanguage?: boolean;
+  /** Add a copy-to-clipboard button to code blocks */
+  copyButton?: boolean;
+  /** Languages to highlight, or "auto" to load any Prism language on demand */
+  languages?: "auto" | string[];
+  /** Prism color theme, e.g. "tomorrow", "okaidia" or "none" */
+  theme?: string;
+}
+
+// Split highlighted HTML into lines, closing and reopening the token spans
+// that cross line breaks
+function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  const openTags: { tag: string; name: string }[] = [];
+  let line = "";
+
+  html.split(/(<[^>]+>|\n)/).forEach((part) => {
+    if (part === "\n") {
+      const closing = openTags
+        .map(({ name }) => `</${name}>`)
+        .reverse()
+        .join("");
+      lines.push(line + closing);
+      line = openTags.map(({ tag }) => tag).join("");
+    } else if (part.startsWith("</")) {
+      openTags.pop();
+      line += part;
+    } else if (part.startsWith("<")) {
+      openTags.push({ tag: part, name: part.match(/^<(\w+)/)?.[1] || "span" });
+      line += part;
+    } else {
+      line += part;
+    }
+  });
+  lines.push(line);
+
+  return lines;
+}
+
+function escapeHtml(text: string): string {
+  const htmlEscapes: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#x27;",
+  };
+
+  return text.replace(/[&<>"']/g, (char) => htmlEscapes[char] || char);
 }
 
 /**
@@ -36,6 +85,9 @@ export class SyntaxHighlighter {
       lineNumbers: false,
       containerClass: "syntax-highlight",
       showLanguage: false,
+      copyButton: false,
+      languages: "auto",
+      theme: "tomorrow",
       ...config,
     };
   }
@@ -56,6 +108,7 @@ export class SyntaxHighlighter {
   initialize(): void {
     if (this.isInitialized) return;
     this.isInitialized = true;
+    this.applyTheme();
   }
 
   /**
@@ -69,23 +122,11 @@ export class SyntaxHighlighter {
     }
 
     const normalizedLang = this.normalizeLanguage(language);
+    const highlighted = this.highlightTokens(code, normalizedLang);
 
-    if (!this.isLanguageSupported(normalizedLang)) {
-      console.warn(`Language "${normalizedLang}" not supported`);
-      return this.escapeHtml(code);
-    }
-
-    try {
-      const highlighted = Prism.highlight(
-        code,
-        Prism.languages[normalizedLang],
-        normalizedLang
-      );
-      return this.wrapCode(highlighted, normalizedLang);
-    } catch (error) {
-      console.error(`Highlighting failed for "${normalizedLang}":`, error);
-      return this.escapeHtml(code);
-    }
+    return highlighted === null
+      ? this.escapeHtml(code)
+      : this.wrapCode(highlighted, normalizedLang);
   }
 
   /**
@@ -131,7 +172,13 @@ export class SyntaxHighlighter {
    * Update configuration
    */
   updateConfig(newConfig: Partial<SyntaxHighlighterConfig>): void {
+    const themeChanged =
+      newConfig.theme !== undefined && newConfig.theme !== this.config.theme;
     this.config = { ...this.config, ...newConfig };
+
+    if (themeChanged && this.isInitialized) {
+      this.applyTheme();
+    }
   }
 
   /**
@@ -149,29 +196,78 @@ export class SyntaxHighlighter {
       lineNumbers: false,
       containerClass: "syntax-highlight",
       showLanguage: false,
+      copyButton: false,
+      languages: "auto",
+      theme: "tomorrow",
     };
   }
 
   // Private methods
 
   private isLanguageSupported(language: string): boolean {
-    return language in Prism.languages;
+    const { languages } = this.config;
+    if (
+      Array.isArray(languages) &&
+      !languages.some(
+        (allowed) => resolveLanguage(allowed) === resolveLanguage(language)
+      )
+    ) {
+      return false;
+    }
+
+    return loadLanguage(language);
+  }
+
+  // Prism's grammar may be registered under the alias or the component id
+  private getGrammarName(language: string): string {
+    return language in Prism.languages ? language : resolveLanguage(language);
+  }
+
+  private applyTheme(): void {
+    const name = this.config.theme || "tomorrow";
+    const css = getCodeThemeCss(name);
+    let style = document.getElementById(CODE_THEME_STYLE_ID);
+
+    if (css === undefined) {
+      if (name !== "none") {
+        console.warn(
+          `Unknown code theme "${name}". Available themes: ${getCodeThemeNames().join(", ")}`
+        );
+      }
+      style?.remove();
+      return;
+    }
+
+    if (!style) {
+      style = document.createElement("style");
+      style.id = CODE_THEME_STYLE_ID;
+      document.head.appendChild(style);
+    }
+    style.textContent = css;
   }
 
   private normalizeLanguage(language: string): string {
     return language?.toLowerCase().trim() || "text";
   }
 
-  private escapeHtml(text: string): string {
-    const htmlEscapes: Record<string, string> = {
-      "&": "&amp;",
-      "<": "&lt;",
-      ">": "&gt;",
-      '"': "&quot;",
-      "'": "&#x27;",
-    };
+  // Prism token markup without the container, or null when not highlighted
+  private highlightTokens(code: string, language: string): string | null {
+    if (!this.isLanguageSupported(language)) {
+      console.warn(`Language "${language}" not supported`);
+      return null;
+    }
+
+    try {
+      const grammar = this.getGrammarName(language);
+      return Prism.highlight(code, Prism.languages[grammar], grammar);
+    } catch (error) {
+      console.error(`Highlighting failed for "${language}":`, error);
+      return null;
+    }
+  }
 
-    return text.replace(/[&<>"']/g, (char) => htmlEscapes[char] || char);
+  private escapeHtml(text: string): string {
+    return escapeHtml(text);
   }
 
   private wrapCode(highlightedCode: string, language: string): string {
@@ -190,7 +286,7 @@ export class SyntaxHighlighter {
 
   private highlightCodeBlock(block: HTMLElement): void {
     const className = block.className;
-    const languageMatch = className.match(/language-(\w+)/);
+    const languageMatch = className.match(/language-([\w-]+)/);
 
     if (!languageMatch) return;
 
@@ -199,8 +295,99 @@ export class SyntaxHighlighter {
 
     if (!code.trim()) return;
 
-    const highlighted = this.highlightCode(code, language);
-    block.innerHTML = highlighted;
+    const options = parseCodeMeta(block.dataset.meta || "");
+    const lineNumbers = options.lineNumbers ?? this.config.lineNumbers;
+    const steps = options.highlightSteps;
+
+    if (!lineNumbers && !steps) {
+      block.innerHTML = this.highlightCode(code, language);
+    } else {
+      this.highlightLines(block, code, language, options, !!lineNumbers);
+    }
+
+    const pre = block.parentElement;
+    if (
+      pre?.tagName === "PRE" &&
+      (options.copyButton ?? this.config.copyButton)
+    ) {
+      this.addCopyButton(pre, code);
+    }
+  }
+
+  /**
+   * Highlight a block line by line, for line numbers and highlighted lines
+   *
+   * Each `|`-separated highlight step after the first adds an empty
+   * fragment to the block, so the steps are walked like other fragments.
+   */
+  private highlightLines(
+    block: HTMLElement,
+    code: string,
+    language: string,
+    options: CodeBlockOptions,
+    lineNumbers: boolean
+  ): void {
+    const source = code.replace(/\n$/, "");
+    const normalizedLang = this.normalizeLanguage(language);
+    const highlighted =
+      this.highlightTokens(source, normalizedLang) ?? this.escapeHtml(source);
+    const startLine = options.startLine ?? 1;
+
+    const lines = splitHighlightedLines(highlighted)
+      .map(
+        (line, index) =>
+          `<span class="code-line" data-line="${startLine + index}">${line}</span>`
+      )
+      .join("\n");
+    block.innerHTML = this.wrapCode(lines, normalizedLang);
+
+    const pre = block.parentElement;
+    if (pre?.tagName !== "PRE") return;
+
+    if (lineNumbers) {
+      const lastLine = String(startLine + source.split("\n").length - 1);
+      pre.classList.add("mostage-line-numbers");
+      pre.style.setProperty(
+        "--mostage-line-number-width",
+        `${lastLine.length}ch`
+      );
+    }
+
+    const steps = options.highlightSteps;
+    if (!steps) return;
+
+    pre.dataset.highlightSteps = steps.join("|");
+    pre.querySelectorAll(".mostage-code-step").forEach((step) => step.remove());
+    for (let step = 1; step < steps.length; step++) {
+      const marker = document.createElement("span");
+      marker.className = "fragment mostage-code-step";
+      marker.setAttribute("aria-hidden", "true");
+      pre.appendChild(marker);
+    }
+    showCodeStep(pre);
+  }
+
+  private addCopyButton(pre: HTMLElement, code: string): void {
+    if (pre.querySelector(".mostage-code-copy")) return;
+
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "mostage-code-copy";
+    button.textContent = "Copy";
+    button.setAttribute("aria-label", "Copy code");
+    button.addEventListener("click", (event) => {
+      event.stopPropagation();
+      navigator.clipboard
+        ?.writeText(code.replace(/\n$/, ""))
+        .then(() => {
+          button.textContent = "Copied";
+          setTimeout(() => (button.textContent = "Copy"), 1500);
+        })
+        .catch((error) => console.warn("Failed to copy code:", error));
+    });
+
+    pre.classList.add("mostage-code-copyable");
+    pre.appendChild(button);
   }
 }
 
@@ -0,0 +1,125 @@
+import Prism from "prismjs";
+import { languages as prismComponents } from "prismjs/components.json";
+
+/**
+ * Prism languages and color themes
+ *
+ * Every Prism language component ships with the bundle as source text and is
+ * only evaluated when a code block first needs its grammar, together with the
+ * components it requires. Aliases such as `py` or `dockerfile` resolve to the
+ * component that defines them.
+ */
+
+interface PrismComponent {
+  alias?: string | string[];
+  require?: string | string[];
+}
+
+const componentSources = import.meta.glob<string>(
+  "/node_modules/prismjs/components/prism-*.min.js",
+  { eager: true, query: "?raw", import: "default" }
+);
+
+const themeSources = import.meta.glob<string>(
+  "/node_modules/prismjs/themes/prism*.min.css",
+  { eager: true, query: "?raw", import: "default" }
+);
+
+let sourcesById: Map<string, string> | null = null;
+let aliases: Map<string, string> | null = null;
+
+const toArray = (value?: string | string[]): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+function getSources(): Map<string, string> {
+  if (!sourcesById) {
+    sourcesById = new Map(
+      Object.entries(componentSources).map(([path, source]) => [
+        path.match(/prism-([\w-]+)\.min\.js$/)![1],
+        source,
+      ])
+    );
+  }
+  return sourcesById;
+}
+
+function getComponent(id: string): PrismComponent | undefined {
+  return (prismComponents as Record<string, PrismComponent>)[id];
+}
+
+/**
+ * Resolve a language alias to the Prism component that defines it
+ * @param language - Language or alias, e.g. "py"
+ * @returns The component id, e.g. "python"
+ */
+export function resolveLanguage(language: string): string {
+  if (!aliases) {
+    aliases = new Map();
+    Object.entries(prismComponents as Record<string, PrismComponent>).forEach(
+      ([id, component]) =>
+        toArray(component.alias).forEach((alias) => aliases!.set(alias, id))
+    );
+  }
+
+  const name = language.toLowerCase();
+  return aliases.get(name) ?? name;
+}
+
+/**
+ * Make sure Prism has the grammar of a language, loading it when needed
+ * @param language - Language or alias
+ * @returns false when Prism has no such language
+ */
+export function loadLanguage(language: string): boolean {
+  if (isLoaded(language)) return true;
+
+  const id = resolveLanguage(language);
+  loadComponent(id, new Set());
+  return isLoaded(language) || isLoaded(id);
+}
+
+/**
+ * Names of the bundled Prism color themes, plus "none"
+ */
+export function getCodeThemeNames(): string[] {
+  return [...Object.keys(getThemes()), "none"];
+}
+
+/**
+ * CSS of a bundled Prism color theme
+ * @param name - Theme name, e.g. "tomorrow" or "default" for Prism's own
+ */
+export function getCodeThemeCss(name: string): string | undefined {
+  return getThemes()[name];
+}
+
+function getThemes(): Record<string, string> {
+  const themes: Record<string, string> = {};
+  Object.entries(themeSources).forEach(([path, css]) => {
+    const name = path.match(/prism(?:-([\w-]+))?\.min\.css$/)?.[1];
+    themes[name ?? "default"] = css;
+  });
+  return themes;
+}
+
+function isLoaded(language: string): boolean {
+  return typeof Prism.languages[language] === "object";
+}
+
+function loadComponent(id: string, loading: Set<string>): void {
+  const source = getSources().get(id);
+  if (!source || loading.has(id)) return;
+  loading.add(id);
+
+  toArray(getComponent(id)?.require).forEach((dependency) => {
+    if (!isLoaded(dependency)) {
+      loadComponent(dependency, loading);
+    }
+  });
+
+  try {
+    new Function("Prism", source)(Prism);
+  } catch (error) {
+    console.warn(`Failed to load the Prism "${id}" language:`, error);
+  }
+}
@@ -145,12 +145,16 @@ This is the final slide with an image:
       getTotalSlides: () => 5,
       getSlides: () => [],
       getContainer: () => document.createElement("div"),
+      getCurrentFragment: () => 0,
+      getTotalFragments: () => 0,
+      whenReady: () => Promise.resolve(),
       on: vi.fn(),
       emit: vi.fn(),
       nextSlide: vi.fn(),
       previousSlide: vi.fn(),
       goToSlide: vi.fn(),
       toggleOverview: vi.fn(),
+      togglePresenter: vi.fn(),
       destroy: vi.fn(),
     }),
 
@@ -38,12 +38,16 @@ export function createMockMostage(overrides: any = {}) {
     getTotalSlides: vi.fn(() => 5),
     getSlides: vi.fn(() => []),
     getContainer: vi.fn(() => document.createElement("div")),
+    getCurrentFragment: vi.fn(() => 0),
+    getTotalFragments: vi.fn(() => 0),
+    whenReady: vi.fn(() => Promise.resolve()),
     on: vi.fn(),
     emit: vi.fn(),
     nextSlide: vi.fn(),
     previousSlide: vi.fn(),
     goToSlide: vi.fn(),
     toggleOverview: vi.fn(),
+    togglePresenter: vi.fn(),
     destroy: vi.fn(),
     ...overrides,
   };
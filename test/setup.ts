@@ -132,8 +132,8 @@ vi.mock("pptxgenjs", () => ({
 }));
 
 // Mock marked
-vi.mock("marked", () => ({
-  marked: {
+vi.mock("marked", () => {
+  const marked = {
     parse: vi.fn((content) => {
       // Simple markdown parsing for tests
       let html = content;
@@ -202,8 +202,18 @@ vi.mock("marked", () => ({
       return html;
     }),
     setOptions: vi.fn(),
-  },
-}));
+    use: vi.fn(),
+  };
+
+  // Marked instances parse like the global marked
+  class Marked {
+    parse = vi.fn((content: string) => marked.parse(content));
+    setOptions = vi.fn(() => this);
+    use = vi.fn(() => this);
+  }
+
+  return { marked, Marked };
+});
 
 // Mock prismjs
 const mockPrism = {
@@ -30,6 +30,7 @@ export default defineConfig({
         "puppeteer",
         "pptxgenjs",
         "sharp",
+        "katex",
       ],
       output: {
         exports: "named",
@@ -27,7 +27,8 @@ export default defineConfig({
       },
     },
     rollupOptions: {
-      external: ["fs", "path", "url"],
+      // Diagram libraries are optional and loaded on first use
+      external: ["fs", "path", "url", "mermaid", "@viz-js/viz"],
       // Preserve entry signatures to maintain class names
       preserveEntrySignatures: "strict",
       output: {